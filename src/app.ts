@@ -0,0 +1,77 @@
+import { Telegraf, session } from 'telegraf';
+import { systemClock, systemScheduler } from './clock';
+import { DEFAULT_QUIZ_LENGTH, DEFAULT_QUIZ_LENGTHS, DEFAULT_SESSION_TTL_HOURS, DEFAULT_TIME_LIMITS } from './config';
+import { BotDeps, SessionContext } from './interfaces/bot';
+import { registerAchievementHandlers } from './handlers/achievements';
+import { registerAdminHandlers } from './handlers/admin';
+import { registerBattleHandlers } from './handlers/battle';
+import { registerDailyHandlers } from './handlers/daily';
+import { registerLanguageHandlers } from './handlers/language';
+import { registerLeaderboardHandlers } from './handlers/leaderboard';
+import { registerQuizHandlers } from './handlers/quiz';
+import { registerRateLimitHandlers } from './handlers/rateLimit';
+import { registerReportHandlers } from './handlers/reports';
+import { registerStatsHandlers } from './handlers/stats';
+import { DEFAULT_LOCALE } from './services/i18n';
+import { createMetrics } from './services/metrics';
+import { DEFAULT_RATE_LIMITS } from './services/rateLimit';
+import { instrumentStorage } from './storage/instrumented';
+import { createSessionStore, scheduleStateSweep } from './storage/sessionStore';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Only the token and the storage are required, the rest has defaults
+export type BotOptions = Pick<BotDeps, 'token' | 'storage'> & Partial<BotDeps>;
+
+// Build a bot with every handler registered, without starting it
+export function createBot(options: BotOptions): Telegraf<SessionContext> {
+    const metrics = options.metrics || createMetrics();
+    const deps: BotDeps = {
+        clock: systemClock,
+        scheduler: systemScheduler,
+        adminIds: [],
+        questionTags: [],
+        sessionTtlHours: DEFAULT_SESSION_TTL_HOURS,
+        defaultQuizLength: DEFAULT_QUIZ_LENGTH,
+        quizLengths: DEFAULT_QUIZ_LENGTHS,
+        timeLimits: DEFAULT_TIME_LIMITS,
+        defaultLocale: DEFAULT_LOCALE,
+        dailyReminderHour: null,
+        rateLimits: DEFAULT_RATE_LIMITS,
+        ...options,
+        metrics,
+        storage: instrumentStorage(options.storage, metrics)
+    };
+
+    // Replies go through the API even on a webhook, the handlers need the messages they send back
+    const bot = new Telegraf<SessionContext>(deps.token, { telegram: { webhookReply: false } });
+    bot.use(async (ctx, next) => {
+        deps.metrics.increment('updates', { type: ctx.updateType });
+        return next();
+    });
+
+    // Limits go first, the session store and the language both read the storage
+    registerRateLimitHandlers(bot, deps);
+    bot.use(session({ store: createSessionStore(deps.storage, deps.clock, deps.sessionTtlHours * HOUR_MS) }));
+    // Chats that never come back would keep their state and their open session, so sweep them hourly
+    scheduleStateSweep(deps.storage, deps.clock, deps.scheduler, HOUR_MS);
+    registerLanguageHandlers(bot, deps);
+
+    // Admin conversations read plain text, so they go before the keyboard handlers
+    registerAdminHandlers(bot, deps);
+    registerQuizHandlers(bot, deps);
+    registerReportHandlers(bot, deps);
+    registerLeaderboardHandlers(bot, deps);
+    registerStatsHandlers(bot, deps);
+    registerAchievementHandlers(bot, deps);
+    registerDailyHandlers(bot, deps);
+    registerBattleHandlers(bot, deps);
+
+    // Error handler
+    bot.catch((err, ctx) => {
+        deps.metrics.increment('handlerErrors', { type: ctx.updateType });
+        console.error(`Error for ${ctx.updateType}:`, err);
+    });
+
+    return bot;
+}
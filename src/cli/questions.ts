@@ -0,0 +1,60 @@
+import * as dotenv from 'dotenv';
+import { readFileSync, writeFileSync } from 'fs';
+import { loadConfig } from '../config';
+import { detectFormat, parseQuestions, serializeQuestions } from '../services/questionFormats';
+import { createTranslator, DEFAULT_LOCALE } from '../services/i18n';
+import { formatImportReport, importQuestions } from '../services/questionImport';
+import { collectKnownTags } from '../services/questionValidation';
+import { createStorage } from '../storage';
+
+const USAGE = [
+    'Usage:',
+    '  npm run questions -- import <file.json|file.csv|file.yaml> [--dry-run]',
+    '  npm run questions -- export <file.json|file.csv|file.yaml>'
+].join('\n');
+
+// Helper function to pick the format of a file, exits when the extension is not supported
+function formatOf(file: string) {
+    const format = detectFormat(file);
+    if (!format) {
+        console.error(`Unsupported file type for ${file}, expected .json, .csv or .yaml`);
+        process.exit(1);
+    }
+    return format;
+}
+
+async function main(args: string[]): Promise<void> {
+    dotenv.config();
+
+    const [command, file, ...flags] = args;
+    if (!file || (command !== 'import' && command !== 'export')) {
+        console.error(USAGE);
+        process.exit(1);
+    }
+
+    const format = formatOf(file);
+    const config = loadConfig(process.env, { requireBotToken: false });
+    const storage = createStorage(config.storage);
+
+    if (command === 'export') {
+        const questions = await storage.questions.listQuestions();
+        writeFileSync(file, serializeQuestions(questions, format));
+        console.log(`Exported ${questions.length} questions to ${file}`);
+        return;
+    }
+
+    const report = await importQuestions(storage, parseQuestions(readFileSync(file, 'utf8'), format), {
+        dryRun: flags.includes('--dry-run'),
+        knownTags: collectKnownTags(await storage.questions.listTags(), config.questionTags)
+    });
+
+    console.log(formatImportReport(createTranslator(DEFAULT_LOCALE), report));
+    if (report.counts.invalid > 0 || report.counts.failed > 0) {
+        process.exitCode = 1;
+    }
+}
+
+main(process.argv.slice(2)).catch((err) => {
+    console.error('Error running questions command:', err);
+    process.exit(1);
+});
@@ -0,0 +1,15 @@
+import { Clock, Scheduler } from './interfaces/bot';
+
+export const systemClock: Clock = {
+    now: () => new Date()
+};
+
+export const systemScheduler: Scheduler = {
+    schedule: (task, delayMs) => {
+        setTimeout(() => {
+            task().catch((err) => {
+                console.error('Error running scheduled task:', err);
+            });
+        }, delayMs);
+    }
+};
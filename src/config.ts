@@ -0,0 +1,251 @@
+import { readFileSync } from 'fs';
+import { parse as parseYaml } from 'yaml';
+import { DEFAULT_LOCALE, isLocale, Locale, SUPPORTED_LOCALES } from './services/i18n';
+import { DEFAULT_RATE_LIMITS, parseRateLimits, RateLimitConfig } from './services/rateLimit';
+
+// Quiz lengths offered in the /start picker, 0 means unlimited
+export const DEFAULT_QUIZ_LENGTHS = [5, 10, 20, 0];
+// Length of the sessions started without the picker, e.g. by /next
+export const DEFAULT_QUIZ_LENGTH = 10;
+// Seconds per question offered after the quiz length, 0 means no time limit
+export const DEFAULT_TIME_LIMITS = [15, 30, 60, 0];
+export const DEFAULT_SESSION_TTL_HOURS = 24;
+export const DEFAULT_PORT = 8080;
+export const DEFAULT_WEBHOOK_PATH = '/telegram';
+
+// Buttons that fit on one keyboard row
+const MAX_CHOICES_PER_ROW = 8;
+
+export type StorageConfig =
+    | { backend: 'supabase', supabaseUrl: string, supabaseKey: string }
+    // Optional JSON array of questions seeding the question bank, and file keeping conversation state
+    | { backend: 'memory', questionsFile: string | null, stateFile: string | null };
+
+export interface WebhookConfig {
+    // Public domain Telegram posts the updates to
+    domain: string;
+    path: string;
+    secretToken: string;
+}
+
+export interface Config {
+    botToken: string;
+    storage: StorageConfig;
+    // Telegram IDs allowed to manage questions
+    adminIds: string[];
+    // Tags accepted on questions on top of the ones already in use
+    questionTags: string[];
+    sessionTtlHours: number;
+    // Hour of the day (UTC) the daily challenge reminders are sent, null to send none
+    dailyReminderHour: number | null;
+    defaultQuizLength: number;
+    quizLengths: number[];
+    timeLimits: number[];
+    // Language of the players whose Telegram language is not supported
+    defaultLocale: Locale;
+    rateLimits: RateLimitConfig;
+    // Port of the HTTP server, null to run without one
+    port: number | null;
+    // Null to long poll instead
+    webhook: WebhookConfig | null;
+}
+
+// Every setting by its key in the config file, with the environment variable that overrides it
+const SETTINGS = {
+    botToken: 'BOT_TOKEN',
+    storageBackend: 'STORAGE_BACKEND',
+    supabaseUrl: 'SUPABASE_URL',
+    supabaseKey: 'SUPABASE_KEY',
+    questionsFile: 'QUESTIONS_FILE',
+    stateFile: 'STATE_FILE',
+    adminIds: 'ADMIN_IDS',
+    questionTags: 'QUESTION_TAGS',
+    sessionTtlHours: 'SESSION_TTL_HOURS',
+    dailyReminderHour: 'DAILY_REMINDER_HOUR',
+    defaultQuizLength: 'DEFAULT_QUIZ_LENGTH',
+    quizLengths: 'QUIZ_LENGTHS',
+    timeLimits: 'TIME_LIMITS',
+    defaultLocale: 'DEFAULT_LOCALE',
+    rateLimits: 'RATE_LIMITS',
+    port: 'PORT',
+    webhookDomain: 'WEBHOOK_DOMAIN',
+    webhookPath: 'WEBHOOK_PATH',
+    webhookSecret: 'WEBHOOK_SECRET'
+} as const;
+
+type SettingKey = keyof typeof SETTINGS;
+
+export interface LoadConfigOptions {
+    // Commands that never reach Telegram, such as the questions CLI, run without a bot token
+    requireBotToken?: boolean;
+}
+
+// Helper function to read the config file, JSON or YAML by its extension
+function readConfigFile(file: string): Record<string, unknown> {
+    const content = readFileSync(file, 'utf8');
+    const parsed: unknown = /\.ya?ml$/i.test(file) ? parseYaml(content) : JSON.parse(content);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        throw new Error('expected an object of settings');
+    }
+    return parsed as Record<string, unknown>;
+}
+
+// Load the settings from CONFIG_FILE when set, each one overridden by its environment variable,
+// throwing one error that lists every invalid setting
+export function loadConfig(env: NodeJS.ProcessEnv = process.env, { requireBotToken = true }: LoadConfigOptions = {}): Config {
+    const errors: string[] = [];
+
+    let file: Record<string, unknown> = {};
+    if (env.CONFIG_FILE) {
+        try {
+            file = readConfigFile(env.CONFIG_FILE);
+        } catch (err) {
+            errors.push(`CONFIG_FILE ${env.CONFIG_FILE} could not be read: ${err instanceof Error ? err.message : err}`);
+        }
+    }
+    for (const key of Object.keys(file)) {
+        if (!(key in SETTINGS)) {
+            errors.push(`Unknown setting "${key}" in ${env.CONFIG_FILE}, expected one of ${Object.keys(SETTINGS).join(', ')}`);
+        }
+    }
+
+    // Helper function to get a setting, from the environment first and then the config file
+    function raw(key: SettingKey): unknown {
+        const fromEnv = env[SETTINGS[key]];
+        return fromEnv !== undefined && fromEnv !== '' ? fromEnv : file[key];
+    }
+
+    // Helper function to name a setting in the errors, as both sources know it
+    function label(key: SettingKey): string {
+        return `${SETTINGS[key]} (${key})`;
+    }
+
+    // Helper function to read a text setting, null when it is not set
+    function readString(key: SettingKey): string | null {
+        const value = raw(key);
+        if (value === undefined || value === null || value === '') {
+            return null;
+        }
+        if (typeof value !== 'string' && typeof value !== 'number') {
+            errors.push(`${label(key)} must be a text`);
+            return null;
+        }
+        return String(value).trim();
+    }
+
+    // Helper function to read a text setting that must be there
+    function readRequired(key: SettingKey, reason: string): string {
+        const value = readString(key);
+        if (value === null) {
+            errors.push(`${label(key)} is required${reason}`);
+        }
+        return value || '';
+    }
+
+    // Helper function to read a whole number within bounds, the fallback when it is not set
+    function readInteger<T extends number | null>(key: SettingKey, fallback: T, min: number, max = Number.MAX_SAFE_INTEGER): number | T {
+        const value = raw(key);
+        if (value === undefined || value === null || value === '') {
+            return fallback;
+        }
+        const parsed = Number(value);
+        if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+            errors.push(`${label(key)} must be a whole number from ${min}${max < Number.MAX_SAFE_INTEGER ? ` to ${max}` : ''}, got "${value}"`);
+            return fallback;
+        }
+        return parsed;
+    }
+
+    // Helper function to read a list, given as an array or as comma separated text
+    function readList(key: SettingKey): string[] {
+        const value = raw(key);
+        if (value === undefined || value === null) {
+            return [];
+        }
+        const items = Array.isArray(value) ? value : String(value).split(',');
+        return items.map((item) => String(item).trim()).filter(Boolean);
+    }
+
+    // Helper function to read a list of whole numbers from 0, such as the choices of a picker
+    function readIntegerList(key: SettingKey, fallback: number[]): number[] {
+        const items = readList(key);
+        if (items.length === 0) {
+            return fallback;
+        }
+        const numbers = items.map(Number);
+        if (numbers.some((item) => !Number.isInteger(item) || item < 0) || numbers.length > MAX_CHOICES_PER_ROW) {
+            errors.push(`${label(key)} must list up to ${MAX_CHOICES_PER_ROW} whole numbers from 0 (0 for no limit), got "${items.join(',')}"`);
+            return fallback;
+        }
+        return [...new Set(numbers)];
+    }
+
+    const botToken = requireBotToken ? readRequired('botToken', '') : readString('botToken') || '';
+
+    let storage: StorageConfig;
+    const backend = readString('storageBackend') || 'supabase';
+    if (backend === 'memory') {
+        storage = { backend, questionsFile: readString('questionsFile'), stateFile: readString('stateFile') };
+    } else {
+        if (backend !== 'supabase') {
+            errors.push(`${label('storageBackend')} must be "supabase" or "memory", got "${backend}"`);
+        }
+        storage = {
+            backend: 'supabase',
+            supabaseUrl: readRequired('supabaseUrl', ' by the supabase storage backend'),
+            supabaseKey: readRequired('supabaseKey', ' by the supabase storage backend')
+        };
+    }
+
+    const defaultLocale = readString('defaultLocale') || DEFAULT_LOCALE;
+    if (!isLocale(defaultLocale)) {
+        errors.push(`${label('defaultLocale')} must be one of ${SUPPORTED_LOCALES.join(', ')}, got "${defaultLocale}"`);
+    }
+
+    let rateLimits = DEFAULT_RATE_LIMITS;
+    const rateLimitsInput = raw('rateLimits');
+    if (rateLimitsInput !== undefined && rateLimitsInput !== null) {
+        try {
+            rateLimits = parseRateLimits(rateLimitsInput as string | object);
+        } catch (err) {
+            errors.push(`${label('rateLimits')} is invalid: ${err instanceof Error ? err.message : err}`);
+        }
+    }
+
+    // Webhook mode needs the secret token, so nobody but Telegram can post updates
+    const webhookDomain = readString('webhookDomain');
+    let webhook: WebhookConfig | null = null;
+    if (webhookDomain) {
+        const secretToken = readRequired('webhookSecret', ` with ${SETTINGS.webhookDomain}`);
+        if (secretToken && !/^[A-Za-z0-9_-]{1,256}$/.test(secretToken)) {
+            errors.push(`${label('webhookSecret')} must be 1 to 256 letters, digits, _ or -`);
+        }
+        const path = readString('webhookPath') || DEFAULT_WEBHOOK_PATH;
+        if (!path.startsWith('/')) {
+            errors.push(`${label('webhookPath')} must start with /, got "${path}"`);
+        }
+        webhook = { domain: webhookDomain.replace(/^https?:\/\//, '').replace(/\/+$/, ''), path, secretToken };
+    }
+
+    const config: Config = {
+        botToken,
+        storage,
+        adminIds: readList('adminIds'),
+        questionTags: readList('questionTags'),
+        sessionTtlHours: readInteger('sessionTtlHours', DEFAULT_SESSION_TTL_HOURS, 1),
+        dailyReminderHour: readInteger('dailyReminderHour', null, 0, 23),
+        defaultQuizLength: readInteger('defaultQuizLength', DEFAULT_QUIZ_LENGTH, 1),
+        quizLengths: readIntegerList('quizLengths', DEFAULT_QUIZ_LENGTHS),
+        timeLimits: readIntegerList('timeLimits', DEFAULT_TIME_LIMITS),
+        defaultLocale: isLocale(defaultLocale) ? defaultLocale : DEFAULT_LOCALE,
+        rateLimits,
+        port: readInteger('port', webhook ? DEFAULT_PORT : null, 1, 65535),
+        webhook
+    };
+
+    if (errors.length > 0) {
+        throw new Error(`Invalid configuration:\n${errors.map((error) => `  - ${error}`).join('\n')}`);
+    }
+
+    return config;
+}
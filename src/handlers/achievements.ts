@@ -0,0 +1,78 @@
+import { Telegraf } from 'telegraf';
+import { BotDeps, SessionContext } from '../interfaces/bot';
+import { Achievement } from '../interfaces/storage';
+import {
+    AchievementGoal,
+    Badge,
+    buildBadges,
+    formatAchievementGoal,
+    formatAchievementName,
+    parseAchievementCode,
+    unlockAchievements
+} from '../services/achievements';
+import { Translate } from '../services/i18n';
+
+// Helper function to show how far the player is from a locked achievement
+function formatProgress(t: Translate, badge: Badge): string {
+    const progress = Math.min(badge.progress, badge.target);
+    return badge.kind === 'mastery'
+        ? t('achievement.masteryProgress', { accuracy: Math.round((badge.accuracy || 0) * 100), progress, target: badge.target })
+        : t('achievement.progress', { progress, target: badge.target });
+}
+
+// Helper function to build the /achievements message from the unlocked achievements and the player's progress
+export function formatAchievements(t: Translate, unlocked: Achievement[], badges: Badge[]): string {
+    const unlockedCodes = unlocked.map((achievement) => achievement.code);
+    const earned = unlocked
+        .map((achievement): [Achievement, AchievementGoal | null] => [achievement, parseAchievementCode(achievement.code)])
+        .filter((entry): entry is [Achievement, AchievementGoal] => entry[1] !== null);
+    const locked = badges.filter((badge) => !unlockedCodes.includes(badge.code));
+
+    const lines = [t('achievement.title', { earned: earned.length, total: earned.length + locked.length })];
+
+    if (earned.length > 0) {
+        lines.push('', t('achievement.earned'));
+        for (const [achievement, goal] of earned) {
+            lines.push(t('achievement.earnedLine', {
+                name: formatAchievementName(t, goal),
+                goal: formatAchievementGoal(t, goal),
+                date: achievement.unlocked_date.slice(0, 10)
+            }));
+        }
+    }
+
+    if (locked.length > 0) {
+        lines.push('', t('achievement.locked'));
+        for (const badge of locked) {
+            lines.push(t('achievement.lockedLine', {
+                name: formatAchievementName(t, badge),
+                goal: formatAchievementGoal(t, badge),
+                progress: formatProgress(t, badge)
+            }));
+        }
+    }
+
+    if (!badges.some((badge) => badge.kind === 'mastery')) {
+        lines.push('', t('achievement.masteryHint'));
+    }
+
+    return lines.join('\n');
+}
+
+export function registerAchievementHandlers(bot: Telegraf<SessionContext>, { storage, clock }: BotDeps): void {
+    // Achievements command
+    bot.command('achievements', async (ctx) => {
+        const tgId = ctx.from.id.toString();
+
+        // Answers given before achievements existed count too
+        await unlockAchievements(storage, tgId, clock.now());
+
+        const [sessions, answers, unlocked] = await Promise.all([
+            storage.sessions.listSessions({ tgId }),
+            storage.sessions.listPlayerAnswers(tgId),
+            storage.achievements.listAchievements(tgId)
+        ]);
+
+        await ctx.reply(formatAchievements(ctx.t, unlocked, buildBadges(sessions, answers, clock.now())));
+    });
+}
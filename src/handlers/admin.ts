@@ -0,0 +1,546 @@
+import { Telegraf, Markup } from 'telegraf';
+import { message } from 'telegraf/filters';
+import { AdminDraft, AdminDraftStep, BotDeps, SessionContext } from '../interfaces/bot';
+import { QuestionInsert } from '../interfaces/question';
+import { DIFFICULTY_LEVELS, DIFFICULTY_NAMES, isDifficulty } from '../services/difficulty';
+import { MessageKey, Translate } from '../services/i18n';
+import { splitMessage } from '../services/messages';
+import { correctIndexes, isMultiSelect } from '../services/questionContent';
+import { detectFormat, parseQuestions } from '../services/questionFormats';
+import { formatImportReport, importQuestions } from '../services/questionImport';
+import { formatQuestionStatsDetail, formatQuestionStatsReport, reviewQuestions } from '../services/questionStats';
+import { collectKnownTags, MAX_CHOICES, MIN_CHOICES, validateQuestion } from '../services/questionValidation';
+
+type InputStep = Exclude<AdminDraftStep, 'review'>;
+
+// Order of the steps when adding a question, the difficulty is left to the answers unless edited
+const GUIDED_STEPS: AdminDraftStep[] = ['question', 'choices', 'answer', 'info', 'tags', 'review'];
+
+// Largest question file accepted by /import
+const MAX_IMPORT_FILE_SIZE = 1024 * 1024;
+
+// Catalogue keys of the field edit buttons
+const FIELD_LABELS: Record<InputStep, MessageKey> = {
+    question: 'admin.field.question',
+    choices: 'admin.field.choices',
+    answer: 'admin.field.answer',
+    info: 'admin.field.info',
+    tags: 'admin.field.tags',
+    difficulty: 'admin.field.difficulty'
+};
+
+// Steps whose input can be cleared with /skip
+const SKIPPABLE_STEPS: AdminDraftStep[] = ['info', 'difficulty'];
+
+// Helper function to show a question with its answer key, as admins review it
+export function formatQuestionPreview(t: Translate, question: QuestionInsert): string {
+    const lines = [`📝 ${question.question || t('admin.preview.noQuestion')}`, ''];
+    const correct = correctIndexes({ answer_index: question.answer_index ?? null, answer_indexes: question.answer_indexes ?? null });
+
+    (question.choices || []).forEach((choice, index) => {
+        lines.push(`${index + 1}. ${choice}${correct.includes(index) ? ' ✅' : ''}`);
+    });
+
+    lines.push('');
+    if (correct.length > 1) {
+        lines.push(t('admin.preview.multiSelect'));
+    }
+    if (question.media) {
+        lines.push(t(question.media_type === 'document' ? 'admin.preview.document' : 'admin.preview.photo', { media: question.media }));
+    }
+    if (question.parse_mode) {
+        lines.push(t('admin.preview.parseMode', { parseMode: question.parse_mode }));
+    }
+
+    lines.push(
+        `ℹ️ ${question.answer_info || t('admin.preview.noExplanation')}`,
+        `🏷️ ${(question.tags || []).join(', ') || t('admin.preview.noTags')}`,
+        question.difficulty
+            ? t('admin.preview.difficulty', { difficulty: question.difficulty })
+            : t('admin.preview.difficultyRated')
+    );
+
+    if (question.id) {
+        lines.push(`🆔 ${question.id}`);
+    }
+
+    if (question.retired_date) {
+        lines.push(t('admin.preview.retired', { date: question.retired_date.slice(0, 10) }));
+    }
+
+    return lines.join('\n');
+}
+
+// Helper function to parse a comma or space separated tag list
+function parseTags(text: string): string[] {
+    return [...new Set(
+        text.split(/[,\s]+/)
+            .map((tag) => tag.trim().toLowerCase().replace(/^#/, ''))
+            .filter(Boolean)
+    )];
+}
+
+export function registerAdminHandlers(bot: Telegraf<SessionContext>, { storage, clock, adminIds, questionTags }: BotDeps): void {
+    // Helper function to check the caller is in the configured admin list
+    function isAdmin(ctx: SessionContext): boolean {
+        return !!ctx.from && adminIds.includes(ctx.from.id.toString());
+    }
+
+    // Helper function to list the tags a question may use
+    async function getKnownTags(): Promise<string[]> {
+        return collectKnownTags(await storage.questions.listTags(), questionTags);
+    }
+
+    // Helper function to ask for the input of the current step, or show the review
+    async function prompt(ctx: SessionContext, draft: AdminDraft): Promise<void> {
+        switch (draft.step) {
+            case 'question':
+                await ctx.reply(ctx.t('admin.prompt.question'));
+                return;
+            case 'choices':
+                await ctx.reply(ctx.t('admin.prompt.choices', { min: MIN_CHOICES, max: MAX_CHOICES }));
+                return;
+            case 'answer': {
+                const choices = (draft.question.choices || []).map((choice, index) => `${index + 1}. ${choice}`);
+                await ctx.reply(ctx.t('admin.prompt.answer', { choices: choices.join('\n') }));
+                return;
+            }
+            case 'info':
+                await ctx.reply(ctx.t('admin.prompt.info'));
+                return;
+            case 'tags':
+                await ctx.reply(ctx.t('admin.prompt.tags', { tags: (await getKnownTags()).join(', ') }));
+                return;
+            case 'difficulty':
+                await ctx.reply(ctx.t('admin.prompt.difficulty', {
+                    levels: DIFFICULTY_LEVELS.join(', '),
+                    names: Object.keys(DIFFICULTY_NAMES).join(', ')
+                }));
+                return;
+            case 'review':
+                await showReview(ctx, draft);
+                return;
+        }
+    }
+
+    // Helper function to show the draft with its validation result and the save buttons
+    async function showReview(ctx: SessionContext, draft: AdminDraft): Promise<void> {
+        const errors = validateQuestion(draft.question, await getKnownTags(), ctx.t);
+        const lines = [
+            ctx.t(draft.questionId ? 'admin.editing' : 'admin.adding'),
+            '',
+            formatQuestionPreview(ctx.t, draft.question)
+        ];
+
+        if (errors.length > 0) {
+            lines.push('', ctx.t('admin.fixFirst'), ...errors.map((error) => `• ${error}`));
+        }
+
+        const fields = (Object.keys(FIELD_LABELS) as InputStep[]).map((step) =>
+            Markup.button.callback(ctx.t(FIELD_LABELS[step]), `admin:edit:${step}`)
+        );
+        const actions = [Markup.button.callback(ctx.t('admin.cancel'), 'admin:cancel')];
+        if (errors.length === 0) {
+            actions.unshift(Markup.button.callback(ctx.t('admin.save'), 'admin:save'));
+        }
+
+        await ctx.reply(
+            lines.join('\n'),
+            Markup.inlineKeyboard([fields.slice(0, 3), fields.slice(3), actions])
+        );
+    }
+
+    // Helper function to store the admin's input in the draft, returns an error message when it is invalid
+    async function applyInput(t: Translate, draft: AdminDraft, text: string): Promise<string | undefined> {
+        const question = draft.question;
+
+        switch (draft.step) {
+            case 'question':
+                if (!text.trim()) {
+                    return t('admin.error.emptyQuestion');
+                }
+                question.question = text.trim();
+                return;
+            case 'choices': {
+                const choices = text.split('\n').map((choice) => choice.trim()).filter(Boolean);
+                if (choices.length < MIN_CHOICES || choices.length > MAX_CHOICES) {
+                    return t('admin.error.choiceCount', { min: MIN_CHOICES, max: MAX_CHOICES, count: choices.length });
+                }
+                if (new Set(choices).size !== choices.length) {
+                    return t('admin.error.uniqueChoices');
+                }
+                // Keep the answers when they are still among the choices
+                const answerIndex = question.answer ? choices.indexOf(question.answer) : -1;
+                const answerIndexes = (question.answer_indexes || []).map((index) => choices.indexOf(question.choices?.[index] ?? ''));
+                question.choices = choices;
+                question.answer_index = answerIndex >= 0 ? answerIndex : null;
+                question.answer = answerIndex >= 0 ? choices[answerIndex] : null;
+                question.answer_indexes = answerIndexes.length > 0 && !answerIndexes.includes(-1)
+                    ? answerIndexes.sort((a, b) => a - b)
+                    : null;
+                return;
+            }
+            case 'answer': {
+                const choices = question.choices || [];
+                const numbers = [...new Set(text.split(/[,\s]+/).filter(Boolean).map(Number))];
+                if (numbers.length === 0 || numbers.some((number) => !Number.isInteger(number) || number < 1 || number > choices.length)) {
+                    return t('admin.error.answerNumber', { count: choices.length });
+                }
+                // Several correct choices make a multi-select question, which has no single answer
+                if (numbers.length > 1) {
+                    question.answer_indexes = numbers.map((number) => number - 1).sort((a, b) => a - b);
+                    question.answer_index = null;
+                    question.answer = null;
+                    return;
+                }
+                question.answer_indexes = null;
+                question.answer_index = numbers[0] - 1;
+                question.answer = choices[numbers[0] - 1];
+                return;
+            }
+            case 'info':
+                question.answer_info = text.trim() === '/skip' ? null : text.trim();
+                return;
+            case 'tags': {
+                const tags = parseTags(text);
+                const knownTags = await getKnownTags();
+                const unknownTags = tags.filter((tag) => !knownTags.includes(tag));
+                if (unknownTags.length > 0) {
+                    return t('admin.error.unknownTags', { tags: unknownTags.join(', '), known: knownTags.join(', ') });
+                }
+                question.tags = tags;
+                return;
+            }
+            case 'difficulty': {
+                if (text.trim() === '/skip') {
+                    question.difficulty = null;
+                    return;
+                }
+                const difficulty = DIFFICULTY_NAMES[text.trim().toLowerCase()] ?? parseInt(text.trim(), 10);
+                if (!isDifficulty(difficulty)) {
+                    return t('admin.error.difficulty', { levels: DIFFICULTY_LEVELS.join(', '), names: Object.keys(DIFFICULTY_NAMES).join(', ') });
+                }
+                question.difficulty = difficulty;
+                return;
+            }
+        }
+    }
+
+    // Helper function to move the draft to the step after the one just answered
+    function advance(draft: AdminDraft): void {
+        const multiSelect = isMultiSelect({ answer_indexes: draft.question.answer_indexes ?? null });
+        if (draft.step === 'choices' && draft.question.answer_index === null && !multiSelect) {
+            draft.step = 'answer';
+            return;
+        }
+
+        draft.step = draft.guided
+            ? GUIDED_STEPS[GUIDED_STEPS.indexOf(draft.step) + 1]
+            : 'review';
+    }
+
+    // Helper function to load the question named in a command payload
+    async function getPayloadQuestion(ctx: SessionContext & { payload: string }, usage: string) {
+        const questionId = ctx.payload.trim();
+        if (!questionId) {
+            await ctx.reply(ctx.t('admin.usage', { usage }));
+            return;
+        }
+
+        const question = await storage.questions.getQuestionById(questionId);
+        if (!question) {
+            await ctx.reply(ctx.t('admin.notFound', { id: questionId }));
+            return;
+        }
+
+        return question;
+    }
+
+    // Add question command
+    bot.command('addquestion', async (ctx) => {
+        if (!isAdmin(ctx)) {
+            await ctx.reply(ctx.t('admin.adminsOnly'));
+            return;
+        }
+
+        const draft: AdminDraft = { guided: true, step: 'question', question: { question: '' } };
+        ctx.session = { ...ctx.session, adminDraft: draft };
+        await ctx.reply(ctx.t('admin.addIntro'));
+        await prompt(ctx, draft);
+    });
+
+    // Edit question command
+    bot.command('editquestion', async (ctx) => {
+        if (!isAdmin(ctx)) {
+            await ctx.reply(ctx.t('admin.adminsOnly'));
+            return;
+        }
+
+        const question = await getPayloadQuestion(ctx, '/editquestion <question id>');
+        if (!question) {
+            return;
+        }
+
+        const { id, ...fields } = question;
+        const draft: AdminDraft = { questionId: id, guided: false, step: 'review', question: fields };
+        ctx.session = { ...ctx.session, adminDraft: draft };
+        await prompt(ctx, draft);
+    });
+
+    // Retire question command, asks for confirmation
+    bot.command('retirequestion', async (ctx) => {
+        if (!isAdmin(ctx)) {
+            await ctx.reply(ctx.t('admin.adminsOnly'));
+            return;
+        }
+
+        const question = await getPayloadQuestion(ctx, '/retirequestion <question id>');
+        if (!question) {
+            return;
+        }
+
+        if (question.retired_date) {
+            await ctx.reply(ctx.t('admin.alreadyRetired'));
+            return;
+        }
+
+        await ctx.reply(
+            ctx.t('admin.retireConfirm', { preview: formatQuestionPreview(ctx.t, question) }),
+            Markup.inlineKeyboard([[
+                Markup.button.callback(ctx.t('admin.retire'), `admin:retire:${question.id}`),
+                Markup.button.callback(ctx.t('admin.cancel'), 'admin:cancel')
+            ]])
+        );
+    });
+
+    // Preview question command
+    bot.command('previewquestion', async (ctx) => {
+        if (!isAdmin(ctx)) {
+            await ctx.reply(ctx.t('admin.adminsOnly'));
+            return;
+        }
+
+        const question = await getPayloadQuestion(ctx, '/previewquestion <question id>');
+        if (!question) {
+            return;
+        }
+
+        const errors = validateQuestion(question, await getKnownTags(), ctx.t);
+        const lines = [formatQuestionPreview(ctx.t, question)];
+        if (errors.length > 0) {
+            lines.push('', ctx.t('admin.problems'), ...errors.map((error) => `• ${error}`));
+        }
+        await ctx.reply(lines.join('\n'));
+    });
+
+    // Question statistics command, the flagged questions of the bank or the details of one question
+    bot.command('qstats', async (ctx) => {
+        if (!isAdmin(ctx)) {
+            await ctx.reply(ctx.t('admin.adminsOnly'));
+            return;
+        }
+
+        if (ctx.payload.trim()) {
+            const question = await getPayloadQuestion(ctx, '/qstats [question id]');
+            if (!question) {
+                return;
+            }
+
+            const [rows, reports] = await Promise.all([
+                storage.questions.listChoiceStats(question.id),
+                storage.reports.listOpenReports(question.id)
+            ]);
+            const [review] = reviewQuestions([question], rows, reports);
+            await ctx.reply(
+                formatQuestionStatsDetail(ctx.t, review),
+                reports.length > 0
+                    ? Markup.inlineKeyboard([Markup.button.callback(ctx.t('admin.markReviewed'), `admin:reports:${question.id}`)])
+                    : undefined
+            );
+            return;
+        }
+
+        const [questions, rows, reports] = await Promise.all([
+            storage.questions.listQuestions(),
+            storage.questions.listChoiceStats(),
+            storage.reports.listOpenReports()
+        ]);
+        const reviews = reviewQuestions(questions.filter((question) => !question.retired_date), rows, reports);
+        for (const part of splitMessage(formatQuestionStatsReport(ctx.t, reviews))) {
+            await ctx.reply(part);
+        }
+    });
+
+    // Import command without a file, explains how to send one
+    bot.command('import', async (ctx) => {
+        if (!isAdmin(ctx)) {
+            await ctx.reply(ctx.t('admin.adminsOnly'));
+            return;
+        }
+
+        await ctx.reply(ctx.t('admin.importUsage'));
+    });
+
+    // Handle question files sent with /import as caption
+    bot.on(message('document'), async (ctx, next) => {
+        const [command, ...flags] = (ctx.message.caption || '').trim().split(/\s+/);
+        if (!/^\/import(@\w+)?$/.test(command)) {
+            return next();
+        }
+
+        if (!isAdmin(ctx)) {
+            await ctx.reply(ctx.t('admin.adminsOnly'));
+            return;
+        }
+
+        const document = ctx.message.document;
+        const format = detectFormat(document.file_name || '');
+        if (!format) {
+            await ctx.reply(ctx.t('admin.importUnsupported', { usage: ctx.t('admin.importUsage') }));
+            return;
+        }
+
+        if ((document.file_size || 0) > MAX_IMPORT_FILE_SIZE) {
+            await ctx.reply(ctx.t('admin.importTooLarge', { size: MAX_IMPORT_FILE_SIZE / 1024 }));
+            return;
+        }
+
+        let rows;
+        try {
+            const link = await ctx.telegram.getFileLink(document.file_id);
+            const response = await fetch(link);
+            if (!response.ok) {
+                throw new Error(`Download failed with status ${response.status}`);
+            }
+            rows = parseQuestions(await response.text(), format);
+        } catch (err) {
+            console.error('Error reading import file:', err);
+            await ctx.reply(ctx.t('admin.importUnreadable', { error: err instanceof Error ? err.message : String(err) }));
+            return;
+        }
+
+        const report = await importQuestions(storage, rows, {
+            dryRun: flags.includes('--dry-run'),
+            knownTags: await getKnownTags(),
+            t: ctx.t
+        });
+
+        for (const part of splitMessage(formatImportReport(ctx.t, report))) {
+            await ctx.reply(part);
+        }
+    });
+
+    // Cancel command, drops the current draft
+    bot.command('cancel', async (ctx, next) => {
+        if (!ctx.session?.adminDraft) {
+            return next();
+        }
+
+        ctx.session.adminDraft = undefined;
+        await ctx.reply(ctx.t('admin.cancelled'));
+    });
+
+    // Handle the admin's answers while a draft waits for input
+    bot.on(message('text'), async (ctx, next) => {
+        const draft = ctx.session?.adminDraft;
+        const text = ctx.message.text;
+
+        // Other commands keep working in the middle of a draft
+        if (!draft || draft.step === 'review' || !isAdmin(ctx) || (text.startsWith('/') && text !== '/skip')) {
+            return next();
+        }
+
+        if (text === '/skip' && !SKIPPABLE_STEPS.includes(draft.step)) {
+            await ctx.reply(ctx.t('admin.skipOnly'));
+            return;
+        }
+
+        const error = await applyInput(ctx.t, draft, text);
+        if (error) {
+            await ctx.reply(`⚠️ ${error}`);
+            return;
+        }
+
+        advance(draft);
+        await prompt(ctx, draft);
+    });
+
+    // Handle field edit buttons
+    bot.action(/^admin:edit:(question|choices|answer|info|tags|difficulty)$/, async (ctx) => {
+        const draft = ctx.session?.adminDraft;
+        if (!isAdmin(ctx) || !draft) {
+            await ctx.answerCbQuery(ctx.t('admin.nothingToEdit'));
+            return;
+        }
+
+        await ctx.answerCbQuery();
+        draft.guided = false;
+        draft.step = ctx.match[1] as InputStep;
+        await prompt(ctx, draft);
+    });
+
+    // Handle save button
+    bot.action('admin:save', async (ctx) => {
+        const draft = ctx.session?.adminDraft;
+        if (!isAdmin(ctx) || !draft) {
+            await ctx.answerCbQuery(ctx.t('admin.nothingToSave'));
+            return;
+        }
+
+        const errors = validateQuestion(draft.question, await getKnownTags(), ctx.t);
+        if (errors.length > 0) {
+            await ctx.answerCbQuery(ctx.t('admin.notValidYet'));
+            await showReview(ctx, draft);
+            return;
+        }
+
+        const saved = draft.questionId
+            ? await storage.questions.updateQuestion(draft.questionId, draft.question)
+            : await storage.questions.createQuestion(draft.question);
+        if (!saved) {
+            await ctx.answerCbQuery(ctx.t('admin.saveFailed'));
+            return;
+        }
+
+        ctx.session!.adminDraft = undefined;
+        await ctx.answerCbQuery(ctx.t('admin.saved'));
+        await ctx.editMessageReplyMarkup(undefined);
+        await ctx.reply(ctx.t('admin.questionSaved', { preview: formatQuestionPreview(ctx.t, saved) }));
+    });
+
+    // Handle retire confirmation
+    bot.action(/^admin:retire:(.+)$/, async (ctx) => {
+        if (!isAdmin(ctx)) {
+            await ctx.answerCbQuery(ctx.t('admin.actionAdminsOnly'));
+            return;
+        }
+
+        const retired = await storage.questions.updateQuestion(ctx.match[1], { retired_date: clock.now().toISOString() });
+        await ctx.answerCbQuery(retired ? ctx.t('admin.retired') : ctx.t('admin.notFound', { id: ctx.match[1] }));
+        await ctx.editMessageReplyMarkup(undefined);
+        if (retired) {
+            await ctx.reply(ctx.t('admin.questionRetired', { preview: formatQuestionPreview(ctx.t, retired) }));
+        }
+    });
+
+    // Handle the button closing the reports of a question once it was looked at
+    bot.action(/^admin:reports:(.+)$/, async (ctx) => {
+        if (!isAdmin(ctx)) {
+            await ctx.answerCbQuery(ctx.t('admin.actionAdminsOnly'));
+            return;
+        }
+
+        const resolved = await storage.reports.resolveReports(ctx.match[1], clock.now().toISOString());
+        await ctx.answerCbQuery(ctx.t('admin.reportsResolved', { count: resolved }));
+        await ctx.editMessageReplyMarkup(undefined);
+    });
+
+    // Handle cancel button
+    bot.action('admin:cancel', async (ctx) => {
+        if (ctx.session?.adminDraft) {
+            ctx.session.adminDraft = undefined;
+        }
+        await ctx.answerCbQuery(ctx.t('admin.cancelledShort'));
+        await ctx.editMessageReplyMarkup(undefined);
+    });
+}
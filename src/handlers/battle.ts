@@ -0,0 +1,356 @@
+import { Telegraf, Markup } from 'telegraf';
+import { Battle, BattleRound } from '../interfaces/battle';
+import { BotDeps, SessionContext } from '../interfaces/bot';
+import { SessionMode } from '../interfaces/session';
+import {
+    BATTLE_BREAK_SECONDS,
+    BATTLE_ROUND_SECONDS,
+    BattleScore,
+    buildBattleScoreboard,
+    DEFAULT_BATTLE_ROUNDS,
+    MAX_BATTLE_ROUNDS
+} from '../services/battle';
+import { orderChoices, shuffleChoices, toAnswerIndex } from '../services/choiceOrder';
+import { createTranslator, localizeQuestion, resolveLocale, Translate } from '../services/i18n';
+import { MODE_LABELS } from '../services/modes';
+import { choiceLabels, layoutQuestion, sendQuestionMedia } from '../services/questionContent';
+import { scoreAnswer } from '../services/scoring';
+
+// Review mode depends on each player's own mistakes, so battles only use the shared modes
+const BATTLE_MODES: SessionMode[] = ['mixed', 'dev', 'user'];
+
+const MEDALS = ['🥇', '🥈', '🥉'];
+
+// Helper function to read the rounds and mode of a /battle command, e.g. "/battle 10 dev"
+function parseBattleOptions(payload: string): { rounds: number, mode: SessionMode } | undefined {
+    let rounds = DEFAULT_BATTLE_ROUNDS;
+    let mode: SessionMode = 'mixed';
+
+    for (const arg of payload.trim().split(/\s+/).filter(Boolean)) {
+        const number = parseInt(arg, 10);
+        if (!isNaN(number) && String(number) === arg && number >= 1 && number <= MAX_BATTLE_ROUNDS) {
+            rounds = number;
+        } else if (BATTLE_MODES.includes(arg as SessionMode)) {
+            mode = arg as SessionMode;
+        } else {
+            return;
+        }
+    }
+
+    return { rounds, mode };
+}
+
+// Helper function to create the answer keyboard of a round
+function createBattleKeyboard(choices: string[], roundId: string) {
+    return Markup.inlineKeyboard(
+        choices.map((choice, index) => [
+            Markup.button.callback(choice, `battle:${roundId}_${index}`)
+        ])
+    );
+}
+
+// Helper function to get the messages of a battle, in the language of the player who started it
+function battleTranslator(battle: Battle): Translate {
+    return createTranslator(resolveLocale(battle.language));
+}
+
+// Helper function to format a participant's line of the scoreboard
+function formatBattleScore(t: Translate, score: BattleScore): string {
+    return t('battle.score', { player: score.tgHandle, points: score.points, correct: score.correct, answered: score.answered });
+}
+
+// Helper function to format the running scoreboard
+function formatScoreboard(t: Translate, scores: BattleScore[]): string {
+    if (scores.length === 0) {
+        return t('battle.noPoints');
+    }
+
+    return scores.map((score, index) => `${index + 1}. ${formatBattleScore(t, score)}`).join('\n');
+}
+
+// Helper function to build the message closing a round
+function formatRoundResult(battle: Battle, round: BattleRound, scores: BattleScore[], roundAnswers: { tgHandle: string, isCorrect: boolean, points: number }[]): string {
+    const t = battleTranslator(battle);
+    const question = round.questions && localizeQuestion(round.questions, resolveLocale(battle.language));
+    const lines = [
+        t('battle.roundOver', { round: round.round, rounds: battle.rounds }),
+        t('battle.answer', { answer: question?.answer ?? '?' })
+    ];
+
+    if (question?.answer_info) {
+        lines.push(`ℹ️ ${question.answer_info}`);
+    }
+
+    lines.push('');
+    if (roundAnswers.length === 0) {
+        lines.push(t('battle.nobodyAnswered'));
+    } else {
+        const correct = roundAnswers.filter((answer) => answer.isCorrect).sort((a, b) => b.points - a.points);
+        lines.push(t('battle.gotItRight', { correct: correct.length, count: roundAnswers.length }));
+        if (correct.length > 0) {
+            lines.push(t('battle.fastest', { player: correct[0].tgHandle, points: correct[0].points }));
+        }
+    }
+
+    lines.push('', t('battle.scoreboard'), formatScoreboard(t, scores));
+    return lines.join('\n');
+}
+
+// Helper function to build the final podium
+function formatPodium(battle: Battle, scores: BattleScore[]): string {
+    const t = battleTranslator(battle);
+    if (scores.length === 0) {
+        return t('battle.overEmpty');
+    }
+
+    const lines = [t('battle.over'), ''];
+    scores.forEach((score, index) => {
+        lines.push(`${MEDALS[index] || `${index + 1}.`} ${formatBattleScore(t, score)}`);
+    });
+
+    lines.push('', t('battle.thanks', { count: scores.length }));
+    return lines.join('\n');
+}
+
+export function registerBattleHandlers(bot: Telegraf<SessionContext>, { storage, clock, scheduler, adminIds }: BotDeps): void {
+    // Helper function to check the caller may run battles: bot admins and the group's admins
+    async function canHostBattle(ctx: SessionContext): Promise<boolean> {
+        if (!ctx.from) {
+            return false;
+        }
+
+        if (adminIds.includes(ctx.from.id.toString())) {
+            return true;
+        }
+
+        try {
+            const member = await ctx.getChatMember(ctx.from.id);
+            return member.status === 'creator' || member.status === 'administrator';
+        } catch (err) {
+            console.error('Error getting chat member:', err);
+            return false;
+        }
+    }
+
+    // Helper function to remove the answer keyboard of a round once it is closed
+    async function removeRoundKeyboard(battle: Battle, round: BattleRound): Promise<void> {
+        if (round.message_id === null) {
+            return;
+        }
+
+        try {
+            await bot.telegram.editMessageReplyMarkup(battle.chat_id, round.message_id, undefined, undefined);
+        } catch (err) {
+            console.error('Error removing battle keyboard:', err);
+        }
+    }
+
+    // Helper function to finish a battle and post the podium, only once
+    async function finishBattle(battle: Battle): Promise<void> {
+        if (!await storage.battles.finishBattle(battle.id, clock.now().toISOString())) {
+            return;
+        }
+
+        const scores = buildBattleScoreboard(await storage.battles.listBattleAnswers(battle.id));
+        await bot.telegram.sendMessage(battle.chat_id, formatPodium(battle, scores));
+    }
+
+    // Helper function to post the question of a round and close it when its time is up
+    async function startRound(battle: Battle, roundNumber: number): Promise<void> {
+        const current = await storage.battles.getBattle(battle.id);
+        if (!current || current.finished_date) {
+            return;
+        }
+
+        const t = battleTranslator(battle);
+        const usedIds = (await storage.battles.listRounds(battle.id)).map((round) => round.question_id);
+        // A round takes the first tap of each player, so multi-select questions are left out
+        const question = await storage.questions.getRandomQuestion({ mode: battle.mode, excludedIds: usedIds, singleAnswer: true });
+        if (!question || !question.choices) {
+            if (question === null) {
+                await bot.telegram.sendMessage(battle.chat_id, t('battle.noMoreQuestions'));
+            }
+            await finishBattle(battle);
+            return;
+        }
+
+        const round = await storage.battles.startRound({
+            battle_id: battle.id,
+            round: roundNumber,
+            question_id: question.id,
+            choice_order: shuffleChoices(question.choices.length),
+            started_date: clock.now().toISOString()
+        });
+        if (!round) {
+            await finishBattle(battle);
+            return;
+        }
+
+        const shown = localizeQuestion(question, resolveLocale(battle.language));
+        const choices = orderChoices(shown.choices!, round.choice_order);
+        const { text, parseMode } = layoutQuestion(
+            t('battle.round', { round: roundNumber, rounds: battle.rounds, seconds: battle.round_seconds }),
+            shown,
+            choices
+        );
+        await sendQuestionMedia(bot.telegram, battle.chat_id, shown);
+        const message = await bot.telegram.sendMessage(battle.chat_id, text, {
+            ...createBattleKeyboard(choiceLabels(choices), round.id),
+            parse_mode: parseMode
+        });
+        await storage.battles.setRoundMessage(round.id, message.message_id);
+
+        scheduler.schedule(() => closeRound(round.id), battle.round_seconds * 1000);
+    }
+
+    // Helper function to stop a round, post its result and move on to the next one
+    async function closeRound(roundId: string): Promise<void> {
+        if (!await storage.battles.closeRound(roundId, clock.now().toISOString())) {
+            return;
+        }
+
+        const round = await storage.battles.getRound(roundId);
+        const battle = round && await storage.battles.getBattle(round.battle_id);
+        if (!round || !battle) {
+            return;
+        }
+
+        await removeRoundKeyboard(battle, round);
+        if (battle.finished_date) {
+            return;
+        }
+
+        const answers = await storage.battles.listBattleAnswers(battle.id);
+        const roundAnswers = answers
+            .filter((answer) => answer.round_id === round.id)
+            .map((answer) => ({ tgHandle: answer.tg_handle, isCorrect: answer.is_correct, points: answer.points }));
+        await bot.telegram.sendMessage(
+            battle.chat_id,
+            formatRoundResult(battle, round, buildBattleScoreboard(answers), roundAnswers)
+        );
+
+        if (round.round >= battle.rounds) {
+            await finishBattle(battle);
+            return;
+        }
+
+        scheduler.schedule(() => startRound(battle, round.round + 1), BATTLE_BREAK_SECONDS * 1000);
+    }
+
+    // Battle command, starts a battle in a group
+    bot.command('battle', async (ctx) => {
+        if (ctx.chat.type === 'private') {
+            await ctx.reply(ctx.t('battle.groupsOnly'));
+            return;
+        }
+
+        if (!await canHostBattle(ctx)) {
+            await ctx.reply(ctx.t('battle.adminsOnlyStart'));
+            return;
+        }
+
+        const options = parseBattleOptions(ctx.payload);
+        if (!options) {
+            await ctx.reply(ctx.t('battle.usage', { max: MAX_BATTLE_ROUNDS, modes: BATTLE_MODES.join('|') }));
+            return;
+        }
+
+        const chatId = ctx.chat.id.toString();
+        if (await storage.battles.getRunningBattle(chatId)) {
+            await ctx.reply(ctx.t('battle.alreadyRunning'));
+            return;
+        }
+
+        const battle = await storage.battles.createBattle({
+            chat_id: chatId,
+            mode: options.mode,
+            rounds: options.rounds,
+            round_seconds: BATTLE_ROUND_SECONDS,
+            started_by: ctx.from.id.toString(),
+            language: ctx.locale,
+            created_date: clock.now().toISOString()
+        });
+        if (!battle) {
+            await ctx.reply(ctx.t('battle.startError'));
+            return;
+        }
+
+        await ctx.reply(ctx.t('battle.intro', {
+            mode: ctx.t(MODE_LABELS[battle.mode]),
+            count: battle.rounds,
+            seconds: battle.round_seconds
+        }));
+        await startRound(battle, 1);
+    });
+
+    // Stop battle command, ends the battle and posts the podium
+    bot.command('stopbattle', async (ctx) => {
+        const battle = await storage.battles.getRunningBattle(ctx.chat.id.toString());
+        if (!battle) {
+            await ctx.reply(ctx.t('battle.notRunning'));
+            return;
+        }
+
+        if (!await canHostBattle(ctx)) {
+            await ctx.reply(ctx.t('battle.adminsOnlyStop'));
+            return;
+        }
+
+        const rounds = await storage.battles.listRounds(battle.id);
+        for (const round of rounds.filter((candidate) => !candidate.closed_date)) {
+            await storage.battles.closeRound(round.id, clock.now().toISOString());
+            await removeRoundKeyboard(battle, round);
+        }
+
+        await finishBattle(battle);
+    });
+
+    // Handle battle answers
+    bot.action(/^battle:(.+)_(\d)$/, async (ctx) => {
+        const round = await storage.battles.getRound(ctx.match[1]);
+        const question = round?.questions;
+        if (!round || !question || round.closed_date) {
+            await ctx.answerCbQuery(ctx.t('battle.roundClosed'));
+            return;
+        }
+
+        // Only positions of the keyboard sent can be tapped, others come from crafted callback data
+        const choiceCount = question.choices?.length || 0;
+        const position = parseInt(ctx.match[2], 10);
+        if (position >= choiceCount) {
+            await ctx.answerCbQuery(ctx.t('quiz.invalidAnswer'));
+            return;
+        }
+
+        const battle = await storage.battles.getBattle(round.battle_id);
+        const now = clock.now();
+        const elapsedMs = now.getTime() - new Date(round.started_date).getTime();
+        if (!battle || battle.finished_date || elapsedMs > battle.round_seconds * 1000) {
+            await ctx.answerCbQuery(ctx.t('battle.timeUp'));
+            return;
+        }
+
+        // The buttons show the choices shuffled, the tapped position is mapped back to the stored choice
+        const answerIndex = toAnswerIndex(round.choice_order, choiceCount, position);
+        const isCorrect = answerIndex === question.answer_index;
+        const recorded = await storage.battles.recordBattleAnswer({
+            round_id: round.id,
+            battle_id: battle.id,
+            tg_id: ctx.from.id.toString(),
+            tg_handle: ctx.from.username || ctx.from.first_name,
+            answer_index: answerIndex,
+            is_correct: isCorrect,
+            points: scoreAnswer(isCorrect, elapsedMs, battle.round_seconds * 1000),
+            answered_date: now.toISOString()
+        });
+
+        if (!recorded) {
+            await ctx.answerCbQuery(ctx.t('battle.alreadyAnswered'));
+            return;
+        }
+
+        // The buttons show the battle's language, so the confirmation repeats what was tapped
+        const choice = localizeQuestion(question, resolveLocale(battle.language)).choices?.[answerIndex];
+        await ctx.answerCbQuery(ctx.t('battle.lockedIn', { choice: choice ?? position + 1 }));
+    });
+}
@@ -0,0 +1,129 @@
+import { Telegraf, Markup } from 'telegraf';
+import { BotDeps, SessionContext } from '../interfaces/bot';
+import { buildDailyRanking, DailyRanking, DailyScore, dailyDate, nextReminderDelay } from '../services/daily';
+import { isLocale, translate, Translate } from '../services/i18n';
+
+const MEDALS = ['🥇', '🥈', '🥉'];
+
+// Helper function to show a player's handle
+function formatHandle(t: Translate, tgHandle: string): string {
+    return tgHandle && tgHandle !== 'unknown' ? `@${tgHandle}` : t('leaderboard.anonymous');
+}
+
+// Helper function to format the score of an attempt
+function formatScore(t: Translate, score: DailyScore): string {
+    return t('daily.score', { correct: score.correct, answered: score.questions, points: score.points });
+}
+
+// Helper function to build the daily ranking message
+export function formatDailyRanking(t: Translate, ranking: DailyRanking): string {
+    const lines = [t('daily.rankingTitle', { day: ranking.day }), ''];
+
+    if (ranking.top.length === 0) {
+        lines.push(t('daily.rankingEmpty'));
+    }
+
+    ranking.top.forEach((score, index) => {
+        const position = MEDALS[index] || `${index + 1}.`;
+        lines.push(`${position} ${formatHandle(t, score.tgHandle)} — ${formatScore(t, score)}`);
+    });
+
+    lines.push('');
+    if (ranking.rank !== null && ranking.player) {
+        lines.push(t('leaderboard.rank', { rank: ranking.rank, ranked: ranking.ranked, score: formatScore(t, ranking.player) }));
+    } else {
+        lines.push(t('daily.notPlayed'));
+    }
+
+    return lines.join('\n');
+}
+
+// Helper function to create the reminder toggle shown below the ranking
+function createReminderKeyboard(t: Translate, reminded: boolean) {
+    return Markup.inlineKeyboard([
+        Markup.button.callback(
+            t(reminded ? 'daily.remindOff' : 'daily.remindOn'),
+            `daily:remind:${reminded ? 'off' : 'on'}`
+        )
+    ]);
+}
+
+export function registerDailyHandlers(bot: Telegraf<SessionContext>, { storage, clock, scheduler, dailyReminderHour, defaultLocale }: BotDeps): void {
+    // Helper function to send today's ranking, with the player's reminder setting
+    async function replyWithRanking(ctx: SessionContext): Promise<void> {
+        if (!ctx.from) {
+            return;
+        }
+
+        const tgId = ctx.from.id.toString();
+        const day = dailyDate(clock.now());
+        const [sessions, settings] = await Promise.all([
+            storage.sessions.listSessions({ dailyDate: day }),
+            storage.users.getSettings(tgId)
+        ]);
+
+        await ctx.reply(
+            formatDailyRanking(ctx.t, buildDailyRanking(sessions, day, tgId)),
+            createReminderKeyboard(ctx.t, !!settings?.daily_reminder)
+        );
+    }
+
+    // Daily ranking command
+    bot.command('dailyrank', async (ctx) => {
+        await replyWithRanking(ctx);
+    });
+
+    // Daily ranking button of the daily challenge report
+    bot.action('daily:ranking', async (ctx) => {
+        await ctx.answerCbQuery();
+        await replyWithRanking(ctx);
+    });
+
+    // Handle the reminder toggle
+    bot.action(/^daily:remind:(on|off)$/, async (ctx) => {
+        const reminded = ctx.match[1] === 'on';
+        await storage.users.saveSettings({ tg_id: ctx.from.id.toString(), daily_reminder: reminded });
+
+        await ctx.answerCbQuery(ctx.t(reminded ? 'daily.remindersOn' : 'daily.remindersOff', { hour: dailyReminderHour ?? '—' }));
+        try {
+            await ctx.editMessageReplyMarkup(createReminderKeyboard(ctx.t, reminded).reply_markup);
+        } catch (err) {
+            console.error('Error updating reminder button:', err);
+        }
+    });
+
+    // Helper function to remind the players who asked for it and did not play today's challenge yet
+    async function sendReminders(): Promise<void> {
+        const day = dailyDate(clock.now());
+
+        for (const settings of await storage.users.listDailyReminders()) {
+            if (await storage.sessions.getDailySession(settings.tg_id, day)) {
+                continue;
+            }
+
+            const locale = isLocale(settings.language) ? settings.language : defaultLocale;
+            try {
+                await bot.telegram.sendMessage(
+                    settings.tg_id,
+                    translate(locale, 'daily.reminder'),
+                    Markup.inlineKeyboard([Markup.button.callback(translate(locale, 'daily.play'), 'daily:play')])
+                );
+            } catch (err) {
+                // Players who blocked the bot can not be reached, the others still get theirs
+                console.error('Error sending daily reminder:', err);
+            }
+        }
+    }
+
+    // Helper function to send the reminders at the configured hour, every day
+    function scheduleReminders(hour: number): void {
+        scheduler.schedule(async () => {
+            await sendReminders();
+            scheduleReminders(hour);
+        }, nextReminderDelay(clock.now(), hour));
+    }
+
+    if (dailyReminderHour !== null) {
+        scheduleReminders(dailyReminderHour);
+    }
+}
@@ -0,0 +1,54 @@
+import { Telegraf, Markup } from 'telegraf';
+import { BotDeps, SessionContext } from '../interfaces/bot';
+import { createTranslator, isLocale, Locale, resolveLocale, SUPPORTED_LOCALES, translate } from '../services/i18n';
+
+// Helper function to switch the language of the update being handled
+function useLocale(ctx: SessionContext, locale: Locale): void {
+    ctx.locale = locale;
+    ctx.t = createTranslator(locale);
+}
+
+// Helper function to create the language picker, each language named in itself
+function createLanguageKeyboard(ctx: SessionContext) {
+    return Markup.inlineKeyboard([
+        ...SUPPORTED_LOCALES.map((locale) => [
+            Markup.button.callback(translate(locale, 'language.name'), `language:${locale}`)
+        ]),
+        [Markup.button.callback(ctx.t('language.auto'), 'language:auto')]
+    ]);
+}
+
+export function registerLanguageHandlers(bot: Telegraf<SessionContext>, { storage, defaultLocale }: BotDeps): void {
+    // Pick the language of every update: the one chosen with /language, else the Telegram one
+    bot.use(async (ctx, next) => {
+        const settings = ctx.from ? await storage.users.getSettings(ctx.from.id.toString()) : null;
+        const chosen = settings?.language;
+        useLocale(ctx, isLocale(chosen) ? chosen : resolveLocale(ctx.from?.language_code, defaultLocale));
+        return next();
+    });
+
+    // Language command
+    bot.command('language', async (ctx) => {
+        await ctx.reply(ctx.t('language.choose'), createLanguageKeyboard(ctx));
+    });
+
+    // Handle language selection, auto goes back to the Telegram language
+    bot.action(/^language:(auto|[a-z]{2})$/, async (ctx) => {
+        const choice = ctx.match[1];
+        if (choice !== 'auto' && !isLocale(choice)) {
+            await ctx.answerCbQuery();
+            return;
+        }
+
+        await storage.users.saveSettings({
+            tg_id: ctx.from.id.toString(),
+            language: choice === 'auto' ? null : choice
+        });
+
+        useLocale(ctx, choice === 'auto' ? resolveLocale(ctx.from.language_code, defaultLocale) : choice);
+        await ctx.answerCbQuery();
+        await ctx.editMessageText(ctx.t(choice === 'auto' ? 'language.setAuto' : 'language.set', {
+            language: ctx.t('language.name')
+        }));
+    });
+}
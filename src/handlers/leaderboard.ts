@@ -0,0 +1,132 @@
+import { Telegraf, Markup } from 'telegraf';
+import { BotDeps, SessionContext } from '../interfaces/bot';
+import { SessionMode } from '../interfaces/session';
+import {
+    buildLeaderboard,
+    Leaderboard,
+    LEADERBOARD_PERIODS,
+    LeaderboardPeriod,
+    MIN_LEADERBOARD_QUESTIONS,
+    periodStart
+} from '../services/leaderboard';
+import { MessageKey, Translate } from '../services/i18n';
+import { MODE_LABELS as SESSION_MODE_LABELS, SESSION_MODES } from '../services/modes';
+
+type LeaderboardMode = SessionMode | 'all';
+
+const LEADERBOARD_MODES: LeaderboardMode[] = ['all', ...SESSION_MODES];
+
+const MODE_LABELS: Record<LeaderboardMode, MessageKey> = {
+    all: 'leaderboard.all',
+    ...SESSION_MODE_LABELS
+};
+
+const PERIOD_LABELS: Record<LeaderboardPeriod, MessageKey> = {
+    week: 'leaderboard.week',
+    month: 'leaderboard.month',
+    all: 'leaderboard.allTime'
+};
+
+const MEDALS = ['🥇', '🥈', '🥉'];
+
+// Helper function to show a player's handle
+function formatHandle(t: Translate, tgHandle: string): string {
+    return tgHandle && tgHandle !== 'unknown' ? `@${tgHandle}` : t('leaderboard.anonymous');
+}
+
+// Helper function to format accuracy and volume of a player
+function formatScore(player: { accuracy: number, correct: number, questions: number }): string {
+    return `${Math.round(player.accuracy * 100)}% (${player.correct}/${player.questions})`;
+}
+
+// Helper function to build the leaderboard message
+export function formatLeaderboard(t: Translate, board: Leaderboard): string {
+    const lines = [
+        t('leaderboard.title', { mode: t(MODE_LABELS[board.mode]), period: t(PERIOD_LABELS[board.period]) }),
+        t('leaderboard.minimum', { count: MIN_LEADERBOARD_QUESTIONS }),
+        ''
+    ];
+
+    if (board.top.length === 0) {
+        lines.push(t('leaderboard.empty'));
+    }
+
+    board.top.forEach((player, index) => {
+        const position = MEDALS[index] || `${index + 1}.`;
+        lines.push(`${position} ${formatHandle(t, player.tgHandle)} — ${formatScore(player)}`);
+    });
+
+    lines.push('');
+    if (board.rank !== null && board.player) {
+        lines.push(t('leaderboard.rank', { rank: board.rank, ranked: board.ranked, score: formatScore(board.player) }));
+    } else {
+        const missing = MIN_LEADERBOARD_QUESTIONS - (board.player?.questions || 0);
+        lines.push(t('leaderboard.missing', { count: missing }));
+    }
+
+    return lines.join('\n');
+}
+
+// Helper function to create the mode and period filters, marking the selected ones
+function createLeaderboardKeyboard(t: Translate, mode: LeaderboardMode, period: LeaderboardPeriod) {
+    return Markup.inlineKeyboard([
+        LEADERBOARD_MODES.map((candidate) =>
+            Markup.button.callback(
+                `${candidate === mode ? '• ' : ''}${t(MODE_LABELS[candidate])}`,
+                `leaderboard:${candidate}:${period}`
+            )
+        ),
+        LEADERBOARD_PERIODS.map((candidate) =>
+            Markup.button.callback(
+                `${candidate === period ? '• ' : ''}${t(PERIOD_LABELS[candidate])}`,
+                `leaderboard:${mode}:${candidate}`
+            )
+        )
+    ]);
+}
+
+export function registerLeaderboardHandlers(bot: Telegraf<SessionContext>, { storage, clock }: BotDeps): void {
+    // Helper function to load the leaderboard for a mode and period
+    async function loadLeaderboard(ctx: SessionContext, mode: LeaderboardMode, period: LeaderboardPeriod): Promise<string> {
+        const sessions = await storage.sessions.listSessions({
+            mode: mode === 'all' ? undefined : mode,
+            since: periodStart(period, clock.now())
+        });
+
+        return formatLeaderboard(ctx.t, buildLeaderboard(sessions, mode, period, ctx.from?.id.toString()));
+    }
+
+    // Leaderboard command
+    bot.command('leaderboard', async (ctx) => {
+        await ctx.reply(
+            await loadLeaderboard(ctx, 'all', 'week'),
+            createLeaderboardKeyboard(ctx.t, 'all', 'week')
+        );
+    });
+
+    // Leaderboard button, sends a new message so the message holding the button is kept
+    bot.action('leaderboard', async (ctx) => {
+        await ctx.answerCbQuery();
+        await ctx.reply(
+            await loadLeaderboard(ctx, 'all', 'week'),
+            createLeaderboardKeyboard(ctx.t, 'all', 'week')
+        );
+    });
+
+    // Handle filter changes
+    bot.action(/^leaderboard:(all|mixed|dev|user|review):(week|month|all)$/, async (ctx) => {
+        const mode = ctx.match[1] as LeaderboardMode;
+        const period = ctx.match[2] as LeaderboardPeriod;
+        await ctx.answerCbQuery();
+
+        try {
+            await ctx.editMessageText(
+                await loadLeaderboard(ctx, mode, period),
+                createLeaderboardKeyboard(ctx.t, mode, period)
+            );
+        } catch (err) {
+            // Tapping the filter that is already selected leaves the message unchanged
+            console.error('Error updating leaderboard:', err);
+        }
+    });
+}
@@ -0,0 +1,1274 @@
+import { Telegraf, Markup, Context, TelegramError } from 'telegraf';
+import { BotDeps, SessionContext } from '../interfaces/bot';
+import { Question } from '../interfaces/question';
+import { Session, SessionAnswer, SessionHistoryEntry, SessionInsert, SessionMode } from '../interfaces/session';
+import { QuestionFilter } from '../interfaces/storage';
+import { formatAchievementGoal, formatAchievementName, unlockAchievements } from '../services/achievements';
+import { ChoiceOrder, orderChoices, shuffleChoices, toAnswerIndex, toPosition } from '../services/choiceOrder';
+import { buildDailyRanking, DAILY_TIME_LIMIT, dailyDate, DailyRanking, pickDailyQuestions } from '../services/daily';
+import {
+    ADAPTIVE_START_LEVEL,
+    DIFFICULTY_LEVELS,
+    isDifficulty,
+    LEVEL_DOWN_STREAK,
+    LEVEL_LABELS,
+    LEVEL_UP_STREAK,
+    nextLevel
+} from '../services/difficulty';
+import { localizeQuestion, MessageKey, Translate } from '../services/i18n';
+import { splitMessage } from '../services/messages';
+import { MODE_LABELS } from '../services/modes';
+import {
+    choiceLabels,
+    correctIndexes,
+    escapeText,
+    formatChoices,
+    isCorrectSelection,
+    isMultiSelect,
+    layoutQuestion,
+    ParseMode,
+    QuestionLayout,
+    parseModeOf,
+    sendQuestionMedia,
+    toPlainText
+} from '../services/questionContent';
+import { MODE_TAGS } from '../services/questionValidation';
+import { scheduleCard } from '../services/review';
+import { scoreAnswer, UNTIMED_WINDOW_SECONDS } from '../services/scoring';
+
+// How often the countdown on a timed question is updated
+const COUNTDOWN_STEP_SECONDS = 10;
+
+// A question served in a session, with the ID of its session_questions row
+interface ServedQuestion {
+    servedId: string;
+    servedDate: string;
+    question: Question;
+    choiceOrder: ChoiceOrder;
+    // Choices of a multi-select question ticked so far, by stored index
+    selected: number[];
+}
+
+// The options a session is started with
+type SessionSettings = Pick<SessionInsert, 'max_question' | 'time_limit' | 'level' | 'adaptive' | 'topics' | 'daily_date'> & {
+    mode: SessionMode;
+};
+
+// The message showing a timed question, without its countdown line
+interface QuestionMessage {
+    chatId: number;
+    messageId: number;
+    text: string;
+    parseMode: ParseMode | undefined;
+}
+
+// A served question the player who tapped may still answer
+interface AnswerableQuestion {
+    served: SessionHistoryEntry;
+    question: Question;
+    session: Session;
+    elapsedMs: number;
+}
+
+// Helper function to create inline keyboard from choices in the order they are shown, bound to the served
+// question row; callback data carries the position of the button, not the index of the stored choice
+function createChoicesKeyboard(choices: string[], servedId: string) {
+    return Markup.inlineKeyboard(
+        choices.map((choice, index) => [
+            Markup.button.callback(choice, `answer:${servedId}_${index}`)
+        ])
+    );
+}
+
+// Helper function to create the keyboard of a multi-select question, a toggle per choice in the order they are
+// shown, ticked for the stored choices selected so far, and the submit button
+function createSelectionKeyboard(t: Translate, labels: string[], selected: number[], choiceOrder: ChoiceOrder, servedId: string) {
+    return Markup.inlineKeyboard([
+        ...labels.map((label, position) => [
+            Markup.button.callback(
+                `${selected.includes(toAnswerIndex(choiceOrder, labels.length, position)) ? '✅' : '⬜'} ${label}`,
+                `pick:${servedId}_${position}`
+            )
+        ]),
+        [Markup.button.callback(t('quiz.submit'), `submit:${servedId}`)]
+    ]);
+}
+
+// Helper function to create the keyboard of a served question, in the player's language
+function createQuestionKeyboard(t: Translate, question: Question, choiceOrder: ChoiceOrder, servedId: string, selected: number[]) {
+    const labels = choiceLabels(orderChoices(question.choices!, choiceOrder));
+    return isMultiSelect(question)
+        ? createSelectionKeyboard(t, labels, selected, choiceOrder, servedId)
+        : createChoicesKeyboard(labels, servedId);
+}
+
+// Helper function to name the correct choices as the player saw them, with the place of their buttons
+function formatCorrectChoice(t: Translate, question: Question, choiceOrder: ChoiceOrder): string {
+    const choices = question.choices || [];
+    const correct = correctIndexes(question)
+        .filter((index) => index < choices.length)
+        .map((index) => ({ answer: choices[index], position: toPosition(choiceOrder, choices.length, index) + 1 }));
+    if (correct.length === 0) {
+        return t('quiz.correctAnswer', { answer: question.answer ?? '—' });
+    }
+
+    if (isMultiSelect(question)) {
+        return t('quiz.correctAnswers', { answers: correct.map((choice) => t('quiz.choiceOnButton', choice)).join(', ') });
+    }
+
+    return t('quiz.correctChoice', correct[0]);
+}
+
+// Helper function to tell whether Telegram refused a message for its formatting
+function isFormattingError(err: unknown): boolean {
+    return err instanceof TelegramError && err.code === 400 && /can't parse entities/i.test(err.description);
+}
+
+// Helper function to build the filter of the questions a session may serve next
+function questionFilter(session: Session, excludedIds: string[], level?: number): QuestionFilter {
+    return { mode: session.mode, excludedIds, level, topics: session.topics ?? undefined };
+}
+
+// Helper function to list topics as shown to players
+function formatTopics(topics: string[]): string {
+    return topics.map((topic) => `#${topic}`).join(', ');
+}
+
+// Helper function to check whether a session reached its question limit
+function isSessionComplete(session: Session): boolean {
+    return session.max_question !== null
+        && session.max_question > 0
+        && (session.questions || 0) >= session.max_question;
+}
+
+// Mode picker buttons, in the order they are shown
+const MODE_BUTTONS: [SessionMode, MessageKey][] = [
+    ['mixed', 'quiz.modeMixed'],
+    ['dev', 'quiz.modeDev'],
+    ['user', 'quiz.modeUser'],
+    ['review', 'quiz.modeReview']
+];
+
+// Helper function to build the end-of-quiz report
+function buildSessionReport(t: Translate, session: Session, answers: SessionAnswer[], ranking: DailyRanking | null): string {
+    const questions = session.questions || 0;
+    const correct = session.correct || 0;
+    const accuracy = questions > 0 ? Math.round((correct / questions) * 100) : 0;
+
+    const lines = [
+        t('quiz.report', { answered: questions, correct, accuracy, points: session.points })
+    ];
+    if (session.level !== null) {
+        lines.push(t(session.adaptive ? 'quiz.reportLevelReached' : 'quiz.reportLevel', { level: t(LEVEL_LABELS[session.level]) }));
+    }
+    if (ranking?.rank) {
+        lines.push(t('daily.reportRank', { rank: ranking.rank, ranked: ranking.ranked }));
+    }
+
+    answers.forEach((answer, index) => {
+        lines.push(
+            '',
+            `${answer.isCorrect ? '✅' : '❌'} ${index + 1}. ${answer.question}`,
+            t('quiz.yourAnswer', { answer: answer.givenAnswer ?? t('quiz.noAnswerInTime') }),
+            t('quiz.correctAnswer', { answer: answer.correctAnswer ?? '—' })
+        );
+        if (!answer.isCorrect && answer.answerInfo) {
+            lines.push(t('quiz.explanation', { explanation: answer.answerInfo }));
+        }
+    });
+
+    return lines.join('\n');
+}
+
+// Helper function to describe a quiz length
+function formatQuizLength(t: Translate, maxQuestion: number | null): string {
+    return maxQuestion ? t('quiz.length', { count: maxQuestion }) : t('quiz.unlimited');
+}
+
+// Helper function to describe a time limit, as appended to the quiz length
+function formatTimeLimit(t: Translate, timeLimit: number | null): string {
+    return timeLimit ? t('quiz.perQuestion', { seconds: timeLimit }) : '';
+}
+
+// Keyboard markup for main menu
+const mainMenuKeyboard = Markup.keyboard([
+    ['🚀 Start', '⏭️ Next', '🏁 Finish']
+]).resize();
+
+// Helper function to create the mode picker
+const createModeKeyboard = (t: Translate) => {
+    return Markup.inlineKeyboard(
+        MODE_BUTTONS.map(([mode, label]) => [Markup.button.callback(t(label), `mode:${mode}`)])
+    );
+};
+
+// Helper function to create the quiz length picker for a mode
+const createLengthKeyboard = (t: Translate, mode: SessionMode, lengths: number[]) => {
+    return Markup.inlineKeyboard([
+        lengths.map((length) =>
+            Markup.button.callback(length ? `${length}` : t('quiz.unlimitedButton'), `length:${mode}:${length}`)
+        )
+    ]);
+};
+
+// Helper function to create the time limit picker, once mode and length are chosen
+const createTimerKeyboard = (t: Translate, mode: SessionMode, length: number, timeLimits: number[]) => {
+    return Markup.inlineKeyboard([
+        timeLimits.map((seconds) =>
+            Markup.button.callback(
+                seconds ? t('quiz.timerButton', { seconds }) : t('quiz.noLimitButton'),
+                `timer:${mode}:${length}:${seconds}`
+            )
+        )
+    ]);
+};
+
+// Helper function to create the topic picker, one toggle per topic and the start button. Toggles carry the
+// index of their topic in the sorted list, a tag may be longer than Telegram's 64 bytes of callback data
+const createTopicsKeyboard = (t: Translate, topics: string[], selected: string[]) => {
+    const toggles = topics.map((topic, index) =>
+        Markup.button.callback(`${selected.includes(topic) ? '✅ ' : ''}#${topic}`, `topic:${index}`)
+    );
+    const rows = [];
+    for (let index = 0; index < toggles.length; index += 2) {
+        rows.push(toggles.slice(index, index + 2));
+    }
+    rows.push([
+        Markup.button.callback(t('quiz.topicsStart'), 'topics:start'),
+        Markup.button.callback(t('quiz.topicsClear'), 'topics:clear')
+    ]);
+    return Markup.inlineKeyboard(rows);
+};
+
+// Helper function to create the difficulty picker, once mode, length and time limit are chosen
+const createLevelKeyboard = (t: Translate, mode: SessionMode, length: number, seconds: number) => {
+    const choice = `level:${mode}:${length}:${seconds}`;
+    return Markup.inlineKeyboard([
+        DIFFICULTY_LEVELS.map((level) => Markup.button.callback(t(LEVEL_LABELS[level]), `${choice}:${level}`)),
+        [Markup.button.callback(t('level.adaptive'), `${choice}:adaptive`)]
+    ]);
+};
+
+export function registerQuizHandlers(bot: Telegraf<SessionContext>, { storage, clock, scheduler, defaultQuizLength, quizLengths, timeLimits }: BotDeps): void {
+    // Helper function to create a new session
+    async function createSession(ctx: Context, settings: SessionSettings): Promise<string | null> {
+        if (!ctx.from) {
+            return null;
+        }
+
+        return storage.sessions.createSession({
+            tg_id: ctx.from.id.toString(),
+            tg_handle: ctx.from.username || 'unknown',
+            created_date: clock.now().toISOString(),
+            questions: 0,
+            correct: 0,
+            time_limit: null,
+            level: null,
+            adaptive: false,
+            topics: null,
+            daily_date: null,
+            ...settings
+        });
+    }
+
+    // Helper function to get the player's active session, the one in the chat state or else their latest one
+    async function getCurrentSession(ctx: SessionContext): Promise<Session | null> {
+        const sessionId = ctx.session?.sessionId;
+        const remembered = sessionId ? await storage.sessions.getSession(sessionId) : null;
+        if (remembered && remembered.status === 'active') {
+            return remembered;
+        }
+
+        const open = ctx.from ? await storage.sessions.getOpenSession(ctx.from.id.toString()) : null;
+        if (open || sessionId) {
+            ctx.session = { ...ctx.session, sessionId: open?.id, servedId: undefined };
+        }
+
+        return open;
+    }
+
+    // Helper function to get the current session, starting a mixed one if there is none
+    async function getOrCreateSession(ctx: SessionContext): Promise<Session | null> {
+        const current = await getCurrentSession(ctx);
+        if (current) {
+            return current;
+        }
+
+        const sessionId = await createSession(ctx, { mode: 'mixed', max_question: defaultQuizLength });
+        if (!sessionId) {
+            return null;
+        }
+
+        ctx.session = { ...ctx.session, sessionId };
+        return storage.sessions.getSession(sessionId);
+    }
+    // Helper function to finish a session and send the report
+    async function replyWithSessionReport(ctx: SessionContext, session: Session): Promise<void> {
+        await storage.sessions.finishSession(session.id, clock.now().toISOString());
+
+        const history = await storage.sessions.getSessionHistory(session.id);
+        const answers: SessionAnswer[] = history
+            .filter((entry) => entry.answered_date && entry.questions)
+            .map((entry) => {
+                const question = localizeQuestion(entry.questions!, ctx.locale);
+                const multiSelect = isMultiSelect(question);
+                return {
+                    questionId: entry.question_id,
+                    question: toPlainText(question.question, parseModeOf(question)),
+                    givenAnswer: multiSelect
+                        ? formatChoices(question.choices, entry.answer_indexes)
+                        : question.choices?.[entry.answer_index ?? -1] ?? null,
+                    correctAnswer: multiSelect ? formatChoices(question.choices, correctIndexes(question)) : question.answer,
+                    answerInfo: question.answer_info,
+                    isCorrect: !!entry.is_correct
+                };
+            });
+
+        // Daily challenge players see where they stand among today's players
+        const ranking = session.daily_date && session.tg_id
+            ? buildDailyRanking(await storage.sessions.listSessions({ dailyDate: session.daily_date }), session.daily_date, session.tg_id)
+            : null;
+        const parts = splitMessage(buildSessionReport(ctx.t, session, answers, ranking));
+
+        for (const [index, part] of parts.entries()) {
+            if (index < parts.length - 1) {
+                await ctx.reply(part);
+                continue;
+            }
+            await ctx.reply(
+                part,
+                Markup.inlineKeyboard([
+                    [
+                        Markup.button.callback(ctx.t('quiz.startAgain'), 'start_command'),
+                        ranking
+                            ? Markup.button.callback(ctx.t('daily.rankingButton'), 'daily:ranking')
+                            : Markup.button.callback(ctx.t('quiz.leaderboard'), 'leaderboard')
+                    ]
+                ])
+            );
+        }
+
+        if (ctx.session?.sessionId === session.id) {
+            ctx.session = { ...ctx.session, sessionId: undefined, servedId: undefined };
+        }
+    }
+
+    // Helper function to finish the current session on user request
+    async function finishCurrentSession(ctx: SessionContext, notFoundMessage: MessageKey): Promise<void> {
+        const session = await getCurrentSession(ctx);
+        if (!session) {
+            await ctx.reply(ctx.t(notFoundMessage));
+            return;
+        }
+
+        await replyWithSessionReport(ctx, session);
+    }
+
+    // Helper function to serve the next question of the current session
+    async function sendNextQuestion(ctx: SessionContext): Promise<void> {
+        const session = await getOrCreateSession(ctx);
+        if (!session) {
+            await ctx.reply(ctx.t('quiz.startFirst'));
+            return;
+        }
+
+        if (isSessionComplete(session)) {
+            await replyWithSessionReport(ctx, session);
+            return;
+        }
+
+        // Re-send the question still waiting for an answer, or serve a new one
+        const pending = await getPendingQuestion(ctx, session);
+        let served: ServedQuestion | null | undefined = pending?.questions
+            ? {
+                servedId: pending.id,
+                servedDate: pending.served_date,
+                question: pending.questions,
+                choiceOrder: pending.choice_order,
+                selected: pending.answer_indexes || []
+            }
+            : undefined;
+        if (!served) {
+            served = await serveNewQuestion(session);
+            if (served === null) {
+                await ctx.reply(formatNothingLeft(ctx, session));
+                await replyWithSessionReport(ctx, session);
+                return;
+            }
+            if (!served || !served.question.choices) {
+                await ctx.reply(ctx.t('quiz.fetchError'));
+                return;
+            }
+        }
+
+        const stats = ctx.t('quiz.progress', {
+            number: (session.questions || 0) + 1,
+            total: session.max_question ? `/${session.max_question}` : '',
+            correct: session.correct || 0,
+            answered: session.questions || 0
+        });
+
+        await sendQuestion(ctx, session, served, stats);
+    }
+
+    // Helper function to get the question waiting for an answer, as remembered in the chat state first
+    async function getPendingQuestion(ctx: SessionContext, session: Session): Promise<SessionHistoryEntry | null> {
+        const servedId = ctx.session?.servedId;
+        const served = servedId ? await storage.sessions.getServedQuestion(servedId) : null;
+        if (served && served.session_id === session.id && !served.answered_date) {
+            return served;
+        }
+
+        return storage.sessions.getPendingQuestion(session.id);
+    }
+
+    // Helper function to tell the player the session ran out of questions
+    function formatNothingLeft(ctx: SessionContext, session: Session): string {
+        if (session.mode === 'review') {
+            return ctx.t('quiz.reviewDone');
+        }
+
+        if (session.topics) {
+            return ctx.t('quiz.allAnsweredTopics', { topics: formatTopics(session.topics) });
+        }
+
+        return session.level !== null && !session.adaptive
+            ? ctx.t('quiz.allAnsweredLevel', { level: ctx.t(LEVEL_LABELS[session.level]) })
+            : ctx.t('quiz.allAnswered');
+    }
+
+    // Helper function to pick a question not asked yet in the session and record it as served,
+    // null when the session went through every matching question
+    async function serveNewQuestion(session: Session): Promise<ServedQuestion | null | undefined> {
+        const history = await storage.sessions.getSessionHistory(session.id);
+        const excludedIds = history.map((entry) => entry.question_id);
+
+        // Daily sessions go through the day's set in order, review sessions draw from the player's due cards
+        // instead of the whole question bank
+        let question: Question | null | undefined;
+        if (session.daily_date) {
+            const challenge = await storage.daily.getChallenge(session.daily_date);
+            const nextId = challenge?.question_ids.find((questionId) => !excludedIds.includes(questionId));
+            question = nextId ? await storage.questions.getQuestionById(nextId) ?? null : null;
+        } else if (session.mode === 'review') {
+            question = await storage.reviews.getDueQuestion(session.tg_id || '', clock.now().toISOString(), excludedIds);
+        } else {
+            question = await storage.questions.getRandomQuestion(questionFilter(session, excludedIds, session.level ?? undefined));
+        }
+
+        // Adaptive sessions keep going with any level once their level runs out
+        if (question === null && session.adaptive) {
+            question = await storage.questions.getRandomQuestion(questionFilter(session, excludedIds));
+        }
+        if (!question) {
+            return question;
+        }
+
+        // Choices are shuffled on every serving, so players can not learn the answers by their place
+        const servedDate = clock.now().toISOString();
+        const choiceOrder = shuffleChoices(question.choices?.length || 0);
+        const servedId = await storage.sessions.recordServedQuestion(session.id, question.id, servedDate, choiceOrder);
+        if (!servedId) {
+            return;
+        }
+
+        return { servedId, servedDate, question, choiceOrder, selected: [] };
+    }
+
+    // Helper function to take the answer buttons off the message that was tapped
+    async function removeAnswerKeyboard(ctx: SessionContext): Promise<void> {
+        try {
+            await ctx.editMessageReplyMarkup(undefined);
+        } catch (err) {
+            console.error('Error removing answer keyboard:', err);
+        }
+    }
+
+    // Helper function to send a question below a header, in the player's language, after its media
+    // and with a countdown when the session has a time limit
+    async function sendQuestion(ctx: SessionContext, session: Session, served: ServedQuestion, header: string): Promise<void> {
+        const question = localizeQuestion(served.question, ctx.locale);
+        const keyboard = createQuestionKeyboard(ctx.t, question, served.choiceOrder, served.servedId, served.selected);
+        // Helper function to lay out the question, as plain text when its formatting was refused
+        const layout = (plain: boolean): QuestionLayout => layoutQuestion(
+            header,
+            plain ? { ...question, question: toPlainText(question.question, parseModeOf(question)), parse_mode: null } : question,
+            orderChoices(question.choices!, served.choiceOrder),
+            isMultiSelect(question) ? ctx.t('quiz.multiSelectHint') : undefined
+        );
+        ctx.session = { ...ctx.session, servedId: served.servedId };
+        if (!session.time_limit) {
+            await sendQuestionMedia(ctx.telegram, ctx.chat!.id, question);
+            await replyWithQuestion(ctx, layout, keyboard);
+            return;
+        }
+
+        // A question sent again keeps the deadline it was first served with
+        const deadline = new Date(served.servedDate).getTime() + session.time_limit * 1000;
+        const remaining = Math.ceil((deadline - clock.now().getTime()) / 1000);
+        if (remaining <= 0) {
+            await expireQuestion(ctx, served.servedId);
+            return;
+        }
+
+        await sendQuestionMedia(ctx.telegram, ctx.chat!.id, question);
+        const [message, { text, parseMode }] = await replyWithQuestion(ctx, layout, keyboard, ctx.t('quiz.countdown', { seconds: remaining }));
+        scheduleCountdown(ctx, served.servedId, { chatId: message.chat.id, messageId: message.message_id, text, parseMode }, deadline);
+    }
+
+    // Helper function to send a question with its formatting, and again as plain text when Telegram refuses it,
+    // so a broken question can still be answered instead of failing on every /next
+    async function replyWithQuestion(
+        ctx: SessionContext,
+        layout: (plain: boolean) => QuestionLayout,
+        keyboard: ReturnType<typeof createQuestionKeyboard>,
+        countdown?: string
+    ) {
+        const send = async (sent: QuestionLayout) => {
+            const text = countdown ? `${sent.text}\n\n${escapeText(countdown, sent.parseMode)}` : sent.text;
+            return [await ctx.reply(text, { ...keyboard, parse_mode: sent.parseMode }), sent] as const;
+        };
+
+        const formatted = layout(false);
+        if (formatted.parseMode) {
+            try {
+                return await send(formatted);
+            } catch (err) {
+                if (!isFormattingError(err)) {
+                    throw err;
+                }
+                console.error('Error sending formatted question, sending it as plain text:', err);
+            }
+        }
+
+        return send(layout(true));
+    }
+
+    // Helper function to update the countdown of a timed question until it is answered or time runs out
+    function scheduleCountdown(ctx: SessionContext, servedId: string, message: QuestionMessage, deadline: number): void {
+        const stepMs = COUNTDOWN_STEP_SECONDS * 1000;
+        const remainingMs = deadline - clock.now().getTime();
+
+        scheduler.schedule(async () => {
+            const served = await storage.sessions.getServedQuestion(servedId);
+            if (!served || !served.questions?.choices || served.answered_date) {
+                return;
+            }
+
+            const remaining = Math.ceil((deadline - clock.now().getTime()) / 1000);
+            if (remaining <= 0) {
+                await expireQuestion(ctx, servedId, message);
+                return;
+            }
+
+            try {
+                await ctx.telegram.editMessageText(
+                    message.chatId,
+                    message.messageId,
+                    undefined,
+                    `${message.text}\n\n${escapeText(ctx.t('quiz.countdown', { seconds: remaining }), message.parseMode)}`,
+                    {
+                        ...createQuestionKeyboard(
+                            ctx.t,
+                            localizeQuestion(served.questions, ctx.locale),
+                            served.choice_order,
+                            servedId,
+                            served.answer_indexes || []
+                        ),
+                        parse_mode: message.parseMode
+                    }
+                );
+            } catch (err) {
+                console.error('Error updating countdown:', err);
+            }
+            scheduleCountdown(ctx, servedId, message, deadline);
+        }, remainingMs % stepMs || stepMs);
+    }
+
+    // Helper function to score a question whose time ran out as a miss and disable its keyboard
+    async function expireQuestion(ctx: SessionContext, servedId: string, message?: QuestionMessage): Promise<void> {
+        const served = await storage.sessions.getServedQuestion(servedId);
+        const question = served?.questions && localizeQuestion(served.questions, ctx.locale);
+        const session = served && await storage.sessions.getSession(served.session_id);
+        if (!served || !question || !session || served.answered_date || session.status !== 'active') {
+            return;
+        }
+
+        if (!(await storage.sessions.recordAnswer(servedId, null, false, clock.now().toISOString()))) {
+            return;
+        }
+
+        await storage.sessions.updateSessionScore(session.id, false, 0);
+        await updateReviewCard(session, question.id, false);
+
+        if (message) {
+            try {
+                await ctx.telegram.editMessageText(
+                    message.chatId,
+                    message.messageId,
+                    undefined,
+                    `${message.text}\n\n${escapeText(ctx.t('quiz.timeUp'), message.parseMode)}`,
+                    { parse_mode: message.parseMode }
+                );
+            } catch (err) {
+                console.error('Error disabling expired question:', err);
+            }
+        }
+
+        const updatedSession = await storage.sessions.getSession(session.id);
+        if (!updatedSession) {
+            return;
+        }
+
+        const messageParts = [
+            ctx.t('quiz.timeUp'),
+            '',
+            ctx.t('quiz.question', { question: toPlainText(question.question, parseModeOf(question)) }),
+            formatCorrectChoice(ctx.t, question, served.choice_order)
+        ];
+        if (question.answer_info) {
+            messageParts.push('', ctx.t('quiz.explanation', { explanation: question.answer_info }));
+        }
+
+        await replyWithFeedback(ctx, updatedSession, servedId, messageParts);
+    }
+
+    // Helper function to move the player's review card for a question after an answer
+    async function updateReviewCard(session: Session, questionId: string, isCorrect: boolean): Promise<void> {
+        // Misses in any mode go to the player's review cards, review answers move them between boxes
+        const card = scheduleCard(
+            await storage.reviews.getCard(session.tg_id!, questionId),
+            session.tg_id!,
+            questionId,
+            isCorrect,
+            clock.now()
+        );
+        if (card) {
+            await storage.reviews.saveCard(card);
+        }
+    }
+
+    // Helper function to move an adaptive session's level after an answer, returns the line announcing a change
+    async function adaptLevel(ctx: SessionContext, session: Session): Promise<string | undefined> {
+        if (!session.adaptive || session.level === null) {
+            return;
+        }
+
+        const results = (await storage.sessions.getSessionHistory(session.id))
+            .filter((entry) => entry.answered_date)
+            .map((entry) => !!entry.is_correct);
+        const level = nextLevel(session.level, results);
+        if (level === session.level) {
+            return;
+        }
+
+        await storage.sessions.updateSessionLevel(session.id, level);
+        const announcement = ctx.t(level > session.level ? 'quiz.levelUp' : 'quiz.levelDown', { level: ctx.t(LEVEL_LABELS[level]) });
+        session.level = level;
+        return announcement;
+    }
+
+    // Helper function to congratulate the player on the achievements their last answer unlocked
+    async function announceAchievements(ctx: SessionContext, session: Session): Promise<void> {
+        if (!session.tg_id) {
+            return;
+        }
+
+        for (const badge of await unlockAchievements(storage, session.tg_id, clock.now())) {
+            await ctx.reply(ctx.t('achievement.unlocked', {
+                name: formatAchievementName(ctx.t, badge),
+                goal: formatAchievementGoal(ctx.t, badge)
+            }));
+        }
+    }
+
+    // Helper function to send the result of a question with the score, then the next steps or the report
+    async function replyWithFeedback(ctx: SessionContext, session: Session, servedId: string, messageParts: string[]): Promise<void> {
+        const levelChange = await adaptLevel(ctx, session);
+        if (levelChange) {
+            messageParts.push('', levelChange);
+        }
+
+        messageParts.push(
+            '',
+            ctx.t('quiz.score', { correct: session.correct || 0, answered: session.questions || 0 }),
+            ctx.t('quiz.points', { points: session.points })
+        );
+
+        const reportButton = [Markup.button.callback(ctx.t('report.button'), `report:${servedId}`)];
+
+        if (isSessionComplete(session)) {
+            await ctx.reply(messageParts.join('\n'), Markup.inlineKeyboard([reportButton]));
+            await announceAchievements(ctx, session);
+            await replyWithSessionReport(ctx, session);
+            return;
+        }
+
+        await ctx.reply(
+            messageParts.join('\n'),
+            Markup.inlineKeyboard([
+                [
+                    Markup.button.callback(ctx.t('quiz.nextQuestion'), 'next_command'),
+                    Markup.button.callback(ctx.t('quiz.finish'), 'finish_command')
+                ],
+                reportButton
+            ])
+        );
+        await announceAchievements(ctx, session);
+    }
+
+    // Helper function to offer to resume an unfinished session, or else to pick the mode of a new one
+    async function replyWithStart(ctx: SessionContext): Promise<void> {
+        const open = await getCurrentSession(ctx);
+        if (open) {
+            await ctx.reply(
+                ctx.t('quiz.resumeOffer', {
+                    mode: ctx.t(MODE_LABELS[open.mode]),
+                    answered: open.questions || 0,
+                    total: open.max_question ? `/${open.max_question}` : '',
+                    correct: open.correct || 0
+                }),
+                Markup.inlineKeyboard([
+                    [
+                        Markup.button.callback(ctx.t('quiz.resume'), 'session:resume'),
+                        Markup.button.callback(ctx.t('quiz.startOver'), 'session:abandon')
+                    ]
+                ])
+            );
+            return;
+        }
+
+        await ctx.reply(ctx.t('quiz.welcome'), createModeKeyboard(ctx.t));
+    }
+
+    // Start command, offers to resume an unfinished session before picking a new mode
+    bot.command('start', async (ctx) => {
+        await replyWithStart(ctx);
+    });
+
+    // Handle resume button, sends the question waiting for an answer or the next one
+    bot.action('session:resume', async (ctx) => {
+        await ctx.answerCbQuery();
+        await removeAnswerKeyboard(ctx);
+        await sendNextQuestion(ctx);
+    });
+
+    // Handle start over button, abandons the open session and shows the mode picker
+    bot.action('session:abandon', async (ctx) => {
+        const open = await getCurrentSession(ctx);
+        if (open) {
+            await storage.sessions.abandonSession(open.id, clock.now().toISOString());
+            ctx.session = { ...ctx.session, sessionId: undefined, servedId: undefined };
+        }
+
+        await ctx.answerCbQuery(open ? ctx.t('quiz.abandoned') : undefined);
+        await ctx.editMessageText(ctx.t('quiz.welcome'), createModeKeyboard(ctx.t));
+    });
+
+    // Helper function to get a served question the player who tapped may still answer, answering the tap
+    // and taking the keyboard off when they may not
+    async function getAnswerableQuestion(ctx: SessionContext, servedId: string): Promise<AnswerableQuestion | null> {
+        const served = await storage.sessions.getServedQuestion(servedId);
+        const question = served?.questions && localizeQuestion(served.questions, ctx.locale);
+        if (!served || !question || !question.choices) {
+            await ctx.answerCbQuery(ctx.t('quiz.unavailable'));
+            await removeAnswerKeyboard(ctx);
+            return null;
+        }
+
+        // The served question must belong to a session of the player who tapped
+        const session = await storage.sessions.getSession(served.session_id);
+        if (!session || session.tg_id !== ctx.from?.id.toString()) {
+            await ctx.answerCbQuery(ctx.t('quiz.notYours'));
+            return null;
+        }
+
+        if (served.answered_date) {
+            await ctx.answerCbQuery(ctx.t('quiz.alreadyAnswered'));
+            await removeAnswerKeyboard(ctx);
+            return null;
+        }
+
+        if (session.status !== 'active' || isSessionComplete(session)) {
+            await ctx.answerCbQuery(ctx.t('quiz.sessionFinished'));
+            await removeAnswerKeyboard(ctx);
+            return null;
+        }
+
+        // Taps after the time limit count as a timeout, even when the timer was lost to a restart
+        const elapsedMs = clock.now().getTime() - new Date(served.served_date).getTime();
+        if (session.time_limit && elapsedMs > session.time_limit * 1000) {
+            await ctx.answerCbQuery(ctx.t('quiz.timeUp'));
+            await removeAnswerKeyboard(ctx);
+            await expireQuestion(ctx, servedId);
+            return null;
+        }
+
+        return { served, question, session, elapsedMs };
+    }
+
+    // Helper function to score and record the player's answer, then send the feedback
+    async function answerQuestion(
+        ctx: SessionContext,
+        { served, question, session, elapsedMs }: AnswerableQuestion,
+        answer: number | number[],
+        isCorrect: boolean,
+        givenAnswer: string
+    ): Promise<void> {
+        const points = scoreAnswer(isCorrect, elapsedMs, (session.time_limit || UNTIMED_WINDOW_SECONDS) * 1000);
+
+        // Recording is conditional on the row being unanswered, so concurrent taps score once
+        if (!(await storage.sessions.recordAnswer(served.id, answer, isCorrect, clock.now().toISOString()))) {
+            await ctx.answerCbQuery(ctx.t('quiz.alreadyAnswered'));
+            await removeAnswerKeyboard(ctx);
+            return;
+        }
+
+        await storage.sessions.updateSessionScore(session.id, isCorrect, points);
+        if (ctx.session?.servedId === served.id) {
+            ctx.session = { ...ctx.session, servedId: undefined };
+        }
+        await updateReviewCard(session, question.id, isCorrect);
+        await removeAnswerKeyboard(ctx);
+
+        // Get updated session data
+        const updatedSession = await storage.sessions.getSession(session.id);
+        if (!updatedSession) {
+            await ctx.reply(ctx.t('quiz.sessionError'));
+            return;
+        }
+
+        // Send immediate feedback
+        await ctx.answerCbQuery(ctx.t(isCorrect ? 'quiz.correct' : 'quiz.wrong'));
+
+        // Build feedback message
+        const messageParts = [
+            isCorrect ? ctx.t('quiz.correctPoints', { count: points }) : ctx.t('quiz.wrong'),
+            '',
+            ctx.t('quiz.question', { question: toPlainText(question.question, parseModeOf(question)) }),
+            Array.isArray(answer)
+                ? ctx.t('quiz.yourAnswers', { answers: givenAnswer })
+                : ctx.t('quiz.yourAnswer', { answer: givenAnswer }),
+            formatCorrectChoice(ctx.t, question, served.choice_order)
+        ];
+
+        if (question.answer_info) {
+            messageParts.push('', ctx.t('quiz.explanation', { explanation: question.answer_info }));
+        }
+
+        await replyWithFeedback(ctx, updatedSession, served.id, messageParts);
+    }
+
+    // Handle answer callbacks, the callback data carries the served question row ID and the position tapped
+    bot.action(/^answer:(.+)_(\d)$/, async (ctx) => {
+        const answerable = await getAnswerableQuestion(ctx, ctx.match[1]);
+        if (!answerable) {
+            return;
+        }
+
+        const { served, question } = answerable;
+        const choices = question.choices!;
+        const position = parseInt(ctx.match[2]);
+        if (position >= choices.length || isMultiSelect(question)) {
+            await ctx.answerCbQuery(ctx.t('quiz.invalidAnswer'));
+            return;
+        }
+
+        // Scored and recorded against the stored choice shown at that position
+        const givenAnswerIndex = toAnswerIndex(served.choice_order, choices.length, position);
+        await answerQuestion(ctx, answerable, givenAnswerIndex, givenAnswerIndex === question.answer_index, choices[givenAnswerIndex]);
+    });
+
+    // Handle the toggles of a multi-select question, the selection is saved with the served question row
+    bot.action(/^pick:(.+)_(\d)$/, async (ctx) => {
+        const answerable = await getAnswerableQuestion(ctx, ctx.match[1]);
+        if (!answerable) {
+            return;
+        }
+
+        const { served, question } = answerable;
+        const choices = question.choices!;
+        const position = parseInt(ctx.match[2]);
+        if (position >= choices.length || !isMultiSelect(question)) {
+            await ctx.answerCbQuery(ctx.t('quiz.invalidAnswer'));
+            return;
+        }
+
+        const answerIndex = toAnswerIndex(served.choice_order, choices.length, position);
+        const selected = served.answer_indexes || [];
+        const updated = selected.includes(answerIndex)
+            ? selected.filter((index) => index !== answerIndex)
+            : [...selected, answerIndex].sort((a, b) => a - b);
+        if (!(await storage.sessions.saveSelection(served.id, updated))) {
+            await ctx.answerCbQuery(ctx.t('quiz.alreadyAnswered'));
+            await removeAnswerKeyboard(ctx);
+            return;
+        }
+
+        await ctx.answerCbQuery();
+        try {
+            await ctx.editMessageReplyMarkup(
+                createQuestionKeyboard(ctx.t, question, served.choice_order, served.id, updated).reply_markup
+            );
+        } catch (err) {
+            console.error('Error updating selection:', err);
+        }
+    });
+
+    // Handle the submit button of a multi-select question, only the exact set of correct choices scores
+    bot.action(/^submit:(.+)$/, async (ctx) => {
+        const answerable = await getAnswerableQuestion(ctx, ctx.match[1]);
+        if (!answerable) {
+            return;
+        }
+
+        const { served, question } = answerable;
+        if (!isMultiSelect(question)) {
+            await ctx.answerCbQuery(ctx.t('quiz.invalidAnswer'));
+            return;
+        }
+
+        const selected = (served.answer_indexes || []).filter((index) => index < question.choices!.length);
+        if (selected.length === 0) {
+            await ctx.answerCbQuery(ctx.t('quiz.selectFirst'));
+            return;
+        }
+
+        await answerQuestion(ctx, answerable, selected, isCorrectSelection(question, selected), formatChoices(question.choices, selected)!);
+    });
+
+    // Next command
+    bot.command('next', async (ctx) => {
+        await sendNextQuestion(ctx);
+    });
+
+    // Finish command
+    bot.command('finish', async (ctx) => {
+        await finishCurrentSession(ctx, 'quiz.noSession');
+    });
+
+    // Handle keyboard button clicks
+    bot.hears('🚀 Start', async (ctx) => {
+        await replyWithStart(ctx);
+    });
+
+    bot.hears('⏭️ Next', async (ctx) => {
+        await sendNextQuestion(ctx);
+    });
+
+    bot.hears('🏁 Finish', async (ctx) => {
+        await finishCurrentSession(ctx, 'quiz.noSessionShort');
+    });
+
+    // Handle inline button callbacks
+    bot.action('start_command', async (ctx) => {
+        await ctx.answerCbQuery();
+        await replyWithStart(ctx);
+    });
+
+    bot.action('next_command', async (ctx) => {
+        await ctx.answerCbQuery();
+        await sendNextQuestion(ctx);
+    });
+
+    // Helper function to list the topics players can pick, the tags of the active questions but the mode ones
+    async function listTopics(): Promise<string[]> {
+        return (await storage.questions.listTags()).filter((tag) => !MODE_TAGS.includes(tag));
+    }
+
+    // Helper function to show the topic picker with the selection and the number of matching questions
+    async function topicsPicker(ctx: SessionContext, topics: string[]): Promise<[string, ReturnType<typeof createTopicsKeyboard>]> {
+        const selected = ctx.session?.topics || [];
+        const lines = [ctx.t('quiz.topicsChoose')];
+        if (selected.length === 0) {
+            lines.push('', ctx.t('quiz.topicsNoneSelected'));
+        } else {
+            const count = await storage.questions.countQuestions({ mode: 'mixed', topics: selected });
+            lines.push('', ctx.t('quiz.topicsLine', { topics: formatTopics(selected) }), ctx.t('quiz.topicsCount', { count }));
+        }
+
+        return [lines.join('\n'), createTopicsKeyboard(ctx.t, topics, selected)];
+    }
+
+    // Topics command, picks the tags of a mixed quiz
+    bot.command('topics', async (ctx) => {
+        const topics = await listTopics();
+        if (topics.length === 0) {
+            await ctx.reply(ctx.t('quiz.topicsEmpty'));
+            return;
+        }
+
+        // Topics that are no longer in use drop out of the selection
+        const selected = (ctx.session?.topics || []).filter((topic) => topics.includes(topic));
+        ctx.session = { ...ctx.session, topics: selected };
+        await ctx.reply(...await topicsPicker(ctx, topics));
+    });
+
+    // Handle a topic toggle in the picker
+    bot.action(/^topic:(\d+)$/, async (ctx) => {
+        const topics = await listTopics();
+        const topic = topics[parseInt(ctx.match[1], 10)];
+        if (!topic) {
+            await ctx.answerCbQuery(ctx.t('quiz.topicUnavailable'));
+            return;
+        }
+
+        const selected = ctx.session?.topics || [];
+        ctx.session = {
+            ...ctx.session,
+            topics: selected.includes(topic)
+                ? selected.filter((picked) => picked !== topic)
+                : [...selected, topic].sort()
+        };
+        await ctx.answerCbQuery();
+        await ctx.editMessageText(...await topicsPicker(ctx, topics));
+    });
+
+    // Handle the clear button of the topic picker
+    bot.action('topics:clear', async (ctx) => {
+        ctx.session = { ...ctx.session, topics: [] };
+        await ctx.answerCbQuery();
+        await ctx.editMessageText(...await topicsPicker(ctx, await listTopics()));
+    });
+
+    // Handle the start button of the topic picker, then ask for the quiz length of a mixed session
+    bot.action('topics:start', async (ctx) => {
+        const selected = ctx.session?.topics || [];
+        const count = selected.length > 0
+            ? await storage.questions.countQuestions({ mode: 'mixed', topics: selected })
+            : 0;
+        if (count === 0) {
+            await ctx.answerCbQuery(ctx.t(selected.length > 0 ? 'quiz.topicsNoQuestions' : 'quiz.topicsPickFirst'));
+            return;
+        }
+
+        await ctx.answerCbQuery();
+        await ctx.editMessageText(
+            ctx.t('quiz.askLengthTopics', { topics: formatTopics(selected), count }),
+            createLengthKeyboard(ctx.t, 'mixed', quizLengths)
+        );
+    });
+
+    // Handle mode selection, then ask for the quiz length
+    bot.action(/^mode:(mixed|dev|user|review)$/, async (ctx) => {
+        const mode = ctx.match[1] as SessionMode;
+        await ctx.answerCbQuery();
+
+        // Picking a mode leaves the topics picked earlier with /topics
+        ctx.session = { ...ctx.session, topics: undefined };
+
+        if (mode === 'review') {
+            const due = await storage.reviews.countDueCards(ctx.from.id.toString(), clock.now().toISOString());
+            if (due === 0) {
+                await ctx.editMessageText(ctx.t('quiz.nothingToReview'));
+                return;
+            }
+        }
+
+        await ctx.editMessageText(
+            ctx.t('quiz.askLength', { mode: ctx.t(MODE_LABELS[mode]) }),
+            createLengthKeyboard(ctx.t, mode, quizLengths)
+        );
+    });
+
+    // Handle quiz length selection, then ask for the time limit
+    bot.action(/^length:(mixed|dev|user|review):(\d+)$/, async (ctx) => {
+        const mode = ctx.match[1] as SessionMode;
+        const length = parseInt(ctx.match[2]);
+        await ctx.answerCbQuery();
+
+        await ctx.editMessageText(
+            ctx.t('quiz.askTimer', { mode: ctx.t(MODE_LABELS[mode]), length: formatQuizLength(ctx.t, length || null) }),
+            createTimerKeyboard(ctx.t, mode, length, timeLimits)
+        );
+    });
+
+    // Helper function to give up the player's open session, start a new one and serve its first question
+    // below the header built for it
+    async function beginSession(
+        ctx: SessionContext,
+        settings: SessionSettings,
+        formatHeader: (sessionId: string) => string
+    ): Promise<void> {
+        // A player has one active session at a time, picking a new quiz gives up the previous one
+        const open = await getCurrentSession(ctx);
+        if (open) {
+            await storage.sessions.abandonSession(open.id, clock.now().toISOString());
+        }
+
+        const sessionId = await createSession(ctx, settings);
+        if (!sessionId) {
+            await ctx.reply(ctx.t('quiz.createError'));
+            return;
+        }
+
+        // Store session ID in context
+        ctx.session = { ...ctx.session, sessionId };
+
+        const session = await storage.sessions.getSession(sessionId);
+        const served = session && await serveNewQuestion(session);
+        if (session && served === null) {
+            await storage.sessions.abandonSession(session.id, clock.now().toISOString());
+            ctx.session = { ...ctx.session, sessionId: undefined };
+            await ctx.reply(formatNothingLeft(ctx, session));
+            return;
+        }
+        if (!session || !served || !served.question.choices) {
+            await ctx.reply(ctx.t('quiz.fetchError'));
+            return;
+        }
+
+        await sendQuestion(ctx, session, served, formatHeader(sessionId));
+    }
+
+    // Helper function to start a session with the picked options and serve its first question
+    async function startSession(
+        ctx: SessionContext,
+        mode: SessionMode,
+        length: number,
+        seconds: number,
+        level: number | null,
+        adaptive: boolean
+    ): Promise<void> {
+        const maxQuestion = quizLengths.includes(length) && length > 0 ? length : null;
+        const timeLimit = timeLimits.includes(seconds) && seconds > 0 ? seconds : null;
+        await ctx.answerCbQuery(ctx.t('quiz.starting', { mode: ctx.t(MODE_LABELS[mode]) }));
+
+        // Topics picked with /topics narrow the mixed session started right after
+        const topics = mode === 'mixed' && ctx.session?.topics?.length ? ctx.session.topics : null;
+        const settings = { mode, max_question: maxQuestion, time_limit: timeLimit, level, adaptive, topics };
+
+        await beginSession(ctx, settings, (sessionId) => {
+            const header = [ctx.t('quiz.started', {
+                mode: ctx.t(MODE_LABELS[mode]),
+                length: formatQuizLength(ctx.t, maxQuestion),
+                timer: formatTimeLimit(ctx.t, timeLimit),
+                level: level === null ? '' : ctx.t('quiz.atLevel', { level: ctx.t(adaptive ? 'level.adaptive' : LEVEL_LABELS[level]) }),
+                sessionId
+            })];
+            if (topics) {
+                header.push(ctx.t('quiz.topicsLine', { topics: formatTopics(topics) }));
+            }
+            return header.join('\n');
+        });
+    }
+
+    // Helper function to get the day's challenge, drawing its questions the first time it is asked for
+    async function getDailyChallenge(day: string): Promise<string[]> {
+        const challenge = await storage.daily.getChallenge(day);
+        if (challenge) {
+            return challenge.question_ids;
+        }
+
+        const candidates = (await storage.questions.listQuestions())
+            .filter((question) => !question.retired_date && question.choices?.length)
+            .map((question) => question.id);
+        if (candidates.length === 0) {
+            return [];
+        }
+
+        // Another player may have drawn the set in the meantime, theirs is kept
+        const created = await storage.daily.createChallenge({
+            day,
+            question_ids: pickDailyQuestions(candidates, day),
+            created_date: clock.now().toISOString()
+        });
+        return created?.question_ids || [];
+    }
+
+    // Helper function to start the player's attempt at the day's challenge, or resume it,
+    // one attempt per player and day at the same questions for everyone
+    async function playDaily(ctx: SessionContext): Promise<void> {
+        if (!ctx.from) {
+            return;
+        }
+
+        const day = dailyDate(clock.now());
+        const attempt = await storage.sessions.getDailySession(ctx.from.id.toString(), day);
+
+        if (attempt?.status === 'active') {
+            ctx.session = { ...ctx.session, sessionId: attempt.id, servedId: undefined };
+            await sendNextQuestion(ctx);
+            return;
+        }
+        if (attempt) {
+            await ctx.reply(ctx.t('daily.alreadyPlayed', {
+                correct: attempt.correct || 0,
+                answered: attempt.questions || 0,
+                points: attempt.points
+            }));
+            return;
+        }
+
+        const questionIds = await getDailyChallenge(day);
+        if (questionIds.length === 0) {
+            await ctx.reply(ctx.t('daily.unavailable'));
+            return;
+        }
+
+        const settings = { mode: 'mixed' as const, max_question: questionIds.length, time_limit: DAILY_TIME_LIMIT, daily_date: day };
+        await beginSession(ctx, settings, (sessionId) => ctx.t('daily.started', {
+            day,
+            count: questionIds.length,
+            seconds: DAILY_TIME_LIMIT,
+            sessionId
+        }));
+    }
+
+    // Daily challenge command
+    bot.command('daily', async (ctx) => {
+        await playDaily(ctx);
+    });
+
+    // Play button of the daily reminder
+    bot.action('daily:play', async (ctx) => {
+        await ctx.answerCbQuery();
+        await playDaily(ctx);
+    });
+
+    // Handle time limit selection, then ask for the difficulty; review sessions start right away
+    bot.action(/^timer:(mixed|dev|user|review):(\d+):(\d+)$/, async (ctx) => {
+        const mode = ctx.match[1] as SessionMode;
+        const length = parseInt(ctx.match[2]);
+        const seconds = parseInt(ctx.match[3]);
+
+        // Review sessions serve the player's due cards, whatever their difficulty
+        if (mode === 'review') {
+            await startSession(ctx, mode, length, seconds, null, false);
+            return;
+        }
+
+        await ctx.answerCbQuery();
+        await ctx.editMessageText(
+            ctx.t('quiz.askLevel', {
+                mode: ctx.t(MODE_LABELS[mode]),
+                length: formatQuizLength(ctx.t, length || null),
+                timer: formatTimeLimit(ctx.t, timeLimits.includes(seconds) && seconds > 0 ? seconds : null),
+                up: LEVEL_UP_STREAK,
+                down: LEVEL_DOWN_STREAK
+            }),
+            createLevelKeyboard(ctx.t, mode, length, seconds)
+        );
+    });
+
+    // Handle difficulty selection and start the session
+    bot.action(/^level:(mixed|dev|user):(\d+):(\d+):(\d|adaptive)$/, async (ctx) => {
+        const mode = ctx.match[1] as SessionMode;
+        const length = parseInt(ctx.match[2]);
+        const seconds = parseInt(ctx.match[3]);
+        const adaptive = ctx.match[4] === 'adaptive';
+        const level = adaptive ? ADAPTIVE_START_LEVEL : parseInt(ctx.match[4]);
+
+        if (!isDifficulty(level)) {
+            await ctx.answerCbQuery();
+            return;
+        }
+
+        await startSession(ctx, mode, length, seconds, level, adaptive);
+    });
+
+    bot.action('finish_command', async (ctx) => {
+        await ctx.answerCbQuery();
+        await finishCurrentSession(ctx, 'quiz.noSessionShort');
+    });
+}
@@ -0,0 +1,68 @@
+import { Telegraf } from 'telegraf';
+import { BotDeps, SessionContext } from '../interfaces/bot';
+import { createTranslator, resolveLocale } from '../services/i18n';
+import { createRateLimiter, RateLimitAction } from '../services/rateLimit';
+
+// Buttons and commands that create a session or a battle
+const SESSION_CALLBACKS = /^(level:|timer:review:|daily:play$)/;
+const SESSION_COMMANDS = ['daily', 'battle'];
+
+// Helper function to tell which bucket an update draws from, null for updates that are not limited
+export function classifyUpdate(ctx: SessionContext): RateLimitAction | null {
+    if (ctx.callbackQuery) {
+        const data = 'data' in ctx.callbackQuery ? ctx.callbackQuery.data : '';
+        if (/^(answer|pick|submit|battle):/.test(data)) {
+            return 'answer';
+        }
+        if (data === 'next_command') {
+            return 'next';
+        }
+        return SESSION_CALLBACKS.test(data) ? 'session' : 'callback';
+    }
+
+    if (ctx.message) {
+        const text = 'text' in ctx.message ? ctx.message.text : '';
+        const command = text.match(/^\/(\w+)/)?.[1].toLowerCase();
+        if (!command) {
+            return 'message';
+        }
+        if (command === 'next') {
+            return 'next';
+        }
+        return SESSION_COMMANDS.includes(command) ? 'session' : 'command';
+    }
+
+    return null;
+}
+
+export function registerRateLimitHandlers(bot: Telegraf<SessionContext>, { clock, adminIds, rateLimits, metrics, defaultLocale }: BotDeps): void {
+    const limiter = createRateLimiter(rateLimits);
+
+    // Refuse updates over the limits before anything reads the storage
+    bot.use(async (ctx, next) => {
+        const action = classifyUpdate(ctx);
+        if (!ctx.from || !action || adminIds.includes(ctx.from.id.toString())) {
+            return next();
+        }
+
+        const decision = limiter.check(ctx.from.id.toString(), ctx.chat ? ctx.chat.id.toString() : null, action, clock.now().getTime());
+        if (decision.allowed) {
+            return next();
+        }
+
+        metrics.increment('rateLimited', { action, reason: decision.reason });
+
+        // The chosen language is in the storage, the Telegram one has to do
+        const t = createTranslator(resolveLocale(ctx.from.language_code, defaultLocale));
+        const text = decision.reason === 'banned'
+            ? t('rateLimit.banned', { count: Math.ceil(decision.retryAfterSeconds / 60) })
+            : t('rateLimit.throttled', { count: decision.retryAfterSeconds });
+
+        // Taps are always answered so the button stops loading, messages only get the first reply
+        if (ctx.callbackQuery) {
+            await ctx.answerCbQuery(decision.notify ? text : undefined);
+        } else if (decision.notify) {
+            await ctx.reply(text);
+        }
+    });
+}
@@ -0,0 +1,79 @@
+import { Telegraf, Markup } from 'telegraf';
+import { BotDeps, SessionContext } from '../interfaces/bot';
+import { SessionHistoryEntry } from '../interfaces/session';
+import { localizeQuestion, MessageKey, Translate } from '../services/i18n';
+import { parseModeOf, toPlainText } from '../services/questionContent';
+import { REPORT_REASONS, ReportReason } from '../services/questionStats';
+
+// Catalogue keys of the reason buttons
+const REASON_LABELS: Record<ReportReason, MessageKey> = {
+    wrong_answer: 'report.reason.wrong_answer',
+    unclear: 'report.reason.unclear',
+    typo: 'report.reason.typo',
+    outdated: 'report.reason.outdated'
+};
+
+// Helper function to create the reason picker of a report, bound to the served question row
+function createReasonKeyboard(t: Translate, servedId: string) {
+    return Markup.inlineKeyboard([
+        ...REPORT_REASONS.map((reason) => [
+            Markup.button.callback(t(REASON_LABELS[reason]), `report:${servedId}:${reason}`)
+        ]),
+        [Markup.button.callback(t('report.cancel'), 'report:cancel')]
+    ]);
+}
+
+export function registerReportHandlers(bot: Telegraf<SessionContext>, { storage }: BotDeps): void {
+    // Helper function to get a question the player answered in one of their sessions, null for anyone else
+    async function getAnsweredQuestion(ctx: SessionContext, servedId: string): Promise<SessionHistoryEntry | null> {
+        const served = await storage.sessions.getServedQuestion(servedId);
+        if (!served?.questions || !served.answered_date) {
+            return null;
+        }
+
+        const session = await storage.sessions.getSession(served.session_id);
+        return session && session.tg_id === ctx.from?.id.toString() ? served : null;
+    }
+
+    // Handle the button dropping the report, before the report button would take it for a question
+    bot.action('report:cancel', async (ctx) => {
+        await ctx.answerCbQuery();
+        await ctx.editMessageText(ctx.t('report.cancelled'));
+    });
+
+    // Handle the report button of the answer feedback, asks what is wrong
+    bot.action(/^report:([^:]+)$/, async (ctx) => {
+        const served = await getAnsweredQuestion(ctx, ctx.match[1]);
+        if (!served) {
+            await ctx.answerCbQuery(ctx.t('report.unavailable'));
+            return;
+        }
+
+        await ctx.answerCbQuery();
+        const question = localizeQuestion(served.questions!, ctx.locale);
+        await ctx.reply(
+            ctx.t('report.pickReason', { question: toPlainText(question.question, parseModeOf(question)) }),
+            createReasonKeyboard(ctx.t, ctx.match[1])
+        );
+    });
+
+    // Handle the reason picked, records the report for the admins to review
+    bot.action(new RegExp(`^report:([^:]+):(${REPORT_REASONS.join('|')})$`), async (ctx) => {
+        const served = await getAnsweredQuestion(ctx, ctx.match[1]);
+        if (!served) {
+            await ctx.answerCbQuery(ctx.t('report.unavailable'));
+            await ctx.editMessageReplyMarkup(undefined);
+            return;
+        }
+
+        const created = await storage.reports.createReport({
+            question_id: served.question_id,
+            tg_id: ctx.from.id.toString(),
+            reason: ctx.match[2]
+        });
+
+        const text = ctx.t(created ? 'report.thanks' : 'report.already');
+        await ctx.answerCbQuery(text);
+        await ctx.editMessageText(text);
+    });
+}
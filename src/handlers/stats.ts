@@ -0,0 +1,87 @@
+import { Telegraf } from 'telegraf';
+import { BotDeps, SessionContext } from '../interfaces/bot';
+import { Translate } from '../services/i18n';
+import { splitMessage } from '../services/messages';
+import { MODE_LABELS } from '../services/modes';
+import { buildPlayerStats, PlayerStats, ScoreLine } from '../services/stats';
+
+// Helper function to format a percentage
+function percent(accuracy: number): string {
+    return `${Math.round(accuracy * 100)}%`;
+}
+
+// Helper function to format accuracy with the counts behind it
+function formatScoreLine(line: ScoreLine): string {
+    return `${percent(line.accuracy)} (${line.correct}/${line.questions})`;
+}
+
+// Helper function to build the /stats message
+export function formatPlayerStats(t: Translate, stats: PlayerStats): string {
+    if (stats.sessions === 0) {
+        return t('stats.empty');
+    }
+
+    const lines = [
+        t('stats.title'),
+        t('stats.sessions', { count: stats.sessions }),
+        t('stats.lifetime', { score: formatScoreLine(stats) })
+    ];
+
+    lines.push('', t('stats.byMode'));
+    for (const line of stats.perMode) {
+        lines.push(t('stats.modeLine', { mode: t(MODE_LABELS[line.mode]), score: formatScoreLine(line), count: line.sessions }));
+    }
+
+    if (stats.perTag.length > 0) {
+        lines.push('', t('stats.byTopic'));
+        for (const line of stats.perTag) {
+            lines.push(`#${line.tag} — ${formatScoreLine(line)}`);
+        }
+    }
+
+    if (stats.best) {
+        const best = stats.best;
+        lines.push('', t(best.created_date ? 'stats.bestOn' : 'stats.best', {
+            correct: best.correct || 0,
+            answered: best.questions || 0,
+            mode: t(MODE_LABELS[best.mode]),
+            date: best.created_date?.slice(0, 10) ?? ''
+        }));
+    }
+
+    if (stats.trend.length > 1) {
+        const recent = stats.trend.reduce((sum, accuracy) => sum + accuracy, 0) / stats.trend.length;
+        const direction = recent > stats.accuracy ? 'stats.above' : recent < stats.accuracy ? 'stats.below' : 'stats.level';
+        lines.push(
+            '',
+            t('stats.trend', { count: stats.trend.length, trend: stats.trend.map(percent).join(' → ') }),
+            t(direction)
+        );
+    }
+
+    if (stats.weakTags.length > 0) {
+        lines.push(
+            '',
+            t('stats.studyNext', {
+                tags: stats.weakTags.map((line) => t('stats.missedTag', { tag: line.tag, count: line.misses })).join(', ')
+            })
+        );
+    }
+
+    return lines.join('\n');
+}
+
+export function registerStatsHandlers(bot: Telegraf<SessionContext>, { storage }: BotDeps): void {
+    // Stats command
+    bot.command('stats', async (ctx) => {
+        const tgId = ctx.from.id.toString();
+        const [sessions, answers] = await Promise.all([
+            storage.sessions.listSessions({ tgId }),
+            storage.sessions.listPlayerAnswers(tgId)
+        ]);
+
+        for (const part of splitMessage(formatPlayerStats(ctx.t, buildPlayerStats(sessions, answers)))) {
+            await ctx.reply(part);
+        }
+    });
+}
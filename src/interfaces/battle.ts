@@ -0,0 +1,13 @@
+import { Database } from './db_sheme';
+import { Question } from './question';
+
+export type Battle = Database['public']['Tables']['battles']['Row'];
+export type BattleInsert = Database['public']['Tables']['battles']['Insert'];
+export type BattleRoundInsert = Database['public']['Tables']['battle_rounds']['Insert'];
+export type BattleAnswer = Database['public']['Tables']['battle_answers']['Row'];
+export type BattleAnswerInsert = Database['public']['Tables']['battle_answers']['Insert'];
+
+// A round of a battle, with its question joined in
+export type BattleRound = Database['public']['Tables']['battle_rounds']['Row'] & {
+    questions: Question | null;
+};
@@ -0,0 +1,71 @@
+import { Context } from 'telegraf';
+import { Locale, Translate } from '../services/i18n';
+import { Metrics } from '../services/metrics';
+import { RateLimitConfig } from '../services/rateLimit';
+import { QuestionInsert } from './question';
+import { Storage } from './storage';
+
+export type AdminDraftStep = 'question' | 'choices' | 'answer' | 'info' | 'tags' | 'difficulty' | 'review';
+
+// A question an admin is adding or editing through the guided conversation
+export interface AdminDraft {
+    // Question being edited, absent when adding a new one
+    questionId?: string;
+    // Walk through every step in order, as when adding a question
+    guided: boolean;
+    step: AdminDraftStep;
+    question: QuestionInsert;
+}
+
+// Conversation state kept per player and chat, persisted across restarts
+export interface SessionData {
+    sessionId?: string;
+    // session_questions row of the question waiting for an answer
+    servedId?: string;
+    // Tags picked with /topics for the next mixed session
+    topics?: string[];
+    adminDraft?: AdminDraft;
+}
+
+// Define session context
+export interface SessionContext extends Context {
+    session?: SessionData;
+    // Language of the player who sent the update, set before any handler runs
+    locale: Locale;
+    t: Translate;
+}
+
+export interface Clock {
+    now(): Date;
+}
+
+// Runs work later, such as closing a battle round
+export interface Scheduler {
+    schedule(task: () => Promise<void>, delayMs: number): void;
+}
+
+// Everything the bot needs from the outside world
+export interface BotDeps {
+    token: string;
+    storage: Storage;
+    clock: Clock;
+    scheduler: Scheduler;
+    // Telegram IDs allowed to manage questions
+    adminIds: string[];
+    // Tags accepted on questions on top of the ones already in use
+    questionTags: string[];
+    // Conversation state unused for this long is dropped and its quiz session finished
+    sessionTtlHours: number;
+    // Length of the sessions started without the picker, and the lengths and seconds per question it offers
+    defaultQuizLength: number;
+    quizLengths: number[];
+    timeLimits: number[];
+    // Language of the players whose Telegram language is not supported
+    defaultLocale: Locale;
+    // Hour of the day (UTC) the daily challenge reminders are sent, null to send none
+    dailyReminderHour: number | null;
+    // Counters and latencies served on /metrics
+    metrics: Metrics;
+    // Token buckets per player and chat, and bans of repeat offenders
+    rateLimits: RateLimitConfig;
+}
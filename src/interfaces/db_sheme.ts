@@ -9,78 +9,482 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      achievements: {
+        Row: {
+          code: string
+          tg_id: string
+          unlocked_date: string
+        }
+        Insert: {
+          code: string
+          tg_id: string
+          unlocked_date?: string
+        }
+        Update: {
+          code?: string
+          tg_id?: string
+          unlocked_date?: string
+        }
+        Relationships: []
+      }
+      battle_answers: {
+        Row: {
+          answer_index: number
+          answered_date: string
+          battle_id: string
+          is_correct: boolean
+          points: number
+          round_id: string
+          tg_handle: string
+          tg_id: string
+        }
+        Insert: {
+          answer_index: number
+          answered_date?: string
+          battle_id: string
+          is_correct: boolean
+          points?: number
+          round_id: string
+          tg_handle: string
+          tg_id: string
+        }
+        Update: {
+          answer_index?: number
+          answered_date?: string
+          battle_id?: string
+          is_correct?: boolean
+          points?: number
+          round_id?: string
+          tg_handle?: string
+          tg_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "battle_answers_battle_id_fkey"
+            columns: ["battle_id"]
+            isOneToOne: false
+            referencedRelation: "battles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "battle_answers_round_id_fkey"
+            columns: ["round_id"]
+            isOneToOne: false
+            referencedRelation: "battle_rounds"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      battle_rounds: {
+        Row: {
+          battle_id: string
+          choice_order: number[] | null
+          closed_date: string | null
+          id: string
+          message_id: number | null
+          question_id: string
+          round: number
+          started_date: string
+        }
+        Insert: {
+          battle_id: string
+          choice_order?: number[] | null
+          closed_date?: string | null
+          id?: string
+          message_id?: number | null
+          question_id: string
+          round: number
+          started_date?: string
+        }
+        Update: {
+          battle_id?: string
+          choice_order?: number[] | null
+          closed_date?: string | null
+          id?: string
+          message_id?: number | null
+          question_id?: string
+          round?: number
+          started_date?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "battle_rounds_battle_id_fkey"
+            columns: ["battle_id"]
+            isOneToOne: false
+            referencedRelation: "battles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "battle_rounds_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      battles: {
+        Row: {
+          chat_id: string
+          created_date: string
+          finished_date: string | null
+          id: string
+          language: string
+          mode: Database["public"]["Enums"]["session_mode"]
+          round_seconds: number
+          rounds: number
+          started_by: string
+        }
+        Insert: {
+          chat_id: string
+          created_date?: string
+          finished_date?: string | null
+          id?: string
+          language?: string
+          mode?: Database["public"]["Enums"]["session_mode"]
+          round_seconds: number
+          rounds: number
+          started_by: string
+        }
+        Update: {
+          chat_id?: string
+          created_date?: string
+          finished_date?: string | null
+          id?: string
+          language?: string
+          mode?: Database["public"]["Enums"]["session_mode"]
+          round_seconds?: number
+          rounds?: number
+          started_by?: string
+        }
+        Relationships: []
+      }
+      chat_states: {
+        Row: {
+          data: Json
+          expires_date: string
+          key: string
+          updated_date: string
+        }
+        Insert: {
+          data: Json
+          expires_date: string
+          key: string
+          updated_date?: string
+        }
+        Update: {
+          data?: Json
+          expires_date?: string
+          key?: string
+          updated_date?: string
+        }
+        Relationships: []
+      }
+      daily_challenges: {
+        Row: {
+          created_date: string
+          day: string
+          question_ids: string[]
+        }
+        Insert: {
+          created_date?: string
+          day: string
+          question_ids: string[]
+        }
+        Update: {
+          created_date?: string
+          day?: string
+          question_ids?: string[]
+        }
+        Relationships: []
+      }
+      question_reports: {
+        Row: {
+          created_date: string
+          id: string
+          question_id: string
+          reason: string
+          resolved_date: string | null
+          tg_id: string
+        }
+        Insert: {
+          created_date?: string
+          id?: string
+          question_id: string
+          reason: string
+          resolved_date?: string | null
+          tg_id: string
+        }
+        Update: {
+          created_date?: string
+          id?: string
+          question_id?: string
+          reason?: string
+          resolved_date?: string | null
+          tg_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "question_reports_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       questions: {
         Row: {
           answer: string | null
           answer_index: number | null
+          answer_indexes: number[] | null
           answer_info: string | null
           choices: string[] | null
+          difficulty: number | null
           id: string
+          key: string | null
+          media: string | null
+          media_type: string | null
+          parse_mode: string | null
           question: string
+          retired_date: string | null
           tags: string[] | null
+          translations: Json | null
         }
         Insert: {
           answer?: string | null
           answer_index?: number | null
+          answer_indexes?: number[] | null
           answer_info?: string | null
           choices?: string[] | null
+          difficulty?: number | null
           id?: string
+          key?: string | null
+          media?: string | null
+          media_type?: string | null
+          parse_mode?: string | null
           question: string
+          retired_date?: string | null
           tags?: string[] | null
+          translations?: Json | null
         }
         Update: {
           answer?: string | null
           answer_index?: number | null
+          answer_indexes?: number[] | null
           answer_info?: string | null
           choices?: string[] | null
+          difficulty?: number | null
           id?: string
+          key?: string | null
+          media?: string | null
+          media_type?: string | null
+          parse_mode?: string | null
           question?: string
+          retired_date?: string | null
           tags?: string[] | null
+          translations?: Json | null
         }
         Relationships: []
       }
+      review_cards: {
+        Row: {
+          box: number
+          due_date: string
+          question_id: string
+          reviewed_date: string | null
+          tg_id: string
+        }
+        Insert: {
+          box?: number
+          due_date: string
+          question_id: string
+          reviewed_date?: string | null
+          tg_id: string
+        }
+        Update: {
+          box?: number
+          due_date?: string
+          question_id?: string
+          reviewed_date?: string | null
+          tg_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "review_cards_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      session_questions: {
+        Row: {
+          answer_index: number | null
+          answer_indexes: number[] | null
+          answered_date: string | null
+          choice_order: number[] | null
+          id: string
+          is_correct: boolean | null
+          question_id: string
+          served_date: string
+          session_id: string
+        }
+        Insert: {
+          answer_index?: number | null
+          answer_indexes?: number[] | null
+          answered_date?: string | null
+          choice_order?: number[] | null
+          id?: string
+          is_correct?: boolean | null
+          question_id: string
+          served_date?: string
+          session_id: string
+        }
+        Update: {
+          answer_index?: number | null
+          answer_indexes?: number[] | null
+          answered_date?: string | null
+          choice_order?: number[] | null
+          id?: string
+          is_correct?: boolean | null
+          question_id?: string
+          served_date?: string
+          session_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "session_questions_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "session_questions_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       sessions: {
         Row: {
+          adaptive: boolean
           correct: number | null
           created_date: string | null
+          daily_date: string | null
+          finished_date: string | null
           id: string
+          level: number | null
           max_question: number | null
           mode: Database["public"]["Enums"]["session_mode"]
+          points: number
           questions: number | null
+          status: Database["public"]["Enums"]["session_status"]
           tg_handle: string
           tg_id: string | null
+          time_limit: number | null
+          topics: string[] | null
         }
         Insert: {
+          adaptive?: boolean
           correct?: number | null
           created_date?: string | null
+          daily_date?: string | null
+          finished_date?: string | null
           id?: string
+          level?: number | null
           max_question?: number | null
           mode?: Database["public"]["Enums"]["session_mode"]
+          points?: number
           questions?: number | null
+          status?: Database["public"]["Enums"]["session_status"]
           tg_handle: string
           tg_id?: string | null
+          time_limit?: number | null
+          topics?: string[] | null
         }
         Update: {
+          adaptive?: boolean
           correct?: number | null
           created_date?: string | null
+          daily_date?: string | null
+          finished_date?: string | null
           id?: string
+          level?: number | null
           max_question?: number | null
           mode?: Database["public"]["Enums"]["session_mode"]
+          points?: number
           questions?: number | null
+          status?: Database["public"]["Enums"]["session_status"]
           tg_handle?: string
           tg_id?: string | null
+          time_limit?: number | null
+          topics?: string[] | null
+        }
+        Relationships: []
+      }
+      user_settings: {
+        Row: {
+          daily_reminder: boolean
+          language: string | null
+          tg_id: string
+          updated_date: string
+        }
+        Insert: {
+          daily_reminder?: boolean
+          language?: string | null
+          tg_id: string
+          updated_date?: string
+        }
+        Update: {
+          daily_reminder?: boolean
+          language?: string | null
+          tg_id?: string
+          updated_date?: string
         }
         Relationships: []
       }
     }
     Views: {
-      [_ in never]: never
+      question_choice_stats: {
+        Row: {
+          answer_index: number | null
+          answer_indexes: number[] | null
+          count: number | null
+          is_correct: boolean | null
+          question_id: string | null
+          total_seconds: number | null
+        }
+        Relationships: []
+      }
+      question_levels: {
+        Row: {
+          answer_indexes: number[] | null
+          id: string | null
+          level: number | null
+          retired_date: string | null
+          tags: string[] | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
-      [_ in never]: never
+      increment_session_score: {
+        Args: {
+          answer_correct: boolean
+          answer_points: number
+          target_session_id: string
+        }
+        Returns: undefined
+      }
     }
     Enums: {
-      session_mode: "mixed" | "dev" | "user"
+      session_mode: "mixed" | "dev" | "user" | "review"
+      session_status: "active" | "finished" | "abandoned"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -0,0 +1,15 @@
+import { Database } from './db_sheme';
+
+export type Question = Database['public']['Tables']['questions']['Row'];
+export type QuestionInsert = Database['public']['Tables']['questions']['Insert'];
+export type QuestionUpdate = Database['public']['Tables']['questions']['Update'];
+
+// Fields of a question shown in another language, the ones left out fall back to English
+export interface QuestionTranslation {
+    question?: string;
+    choices?: string[];
+    answer_info?: string;
+}
+
+// Content of the translations column, by locale
+export type QuestionTranslations = Record<string, QuestionTranslation>;
@@ -1,7 +1,22 @@
-export interface Session {
-    id: string;
-    tg_handle: string;
-    created_date: string | null;
-    questions: number | null;
-    correct: number | null;
-}
\ No newline at end of file
+import { Database } from './db_sheme';
+import { Question } from './question';
+
+export type Session = Database['public']['Tables']['sessions']['Row'];
+export type SessionInsert = Database['public']['Tables']['sessions']['Insert'];
+export type SessionMode = Database['public']['Enums']['session_mode'];
+export type SessionStatus = Database['public']['Enums']['session_status'];
+
+// A question served in a session, with the question itself joined in
+export type SessionHistoryEntry = Database['public']['Tables']['session_questions']['Row'] & {
+    questions: Question | null;
+};
+
+// One answered question, kept for the end-of-quiz report
+export interface SessionAnswer {
+    questionId: string;
+    question: string;
+    givenAnswer: string | null;
+    correctAnswer: string | null;
+    answerInfo: string | null;
+    isCorrect: boolean;
+}
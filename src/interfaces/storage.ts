@@ -0,0 +1,190 @@
+import { ChoiceOrder } from '../services/choiceOrder';
+import { Battle, BattleAnswer, BattleAnswerInsert, BattleInsert, BattleRound, BattleRoundInsert } from './battle';
+import { SessionData } from './bot';
+import { Database } from './db_sheme';
+import { Question, QuestionInsert, QuestionUpdate } from './question';
+import { Session, SessionHistoryEntry, SessionInsert, SessionMode } from './session';
+
+// Filters for picking active questions, all optional but the mode
+export interface QuestionFilter {
+    mode: SessionMode;
+    excludedIds?: string[];
+    // Difficulty level, as rated by the question_levels view
+    level?: number;
+    // Questions with at least one of these tags
+    topics?: string[];
+    // Leaves out the multi-select questions, for modes that only take one choice
+    singleAnswer?: boolean;
+}
+
+// Served questions grouped by question and picked choice, as the question_choice_stats view counts them
+export interface QuestionChoiceStats {
+    question_id: string;
+    // Null for timeouts, and for questions not answered yet
+    answer_index: number | null;
+    // Null while the question waits for an answer
+    is_correct: boolean | null;
+    count: number;
+    // Seconds from serving to answering, summed over the grouped rows
+    total_seconds: number;
+    // Choices submitted for a multi-select question, null for the others
+    answer_indexes: number[] | null;
+}
+
+export interface QuestionRepository {
+    // Random active question matching the filter, null when none is left
+    getRandomQuestion(filter: QuestionFilter): Promise<Question | null | undefined>;
+    countQuestions(filter: QuestionFilter): Promise<number>;
+    getQuestionById(questionId: string): Promise<Question | undefined>;
+    // Every question, retired ones included
+    listQuestions(): Promise<Question[]>;
+    createQuestion(question: QuestionInsert): Promise<Question | null>;
+    updateQuestion(questionId: string, update: QuestionUpdate): Promise<Question | null>;
+    // Distinct tags of the active questions, sorted
+    listTags(): Promise<string[]>;
+    // Answers of one question, or of every question, served in sessions
+    listChoiceStats(questionId?: string): Promise<QuestionChoiceStats[]>;
+}
+
+// Filters for listing sessions, all optional
+export interface SessionFilter {
+    tgId?: string;
+    mode?: SessionMode;
+    // ISO date, only sessions created at or after it
+    since?: string;
+    // YYYY-MM-DD, only the sessions playing the daily challenge of that day
+    dailyDate?: string;
+}
+
+export interface SessionRepository {
+    createSession(newSession: SessionInsert): Promise<string | null>;
+    getSession(sessionId: string): Promise<Session | null>;
+    // Sessions with at least one answered question, newest first
+    listSessions(filter: SessionFilter): Promise<Session[]>;
+    // Counts one more answered question, and the points it earned
+    updateSessionScore(sessionId: string, isCorrect: boolean, points: number): Promise<void>;
+    updateSessionLevel(sessionId: string, level: number): Promise<void>;
+    // The player's latest active session, null when every session is finished or abandoned
+    getOpenSession(tgId: string): Promise<Session | null>;
+    // The player's attempt at the daily challenge of a day, whatever its status
+    getDailySession(tgId: string, day: string): Promise<Session | null>;
+    // Both only change active sessions, false when the session was not active
+    finishSession(sessionId: string, finishedDate: string): Promise<boolean>;
+    abandonSession(sessionId: string, abandonedDate: string): Promise<boolean>;
+    // Id of the served question row, which callback data carries as an answer token
+    recordServedQuestion(sessionId: string, questionId: string, servedDate: string, choiceOrder: ChoiceOrder): Promise<string | null>;
+    getServedQuestion(servedId: string): Promise<SessionHistoryEntry | null>;
+    getSessionHistory(sessionId: string): Promise<SessionHistoryEntry[]>;
+    // Every answered question of a player across all their sessions
+    listPlayerAnswers(tgId: string): Promise<SessionHistoryEntry[]>;
+    getPendingQuestion(sessionId: string): Promise<SessionHistoryEntry | null>;
+    // Choices of a multi-select question toggled on so far, false when it was already answered
+    saveSelection(servedId: string, answerIndexes: number[]): Promise<boolean>;
+    // False when the served question was already answered; the choices submitted for a multi-select
+    // question come as an array, and a null answer records a timeout
+    recordAnswer(servedId: string, answer: number | number[] | null, isCorrect: boolean, answeredDate: string): Promise<boolean>;
+}
+
+export type ReviewCard = Database['public']['Tables']['review_cards']['Row'];
+
+export interface ReviewRepository {
+    getCard(tgId: string, questionId: string): Promise<ReviewCard | null>;
+    saveCard(card: ReviewCard): Promise<void>;
+    // Question of the player's card due the longest, skipping excludedIds; null when nothing is due
+    getDueQuestion(tgId: string, now: string, excludedIds?: string[]): Promise<Question | null | undefined>;
+    countDueCards(tgId: string, now: string): Promise<number>;
+}
+
+export interface BattleRepository {
+    createBattle(battle: BattleInsert): Promise<Battle | null>;
+    getBattle(battleId: string): Promise<Battle | null>;
+    // The battle of a chat that is not finished yet, null when there is none
+    getRunningBattle(chatId: string): Promise<Battle | null>;
+    // False when the battle was already finished
+    finishBattle(battleId: string, finishedDate: string): Promise<boolean>;
+    startRound(round: BattleRoundInsert): Promise<BattleRound | null>;
+    getRound(roundId: string): Promise<BattleRound | null>;
+    // Rounds of a battle, first round first
+    listRounds(battleId: string): Promise<BattleRound[]>;
+    setRoundMessage(roundId: string, messageId: number): Promise<void>;
+    // False when the round was already closed
+    closeRound(roundId: string, closedDate: string): Promise<boolean>;
+    // False when the participant already answered the round
+    recordBattleAnswer(answer: BattleAnswerInsert): Promise<boolean>;
+    listBattleAnswers(battleId: string): Promise<BattleAnswer[]>;
+}
+
+// Conversation state stored under a Telegraf session key
+export interface ChatState {
+    key: string;
+    data: SessionData;
+    expires_date: string;
+}
+
+export interface ChatStateRepository {
+    getState(key: string): Promise<ChatState | null>;
+    saveState(state: ChatState): Promise<void>;
+    deleteState(key: string): Promise<void>;
+    // Drop every state expired by then, returning the dropped states
+    deleteExpiredStates(now: string): Promise<ChatState[]>;
+}
+
+export type UserSettings = Database['public']['Tables']['user_settings']['Row'];
+export type UserSettingsInsert = Database['public']['Tables']['user_settings']['Insert'];
+
+export interface UserSettingsRepository {
+    getSettings(tgId: string): Promise<UserSettings | null>;
+    // Creates the player's settings or updates the fields given
+    saveSettings(settings: UserSettingsInsert): Promise<void>;
+    // Players who asked for the daily challenge reminder
+    listDailyReminders(): Promise<UserSettings[]>;
+}
+
+export type Achievement = Database['public']['Tables']['achievements']['Row'];
+export type AchievementInsert = Database['public']['Tables']['achievements']['Insert'];
+
+export interface AchievementRepository {
+    // Achievements a player unlocked, oldest first
+    listAchievements(tgId: string): Promise<Achievement[]>;
+    // False when the player already had the achievement
+    unlockAchievement(achievement: AchievementInsert): Promise<boolean>;
+}
+
+export type DailyChallenge = Database['public']['Tables']['daily_challenges']['Row'];
+export type DailyChallengeInsert = Database['public']['Tables']['daily_challenges']['Insert'];
+
+export interface DailyChallengeRepository {
+    getChallenge(day: string): Promise<DailyChallenge | null>;
+    // The challenge stored for the day, the one given unless another was saved first
+    createChallenge(challenge: DailyChallengeInsert): Promise<DailyChallenge | null>;
+}
+
+export type QuestionReport = Database['public']['Tables']['question_reports']['Row'];
+export type QuestionReportInsert = Database['public']['Tables']['question_reports']['Insert'];
+
+export interface QuestionReportRepository {
+    // False when the player already has an open report on the question
+    createReport(report: QuestionReportInsert): Promise<boolean>;
+    // Reports no admin reviewed yet, of one question or of every question, oldest first
+    listOpenReports(questionId?: string): Promise<QuestionReport[]>;
+    // Marks the open reports of a question as reviewed, returns how many there were
+    resolveReports(questionId: string, resolvedDate: string): Promise<number>;
+}
+
+export interface HealthRepository {
+    // Whether the storage answers, for the readiness probe
+    ping(): Promise<boolean>;
+}
+
+export interface Storage {
+    questions: QuestionRepository;
+    sessions: SessionRepository;
+    reviews: ReviewRepository;
+    battles: BattleRepository;
+    chatStates: ChatStateRepository;
+    users: UserSettingsRepository;
+    achievements: AchievementRepository;
+    daily: DailyChallengeRepository;
+    reports: QuestionReportRepository;
+    health: HealthRepository;
+}
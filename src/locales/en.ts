@@ -0,0 +1,327 @@
+// English messages, every other catalogue has the same keys
+export const en = {
+    'mode.mixed': '🎲 Mixed',
+    'mode.dev': '👩‍💻 Dev',
+    'mode.user': '👤 User',
+    'mode.review': '🔁 Review',
+
+    'level.beginner': '🌱 Beginner',
+    'level.intermediate': '🌿 Intermediate',
+    'level.expert': '🌳 Expert',
+    'level.adaptive': '📈 Adaptive',
+
+    'language.name': '🇬🇧 English',
+    'language.choose': '🌐 Choose the language of the bot:',
+    'language.auto': '📱 Telegram language',
+    'language.set': 'Language set to {language}.',
+    'language.setAuto': 'The bot now follows your Telegram language: {language}.',
+
+    'quiz.welcome': 'Welcome to XPR Guru Bot! 🚀\nPlease select your session mode:',
+    'quiz.modeMixed': '🎲 Mixed Mode',
+    'quiz.modeDev': '👩‍💻 Developer Mode',
+    'quiz.modeUser': '👤 User Mode',
+    'quiz.modeReview': '🔁 Review Mistakes',
+    'quiz.unlimitedButton': '♾️ Unlimited',
+    'quiz.timerButton': '⏱ {seconds}s',
+    'quiz.noLimitButton': '🐢 No limit',
+    'quiz.length': { one: '{count} question', other: '{count} questions' },
+    'quiz.unlimited': 'unlimited',
+    'quiz.perQuestion': ', {seconds}s per question',
+    'quiz.askLength': 'How many questions do you want in {mode} mode?',
+    'quiz.askTimer': 'How long do you want per question in {mode} mode ({length})?',
+    'quiz.askLevel': 'Which difficulty do you want in {mode} mode ({length}{timer})?\n📈 Adaptive starts at intermediate, goes up after {up} correct answers in a row and down after {down} misses in a row.',
+    'quiz.atLevel': ', {level}',
+    'quiz.topicsChoose': '🏷️ Pick the topics of your quiz, then start it:',
+    'quiz.topicsNoneSelected': 'No topic picked yet.',
+    'quiz.topicsLine': '🏷️ Topics: {topics}',
+    'quiz.topicsCount': { one: '📚 {count} question matches these topics.', other: '📚 {count} questions match these topics.' },
+    'quiz.topicsStart': '▶️ Start',
+    'quiz.topicsClear': '🧹 Clear',
+    'quiz.topicsEmpty': 'There are no topics to pick from yet.',
+    'quiz.topicUnavailable': 'This topic is no longer available.',
+    'quiz.topicsPickFirst': 'Pick at least one topic first.',
+    'quiz.topicsNoQuestions': 'No question matches these topics.',
+    'quiz.askLengthTopics': { one: 'How many questions do you want on {topics}? {count} question is available.', other: 'How many questions do you want on {topics}? {count} questions are available.' },
+    'quiz.nothingToReview': 'Nothing to review yet! 🧠\nQuestions you miss in the other modes come back here on a spaced repetition schedule.',
+    'quiz.starting': 'Starting {mode} mode...',
+    'quiz.started': 'Session started in {mode} mode ({length}{timer}{level})!\nSession ID: {sessionId}',
+    'quiz.progress': 'Question {number}{total}! 🔄\nScore so far: {correct}/{answered} correct',
+    'quiz.countdown': '⏱ {seconds}s left',
+    'quiz.timeUp': '⏱ Time\'s up!',
+    'quiz.resumeOffer': 'You have an unfinished quiz in {mode} mode: {answered}{total} answered, {correct} correct.\nResume it or start a new one?',
+    'quiz.resume': '▶️ Resume',
+    'quiz.startOver': '🗑️ Start over',
+    'quiz.abandoned': 'Quiz abandoned',
+    'quiz.nextQuestion': 'Next Question ⏭️',
+    'quiz.finish': '🏁 Finish',
+    'quiz.startAgain': '🔄 Start Again',
+    'quiz.leaderboard': '🏆 Leaderboard',
+    'quiz.correct': '✅ Correct!',
+    'quiz.correctPoints': { one: '✅ Correct! +{count} point', other: '✅ Correct! +{count} points' },
+    'quiz.wrong': '❌ Wrong!',
+    'quiz.question': '📝 Question: {question}',
+    'quiz.yourAnswer': '🤔 Your answer: {answer}',
+    'quiz.correctAnswer': '✨ Correct answer: {answer}',
+    'quiz.correctChoice': '✨ Correct answer: {answer} (button {position})',
+    'quiz.yourAnswers': '🤔 Your answers: {answers}',
+    'quiz.correctAnswers': '✨ Correct answers: {answers}',
+    'quiz.choiceOnButton': '{answer} (button {position})',
+    'quiz.multiSelectHint': '☑️ Several answers are correct: tick them all, then submit.',
+    'quiz.submit': '📨 Submit answer',
+    'quiz.selectFirst': 'Tick at least one answer before submitting.',
+    'quiz.explanation': 'ℹ️ Explanation: {explanation}',
+    'quiz.score': '📊 Score: {correct}/{answered} correct',
+    'quiz.points': '⭐ Points: {points}',
+    'quiz.levelUp': '📈 Level up: {level}',
+    'quiz.levelDown': '📉 Level down: {level}',
+    'quiz.reportLevel': 'Difficulty: {level}',
+    'quiz.reportLevelReached': 'Difficulty reached: {level}',
+    'quiz.report': 'Session completed! 🎉\nQuestions answered: {answered}\nCorrect answers: {correct}\nAccuracy: {accuracy}%\nPoints: {points}',
+    'quiz.noAnswerInTime': '⏱ no answer in time',
+    'quiz.reviewDone': 'Nothing left to review right now! 🧠',
+    'quiz.allAnswered': 'You have answered every question available in this mode! 🏆',
+    'quiz.allAnsweredTopics': 'You have answered every question available on {topics}! 🏆',
+    'quiz.allAnsweredLevel': 'You have answered every {level} question available in this mode! 🏆',
+    'quiz.startFirst': 'Please start a new session first.',
+    'quiz.noSession': 'No active session found. Please start a new session with /start command.',
+    'quiz.noSessionShort': 'No active session found. Please start a new session first.',
+    'quiz.createError': 'Sorry, there was an error creating your session. Please try again.',
+    'quiz.fetchError': 'Sorry, there was an error fetching a question. Please try again.',
+    'quiz.sessionError': 'Error retrieving session data. Please try again.',
+    'quiz.unavailable': 'This question is no longer available.',
+    'quiz.invalidAnswer': 'Answer error. Invalid answer index.',
+    'quiz.notYours': 'This question was not served to you.',
+    'quiz.alreadyAnswered': 'You already answered this question.',
+    'quiz.sessionFinished': 'This session is already finished.',
+
+    'leaderboard.all': '🌐 All',
+    'leaderboard.week': 'This week',
+    'leaderboard.month': 'This month',
+    'leaderboard.allTime': 'All time',
+    'leaderboard.title': '🏆 Leaderboard — {mode} · {period}',
+    'leaderboard.minimum': { one: 'Minimum {count} answered question to be ranked', other: 'Minimum {count} answered questions to be ranked' },
+    'leaderboard.empty': 'Nobody is ranked yet. Be the first! 🚀',
+    'leaderboard.anonymous': 'anonymous',
+    'leaderboard.rank': 'Your rank: #{rank} of {ranked} — {score}',
+    'leaderboard.missing': { one: 'Answer {count} more question to get ranked.', other: 'Answer {count} more questions to get ranked.' },
+
+    'stats.empty': 'You have not answered any question yet. Use /start to play your first quiz! 🚀',
+    'stats.title': '📈 Your XPR Guru stats',
+    'stats.sessions': 'Sessions: {count}',
+    'stats.lifetime': 'Lifetime accuracy: {score}',
+    'stats.byMode': 'By mode:',
+    'stats.modeLine': { one: '{mode} — {score} in {count} session', other: '{mode} — {score} in {count} sessions' },
+    'stats.byTopic': 'By topic:',
+    'stats.best': '🏅 Best session: {correct}/{answered} in {mode} mode',
+    'stats.bestOn': '🏅 Best session: {correct}/{answered} in {mode} mode on {date}',
+    'stats.trend': '📊 Last {count} sessions: {trend}',
+    'stats.above': '📈 above your lifetime accuracy',
+    'stats.below': '📉 below your lifetime accuracy',
+    'stats.level': '➡️ at your lifetime accuracy',
+    'stats.studyNext': '📚 Study next: {tags}',
+    'stats.missedTag': '#{tag} ({count} missed)',
+
+    'achievement.streak': '🔥 {count}-day streak',
+    'achievement.perfect': '💯 Perfect {count}',
+    'achievement.row': '🎯 {count} in a row',
+    'achievement.mastery': '🎓 #{tag} master',
+    'achievement.streakGoal': 'Play {count} days in a row',
+    'achievement.perfectGoal': 'Answer {count} questions of a session without a miss',
+    'achievement.rowGoal': 'Answer {count} questions right in a row',
+    'achievement.masteryGoal': 'Reach {accuracy}% accuracy over at least {count} #{tag} questions',
+    'achievement.unlocked': '🎉 Achievement unlocked: {name}\n{goal}',
+    'achievement.title': '🏅 Your achievements: {earned}/{total}',
+    'achievement.earned': 'Earned:',
+    'achievement.locked': 'Locked:',
+    'achievement.earnedLine': '{name} — {goal} ({date})',
+    'achievement.lockedLine': '🔒 {name} — {goal} · {progress}',
+    'achievement.progress': '{progress}/{target}',
+    'achievement.masteryProgress': '{accuracy}% over {progress}/{target}',
+    'achievement.masteryHint': '🎓 Answer questions on a topic to work towards its mastery.',
+
+    'daily.started': '📅 Daily challenge of {day}: {count} questions, {seconds}s each, the same for every player. One attempt only!\nSession ID: {sessionId}',
+    'daily.alreadyPlayed': 'You already played today\'s challenge: {correct}/{answered} correct, {points} points.\nSee how you rank with /dailyrank, a new challenge comes tomorrow.',
+    'daily.unavailable': 'There is no question to build today\'s challenge from yet.',
+    'daily.reportRank': '📅 Daily rank: #{rank} of {ranked}',
+    'daily.rankingButton': '📅 Daily ranking',
+    'daily.rankingTitle': '📅 Daily challenge — {day}',
+    'daily.rankingEmpty': 'Nobody played today\'s challenge yet. Be the first with /daily! 🚀',
+    'daily.score': '{correct}/{answered} · {points} pts',
+    'daily.notPlayed': 'You did not play today\'s challenge yet, start it with /daily.',
+    'daily.remindOn': '🔔 Remind me every day',
+    'daily.remindOff': '🔕 Stop reminders',
+    'daily.remindersOn': 'You will be reminded every day at {hour}:00 UTC.',
+    'daily.remindersOff': 'Daily reminders stopped.',
+    'daily.reminder': '📅 Today\'s challenge is waiting for you!',
+    'daily.play': '▶️ Play now',
+
+    'rateLimit.throttled': { one: 'Slow down a little! Try again in {count} second.', other: 'Slow down a little! Try again in {count} seconds.' },
+    'rateLimit.banned': { one: '⛔ Too many requests. You are blocked for {count} minute.', other: '⛔ Too many requests. You are blocked for {count} minutes.' },
+
+    'report.button': '🚩 Report question',
+    'report.pickReason': '🚩 What is wrong with this question?\n\n{question}',
+    'report.reason.wrong_answer': '❌ The answer is wrong',
+    'report.reason.unclear': '❓ It is unclear',
+    'report.reason.typo': '✏️ There is a typo',
+    'report.reason.outdated': '📅 It is outdated',
+    'report.cancel': '↩️ Never mind',
+    'report.cancelled': 'No report sent.',
+    'report.thanks': '🙏 Thanks! The question will be reviewed.',
+    'report.already': 'You already reported this question, it is waiting for review.',
+    'report.unavailable': 'This question can no longer be reported.',
+
+    'battle.groupsOnly': 'Battles are played in groups. Add me to a group and send /battle there! ⚔️',
+    'battle.adminsOnlyStart': 'Only group admins can start a battle.',
+    'battle.adminsOnlyStop': 'Only group admins can stop a battle.',
+    'battle.usage': 'Usage: /battle [rounds, 1 to {max}] [{modes}]',
+    'battle.alreadyRunning': 'A battle is already running here. Admins can end it with /stopbattle.',
+    'battle.startError': 'Sorry, the battle could not be started. Please try again.',
+    'battle.notRunning': 'No battle is running here.',
+    'battle.intro': {
+        one: '⚔️ Quiz battle! {mode} · {count} round of {seconds}s\nEveryone answers the same question. Correct answers score points, faster ones score more.\nYour first tap counts, results come when the time is up.',
+        other: '⚔️ Quiz battle! {mode} · {count} rounds of {seconds}s\nEveryone answers the same question. Correct answers score points, faster ones score more.\nYour first tap counts, results come when the time is up.'
+    },
+    'battle.noMoreQuestions': 'No more questions available, ending the battle early.',
+    'battle.round': '⚔️ Round {round}/{rounds} · ⏱ {seconds}s',
+    'battle.roundOver': '⏱ Round {round}/{rounds} is over!',
+    'battle.answer': '✅ Answer: {answer}',
+    'battle.nobodyAnswered': 'Nobody answered this round.',
+    'battle.gotItRight': '{correct} of {count} got it right.',
+    'battle.fastest': '⚡ Fastest: {player} (+{points})',
+    'battle.scoreboard': '📊 Scoreboard',
+    'battle.noPoints': 'No points scored yet.',
+    'battle.score': '{player} — {points} pts ({correct}/{answered})',
+    'battle.overEmpty': '🏁 Battle over! Nobody answered this time.',
+    'battle.over': '🏁 Battle over!',
+    'battle.thanks': { one: 'Thanks for playing, {count} player! ⚔️', other: 'Thanks for playing, {count} players! ⚔️' },
+    'battle.roundClosed': 'This round is over.',
+    'battle.timeUp': 'Time is up! ⏱',
+    'battle.alreadyAnswered': 'You already answered this round.',
+    'battle.lockedIn': '🔒 Locked in: {choice}',
+
+    'admin.adminsOnly': 'This command is for admins only.',
+    'admin.actionAdminsOnly': 'This action is for admins only.',
+    'admin.usage': 'Usage: {usage}',
+    'admin.notFound': 'Question {id} not found.',
+    'admin.field.question': '📝 Question',
+    'admin.field.choices': '🔢 Choices',
+    'admin.field.answer': '✅ Answer',
+    'admin.field.info': 'ℹ️ Explanation',
+    'admin.field.tags': '🏷️ Tags',
+    'admin.field.difficulty': '📶 Difficulty',
+    'admin.preview.noQuestion': '(no question yet)',
+    'admin.preview.multiSelect': '☑️ Multi-select: players tick every correct choice',
+    'admin.preview.photo': '🖼️ Photo: {media}',
+    'admin.preview.document': '📎 Document: {media}',
+    'admin.preview.parseMode': '🔤 Formatted as {parseMode}',
+    'admin.preview.noExplanation': '(no explanation)',
+    'admin.preview.noTags': '(no tags)',
+    'admin.preview.difficulty': '📶 Difficulty {difficulty}',
+    'admin.preview.difficultyRated': '📶 Difficulty rated from the answers',
+    'admin.preview.retired': '🗄️ Retired on {date}',
+    'admin.prompt.question': '📝 Send the question text.',
+    'admin.prompt.choices': '🔢 Send the choices, one per line ({min} to {max}).',
+    'admin.prompt.answer': '✅ Send the number of the correct choice, or several numbers separated by commas for a multi-select question:\n{choices}',
+    'admin.prompt.info': 'ℹ️ Send the explanation shown after answering, or /skip.',
+    'admin.prompt.tags': '🏷️ Send the tags, separated by commas.\nKnown tags: {tags}',
+    'admin.prompt.difficulty': '📶 Send the difficulty, {levels} or {names}, or /skip to rate it from the answers.',
+    'admin.editing': '✏️ Editing question',
+    'admin.adding': '➕ New question',
+    'admin.fixFirst': '⚠️ Fix these before saving:',
+    'admin.problems': '⚠️ Problems:',
+    'admin.save': '💾 Save',
+    'admin.cancel': '❌ Cancel',
+    'admin.error.emptyQuestion': 'The question cannot be empty.',
+    'admin.error.choiceCount': 'Send {min} to {max} choices, one per line. Got {count}.',
+    'admin.error.uniqueChoices': 'Choices must be unique.',
+    'admin.error.answerNumber': 'Send a number between 1 and {count}, or several separated by commas.',
+    'admin.error.unknownTags': 'Unknown tags: {tags}.\nKnown tags: {known}',
+    'admin.error.difficulty': 'Send {levels} or {names}.',
+    'admin.addIntro': 'Let\'s add a question. Send /cancel at any time to stop.',
+    'admin.alreadyRetired': 'This question is already retired.',
+    'admin.retireConfirm': 'Retire this question? Players will no longer get it.\n\n{preview}',
+    'admin.retire': '🗄️ Retire',
+    'admin.markReviewed': '✅ Mark reports reviewed',
+    'admin.importUsage': 'Send a .json, .csv or .yaml file as a document with /import as its caption. Use /import --dry-run to only check the file.',
+    'admin.importUnsupported': '⚠️ Unsupported file type. {usage}',
+    'admin.importTooLarge': '⚠️ The file is too large, the limit is {size} KB.',
+    'admin.importUnreadable': '⚠️ Could not read the file: {error}',
+    'admin.cancelled': 'Cancelled.',
+    'admin.skipOnly': 'Only the explanation and the difficulty can be skipped.',
+    'admin.nothingToEdit': 'Nothing to edit. Start again with /addquestion or /editquestion.',
+    'admin.nothingToSave': 'Nothing to save.',
+    'admin.notValidYet': 'The question is not valid yet.',
+    'admin.saveFailed': 'Saving failed, please try again.',
+    'admin.saved': '💾 Saved',
+    'admin.questionSaved': '💾 Question saved.\n\n{preview}',
+    'admin.retired': '🗄️ Retired',
+    'admin.questionRetired': '🗄️ Question retired.\n\n{preview}',
+    'admin.reportsResolved': { one: '✅ {count} report marked reviewed', other: '✅ {count} reports marked reviewed' },
+    'admin.cancelledShort': 'Cancelled',
+
+    'qstats.title': '📊 Question statistics',
+    'qstats.overview': {
+        one: '{count} active question, served {served} times, {rate} correct of {answered} answers',
+        other: '{count} active questions, served {served} times, {rate} correct of {answered} answers'
+    },
+    'qstats.noneFlagged': '✅ No question is flagged.',
+    'qstats.flagged': { one: '🚩 {count} flagged question:', other: '🚩 {count} flagged questions:' },
+    'qstats.detailHint': 'Send /qstats <question id> for the details of a question.',
+    'qstats.served': 'Served {count}',
+    'qstats.correctOf': '{rate} correct of {answered}',
+    'qstats.average': '{seconds}s on average',
+    'qstats.timeouts': { one: '⏰ {count} timeout, {unanswered} not answered', other: '⏰ {count} timeouts, {unanswered} not answered' },
+    'qstats.suspectKey': '⚠️ Most picked: "{choice}" ({picks}), over the key "{key}" ({keyPicks})',
+    'qstats.reported': '🚩 Reported: {reasons}',
+    'qstats.reason.wrong_answer': '{count} wrong answer',
+    'qstats.reason.unclear': '{count} unclear',
+    'qstats.reason.typo': '{count} typo',
+    'qstats.reason.outdated': '{count} outdated',
+    'qstats.tooHard': '🧗 Too hard: {rate} correct',
+    'qstats.tooEasy': '😴 Too easy: {rate} correct',
+
+    'import.dryRun': '🧪 Dry run, nothing was saved',
+    'import.finished': '📥 Import finished',
+    'import.counts': 'Rows: {rows} · ➕ {created} created · ✏️ {updated} updated · = {unchanged} unchanged · ⚠️ {invalid} invalid',
+    'import.failedCount': ' · ❌ {failed} failed',
+    'import.row': 'Row {row}:',
+    'import.rowWithKey': 'Row {row} ({key}):',
+    'import.error.notObject': 'Row must be an object',
+    'import.error.unknownFields': 'Unknown fields: {fields}',
+    'import.error.notText': '{field} must be text',
+    'import.error.notList': '{field} must be a list of texts',
+    'import.error.notIndexes': 'answer_indexes must be a list of choice numbers',
+    'import.error.notLevel': 'difficulty "{value}" is not a level, expected 1 to 3 or {names}',
+    'import.error.notTranslations': 'translations must be an object by locale',
+    'import.error.notNumber': 'answer_index "{value}" is not a number',
+    'import.error.notDate': 'retired_date "{value}" is not a date',
+    'import.error.duplicateKey': 'Duplicate key, already used by row {row}',
+    'import.error.saveFailed': 'Saving failed',
+
+    'validation.emptyQuestion': 'Question text is empty',
+    'validation.choiceCount': 'Expected {min} to {max} choices, got {count}',
+    'validation.emptyChoice': 'Choices cannot be empty',
+    'validation.uniqueChoices': 'Choices must be unique',
+    'validation.missingAnswerIndex': 'answer_index is missing',
+    'validation.answerIndexRange': 'answer_index {index} is out of range',
+    'validation.answerMismatch': 'answer "{answer}" does not match choice {index} "{choice}"',
+    'validation.unknownTags': 'Unknown tags: {tags}',
+    'validation.difficultyRange': 'difficulty {difficulty} is out of range, expected {levels}',
+    'validation.noAnswerIndexes': 'answer_indexes must list at least one choice',
+    'validation.answerIndexesRange': 'answer_indexes {indexes} out of range',
+    'validation.uniqueAnswerIndexes': 'answer_indexes must be unique',
+    'validation.multiSelectAnswer': 'Multi-select questions use answer_indexes, leave answer_index and answer empty',
+    'validation.mediaPair': 'media and media_type go together',
+    'validation.mediaType': 'media_type "{mediaType}" is unknown, expected one of {types}',
+    'validation.media': 'media must be a Telegram file_id or an http(s) URL',
+    'validation.parseMode': 'parse_mode "{parseMode}" is unknown, expected one of {modes}',
+    'validation.htmlTags': 'Telegram does not support the HTML tags: {tags}',
+    'validation.markdown': 'MarkdownV2 text has unescaped or unclosed characters: {chars}, escape them with \\',
+    'validation.translationLocale': 'Unknown translation locale "{locale}", expected one of {locales}',
+    'validation.translationObject': 'Translation {locale} must be an object',
+    'validation.translationFields': 'Translation {locale} has unknown fields: {fields}',
+    'validation.translationQuestion': 'Translation {locale} question must be a non-empty text',
+    'validation.translationInfo': 'Translation {locale} answer_info must be text',
+    'validation.translationChoices': 'Translation {locale} choices must be a list of non-empty texts',
+    'validation.translationChoiceCount': 'Translation {locale} has {count} choices, expected {expected}'
+};
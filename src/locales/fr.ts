@@ -0,0 +1,328 @@
+import type { Catalogue } from '../services/i18n';
+
+export const fr: Catalogue = {
+    'mode.mixed': '🎲 Mixte',
+    'mode.dev': '👩‍💻 Dev',
+    'mode.user': '👤 Utilisateur',
+    'mode.review': '🔁 Révision',
+
+    'level.beginner': '🌱 Débutant',
+    'level.intermediate': '🌿 Intermédiaire',
+    'level.expert': '🌳 Expert',
+    'level.adaptive': '📈 Adaptatif',
+
+    'language.name': '🇫🇷 Français',
+    'language.choose': '🌐 Choisissez la langue du bot :',
+    'language.auto': '📱 Langue de Telegram',
+    'language.set': 'Langue choisie : {language}.',
+    'language.setAuto': 'Le bot suit maintenant la langue de Telegram : {language}.',
+
+    'quiz.welcome': 'Bienvenue sur XPR Guru Bot ! 🚀\nChoisissez votre mode de jeu :',
+    'quiz.modeMixed': '🎲 Mode mixte',
+    'quiz.modeDev': '👩‍💻 Mode développeur',
+    'quiz.modeUser': '👤 Mode utilisateur',
+    'quiz.modeReview': '🔁 Revoir mes erreurs',
+    'quiz.unlimitedButton': '♾️ Illimité',
+    'quiz.timerButton': '⏱ {seconds}s',
+    'quiz.noLimitButton': '🐢 Sans limite',
+    'quiz.length': { one: '{count} question', other: '{count} questions' },
+    'quiz.unlimited': 'illimité',
+    'quiz.perQuestion': ', {seconds}s par question',
+    'quiz.askLength': 'Combien de questions voulez-vous en mode {mode} ?',
+    'quiz.askTimer': 'Combien de temps par question voulez-vous en mode {mode} ({length}) ?',
+    'quiz.askLevel': 'Quelle difficulté voulez-vous en mode {mode} ({length}{timer}) ?\n📈 Adaptatif commence en intermédiaire, monte après {up} bonnes réponses d\'affilée et descend après {down} erreurs d\'affilée.',
+    'quiz.atLevel': ', {level}',
+    'quiz.topicsChoose': '🏷️ Choisissez les sujets de votre quiz, puis lancez-le :',
+    'quiz.topicsNoneSelected': 'Aucun sujet choisi pour l\'instant.',
+    'quiz.topicsLine': '🏷️ Sujets : {topics}',
+    'quiz.topicsCount': { one: '📚 {count} question correspond à ces sujets.', other: '📚 {count} questions correspondent à ces sujets.' },
+    'quiz.topicsStart': '▶️ Lancer',
+    'quiz.topicsClear': '🧹 Effacer',
+    'quiz.topicsEmpty': 'Il n\'y a encore aucun sujet à choisir.',
+    'quiz.topicUnavailable': 'Ce sujet n\'est plus disponible.',
+    'quiz.topicsPickFirst': 'Choisissez d\'abord au moins un sujet.',
+    'quiz.topicsNoQuestions': 'Aucune question ne correspond à ces sujets.',
+    'quiz.askLengthTopics': { one: 'Combien de questions voulez-vous sur {topics} ? {count} question est disponible.', other: 'Combien de questions voulez-vous sur {topics} ? {count} questions sont disponibles.' },
+    'quiz.nothingToReview': 'Rien à réviser pour l\'instant ! 🧠\nLes questions manquées dans les autres modes reviennent ici selon une répétition espacée.',
+    'quiz.starting': 'Lancement du mode {mode}...',
+    'quiz.started': 'Session lancée en mode {mode} ({length}{timer}{level}) !\nID de session : {sessionId}',
+    'quiz.progress': 'Question {number}{total} ! 🔄\nScore actuel : {correct}/{answered} correctes',
+    'quiz.countdown': '⏱ {seconds}s restantes',
+    'quiz.timeUp': '⏱ Temps écoulé !',
+    'quiz.resumeOffer': 'Vous avez un quiz en cours en mode {mode} : {answered}{total} répondues, {correct} correctes.\nLe reprendre ou en commencer un nouveau ?',
+    'quiz.resume': '▶️ Reprendre',
+    'quiz.startOver': '🗑️ Recommencer',
+    'quiz.abandoned': 'Quiz abandonné',
+    'quiz.nextQuestion': 'Question suivante ⏭️',
+    'quiz.finish': '🏁 Terminer',
+    'quiz.startAgain': '🔄 Rejouer',
+    'quiz.leaderboard': '🏆 Classement',
+    'quiz.correct': '✅ Correct !',
+    'quiz.correctPoints': { one: '✅ Correct ! +{count} point', other: '✅ Correct ! +{count} points' },
+    'quiz.wrong': '❌ Faux !',
+    'quiz.question': '📝 Question : {question}',
+    'quiz.yourAnswer': '🤔 Votre réponse : {answer}',
+    'quiz.correctAnswer': '✨ Bonne réponse : {answer}',
+    'quiz.correctChoice': '✨ Bonne réponse : {answer} (bouton {position})',
+    'quiz.yourAnswers': '🤔 Vos réponses : {answers}',
+    'quiz.correctAnswers': '✨ Bonnes réponses : {answers}',
+    'quiz.choiceOnButton': '{answer} (bouton {position})',
+    'quiz.multiSelectHint': '☑️ Plusieurs réponses sont correctes : cochez-les toutes, puis validez.',
+    'quiz.submit': '📨 Valider la réponse',
+    'quiz.selectFirst': 'Cochez au moins une réponse avant de valider.',
+    'quiz.explanation': 'ℹ️ Explication : {explanation}',
+    'quiz.score': '📊 Score : {correct}/{answered} correctes',
+    'quiz.points': '⭐ Points : {points}',
+    'quiz.levelUp': '📈 Niveau supérieur : {level}',
+    'quiz.levelDown': '📉 Niveau inférieur : {level}',
+    'quiz.reportLevel': 'Difficulté : {level}',
+    'quiz.reportLevelReached': 'Difficulté atteinte : {level}',
+    'quiz.report': 'Session terminée ! 🎉\nQuestions répondues : {answered}\nBonnes réponses : {correct}\nPrécision : {accuracy} %\nPoints : {points}',
+    'quiz.noAnswerInTime': '⏱ pas de réponse à temps',
+    'quiz.reviewDone': 'Plus rien à réviser pour l\'instant ! 🧠',
+    'quiz.allAnswered': 'Vous avez répondu à toutes les questions de ce mode ! 🏆',
+    'quiz.allAnsweredTopics': 'Vous avez répondu à toutes les questions disponibles sur {topics} ! 🏆',
+    'quiz.allAnsweredLevel': 'Vous avez répondu à toutes les questions de niveau {level} de ce mode ! 🏆',
+    'quiz.startFirst': 'Veuillez d\'abord commencer une nouvelle session.',
+    'quiz.noSession': 'Aucune session en cours. Commencez-en une avec la commande /start.',
+    'quiz.noSessionShort': 'Aucune session en cours. Veuillez d\'abord commencer une nouvelle session.',
+    'quiz.createError': 'Désolé, la session n\'a pas pu être créée. Veuillez réessayer.',
+    'quiz.fetchError': 'Désolé, la question n\'a pas pu être chargée. Veuillez réessayer.',
+    'quiz.sessionError': 'Erreur lors du chargement de la session. Veuillez réessayer.',
+    'quiz.unavailable': 'Cette question n\'est plus disponible.',
+    'quiz.invalidAnswer': 'Erreur : réponse invalide.',
+    'quiz.notYours': 'Cette question ne vous était pas destinée.',
+    'quiz.alreadyAnswered': 'Vous avez déjà répondu à cette question.',
+    'quiz.sessionFinished': 'Cette session est déjà terminée.',
+
+    'leaderboard.all': '🌐 Tous',
+    'leaderboard.week': 'Cette semaine',
+    'leaderboard.month': 'Ce mois-ci',
+    'leaderboard.allTime': 'Depuis toujours',
+    'leaderboard.title': '🏆 Classement — {mode} · {period}',
+    'leaderboard.minimum': { one: 'Au moins {count} question répondue pour être classé', other: 'Au moins {count} questions répondues pour être classé' },
+    'leaderboard.empty': 'Personne n\'est encore classé. Soyez le premier ! 🚀',
+    'leaderboard.anonymous': 'anonyme',
+    'leaderboard.rank': 'Votre rang : #{rank} sur {ranked} — {score}',
+    'leaderboard.missing': { one: 'Répondez à encore {count} question pour être classé.', other: 'Répondez à encore {count} questions pour être classé.' },
+
+    'stats.empty': 'Vous n\'avez encore répondu à aucune question. Lancez votre premier quiz avec /start ! 🚀',
+    'stats.title': '📈 Vos statistiques XPR Guru',
+    'stats.sessions': 'Sessions : {count}',
+    'stats.lifetime': 'Précision globale : {score}',
+    'stats.byMode': 'Par mode :',
+    'stats.modeLine': { one: '{mode} — {score} en {count} session', other: '{mode} — {score} en {count} sessions' },
+    'stats.byTopic': 'Par sujet :',
+    'stats.best': '🏅 Meilleure session : {correct}/{answered} en mode {mode}',
+    'stats.bestOn': '🏅 Meilleure session : {correct}/{answered} en mode {mode} le {date}',
+    'stats.trend': '📊 {count} dernières sessions : {trend}',
+    'stats.above': '📈 au-dessus de votre précision globale',
+    'stats.below': '📉 en dessous de votre précision globale',
+    'stats.level': '➡️ au niveau de votre précision globale',
+    'stats.studyNext': '📚 À revoir : {tags}',
+    'stats.missedTag': '#{tag} ({count} manquées)',
+
+    'achievement.streak': '🔥 Série de {count} jours',
+    'achievement.perfect': '💯 Sans faute {count}',
+    'achievement.row': '🎯 {count} d\'affilée',
+    'achievement.mastery': '🎓 Maître #{tag}',
+    'achievement.streakGoal': 'Jouer {count} jours d\'affilée',
+    'achievement.perfectGoal': 'Répondre à {count} questions d\'une session sans erreur',
+    'achievement.rowGoal': 'Donner {count} bonnes réponses d\'affilée',
+    'achievement.masteryGoal': 'Atteindre {accuracy} % de précision sur au moins {count} questions #{tag}',
+    'achievement.unlocked': '🎉 Succès débloqué : {name}\n{goal}',
+    'achievement.title': '🏅 Vos succès : {earned}/{total}',
+    'achievement.earned': 'Obtenus :',
+    'achievement.locked': 'À débloquer :',
+    'achievement.earnedLine': '{name} — {goal} ({date})',
+    'achievement.lockedLine': '🔒 {name} — {goal} · {progress}',
+    'achievement.progress': '{progress}/{target}',
+    'achievement.masteryProgress': '{accuracy} % sur {progress}/{target}',
+    'achievement.masteryHint': '🎓 Répondez aux questions d\'un sujet pour viser sa maîtrise.',
+
+    'daily.started': '📅 Défi du {day} : {count} questions, {seconds} s chacune, les mêmes pour tous les joueurs. Une seule tentative !\nID de session : {sessionId}',
+    'daily.alreadyPlayed': 'Vous avez déjà joué le défi du jour : {correct}/{answered} bonnes réponses, {points} points.\nVoyez votre classement avec /dailyrank, un nouveau défi arrive demain.',
+    'daily.unavailable': 'Il n\'y a pas encore de question pour construire le défi du jour.',
+    'daily.reportRank': '📅 Classement du jour : #{rank} sur {ranked}',
+    'daily.rankingButton': '📅 Classement du jour',
+    'daily.rankingTitle': '📅 Défi du jour — {day}',
+    'daily.rankingEmpty': 'Personne n\'a encore joué le défi du jour. Soyez le premier avec /daily ! 🚀',
+    'daily.score': '{correct}/{answered} · {points} pts',
+    'daily.notPlayed': 'Vous n\'avez pas encore joué le défi du jour, lancez-le avec /daily.',
+    'daily.remindOn': '🔔 Me le rappeler chaque jour',
+    'daily.remindOff': '🔕 Arrêter les rappels',
+    'daily.remindersOn': 'Vous recevrez un rappel chaque jour à {hour} h UTC.',
+    'daily.remindersOff': 'Rappels quotidiens arrêtés.',
+    'daily.reminder': '📅 Le défi du jour vous attend !',
+    'daily.play': '▶️ Jouer maintenant',
+
+    'rateLimit.throttled': { one: 'Doucement ! Réessayez dans {count} seconde.', other: 'Doucement ! Réessayez dans {count} secondes.' },
+    'rateLimit.banned': { one: '⛔ Trop de requêtes. Vous êtes bloqué pendant {count} minute.', other: '⛔ Trop de requêtes. Vous êtes bloqué pendant {count} minutes.' },
+
+    'report.button': '🚩 Signaler la question',
+    'report.pickReason': '🚩 Quel est le problème avec cette question ?\n\n{question}',
+    'report.reason.wrong_answer': '❌ La réponse est fausse',
+    'report.reason.unclear': '❓ Elle n\'est pas claire',
+    'report.reason.typo': '✏️ Il y a une faute',
+    'report.reason.outdated': '📅 Elle n\'est plus à jour',
+    'report.cancel': '↩️ Laisser tomber',
+    'report.cancelled': 'Aucun signalement envoyé.',
+    'report.thanks': '🙏 Merci ! La question sera revue.',
+    'report.already': 'Vous avez déjà signalé cette question, elle attend d\'être revue.',
+    'report.unavailable': 'Cette question ne peut plus être signalée.',
+
+    'battle.groupsOnly': 'Les batailles se jouent en groupe. Ajoutez-moi à un groupe et envoyez-y /battle ! ⚔️',
+    'battle.adminsOnlyStart': 'Seuls les admins du groupe peuvent lancer une bataille.',
+    'battle.adminsOnlyStop': 'Seuls les admins du groupe peuvent arrêter une bataille.',
+    'battle.usage': 'Utilisation : /battle [manches, de 1 à {max}] [{modes}]',
+    'battle.alreadyRunning': 'Une bataille est déjà en cours ici. Les admins peuvent l\'arrêter avec /stopbattle.',
+    'battle.startError': 'Désolé, la bataille n\'a pas pu être lancée. Veuillez réessayer.',
+    'battle.notRunning': 'Aucune bataille en cours ici.',
+    'battle.intro': {
+        one: '⚔️ Bataille de quiz ! {mode} · {count} manche de {seconds}s\nTout le monde répond à la même question. Les bonnes réponses rapportent des points, les plus rapides en rapportent plus.\nSeul votre premier choix compte, les résultats arrivent à la fin du temps.',
+        other: '⚔️ Bataille de quiz ! {mode} · {count} manches de {seconds}s\nTout le monde répond à la même question. Les bonnes réponses rapportent des points, les plus rapides en rapportent plus.\nSeul votre premier choix compte, les résultats arrivent à la fin du temps.'
+    },
+    'battle.noMoreQuestions': 'Plus de questions disponibles, la bataille se termine plus tôt.',
+    'battle.round': '⚔️ Manche {round}/{rounds} · ⏱ {seconds}s',
+    'battle.roundOver': '⏱ Fin de la manche {round}/{rounds} !',
+    'battle.answer': '✅ Réponse : {answer}',
+    'battle.nobodyAnswered': 'Personne n\'a répondu à cette manche.',
+    'battle.gotItRight': '{correct} sur {count} ont trouvé.',
+    'battle.fastest': '⚡ Le plus rapide : {player} (+{points})',
+    'battle.scoreboard': '📊 Tableau des scores',
+    'battle.noPoints': 'Aucun point marqué pour l\'instant.',
+    'battle.score': '{player} — {points} pts ({correct}/{answered})',
+    'battle.overEmpty': '🏁 Bataille terminée ! Personne n\'a répondu cette fois.',
+    'battle.over': '🏁 Bataille terminée !',
+    'battle.thanks': { one: 'Merci d\'avoir joué, {count} joueur ! ⚔️', other: 'Merci d\'avoir joué, {count} joueurs ! ⚔️' },
+    'battle.roundClosed': 'Cette manche est terminée.',
+    'battle.timeUp': 'Temps écoulé ! ⏱',
+    'battle.alreadyAnswered': 'Vous avez déjà répondu à cette manche.',
+    'battle.lockedIn': '🔒 Réponse enregistrée : {choice}',
+
+    'admin.adminsOnly': 'Cette commande est réservée aux admins.',
+    'admin.actionAdminsOnly': 'Cette action est réservée aux admins.',
+    'admin.usage': 'Utilisation : {usage}',
+    'admin.notFound': 'Question {id} introuvable.',
+    'admin.field.question': '📝 Question',
+    'admin.field.choices': '🔢 Choix',
+    'admin.field.answer': '✅ Réponse',
+    'admin.field.info': 'ℹ️ Explication',
+    'admin.field.tags': '🏷️ Tags',
+    'admin.field.difficulty': '📶 Difficulté',
+    'admin.preview.noQuestion': '(pas encore de question)',
+    'admin.preview.multiSelect': '☑️ Choix multiple : les joueurs cochent chaque bon choix',
+    'admin.preview.photo': '🖼️ Photo : {media}',
+    'admin.preview.document': '📎 Document : {media}',
+    'admin.preview.parseMode': '🔤 Mis en forme en {parseMode}',
+    'admin.preview.noExplanation': '(pas d\'explication)',
+    'admin.preview.noTags': '(pas de tags)',
+    'admin.preview.difficulty': '📶 Difficulté {difficulty}',
+    'admin.preview.difficultyRated': '📶 Difficulté évaluée d\'après les réponses',
+    'admin.preview.retired': '🗄️ Retirée le {date}',
+    'admin.prompt.question': '📝 Envoyez le texte de la question.',
+    'admin.prompt.choices': '🔢 Envoyez les choix, un par ligne ({min} à {max}).',
+    'admin.prompt.answer': '✅ Envoyez le numéro du bon choix, ou plusieurs numéros séparés par des virgules pour une question à choix multiple :\n{choices}',
+    'admin.prompt.info': 'ℹ️ Envoyez l\'explication affichée après la réponse, ou /skip.',
+    'admin.prompt.tags': '🏷️ Envoyez les tags, séparés par des virgules.\nTags connus : {tags}',
+    'admin.prompt.difficulty': '📶 Envoyez la difficulté, {levels} ou {names}, ou /skip pour l\'évaluer d\'après les réponses.',
+    'admin.editing': '✏️ Modification de la question',
+    'admin.adding': '➕ Nouvelle question',
+    'admin.fixFirst': '⚠️ À corriger avant d\'enregistrer :',
+    'admin.problems': '⚠️ Problèmes :',
+    'admin.save': '💾 Enregistrer',
+    'admin.cancel': '❌ Annuler',
+    'admin.error.emptyQuestion': 'La question ne peut pas être vide.',
+    'admin.error.choiceCount': 'Envoyez {min} à {max} choix, un par ligne. Reçu : {count}.',
+    'admin.error.uniqueChoices': 'Les choix doivent être différents.',
+    'admin.error.answerNumber': 'Envoyez un numéro entre 1 et {count}, ou plusieurs séparés par des virgules.',
+    'admin.error.unknownTags': 'Tags inconnus : {tags}.\nTags connus : {known}',
+    'admin.error.difficulty': 'Envoyez {levels} ou {names}.',
+    'admin.addIntro': 'Ajoutons une question. Envoyez /cancel à tout moment pour arrêter.',
+    'admin.alreadyRetired': 'Cette question est déjà retirée.',
+    'admin.retireConfirm': 'Retirer cette question ? Les joueurs ne la recevront plus.\n\n{preview}',
+    'admin.retire': '🗄️ Retirer',
+    'admin.markReviewed': '✅ Marquer les signalements comme revus',
+    'admin.importUsage': 'Envoyez un fichier .json, .csv ou .yaml en document avec /import comme légende. Utilisez /import --dry-run pour seulement vérifier le fichier.',
+    'admin.importUnsupported': '⚠️ Type de fichier non pris en charge. {usage}',
+    'admin.importTooLarge': '⚠️ Le fichier est trop gros, la limite est de {size} Ko.',
+    'admin.importUnreadable': '⚠️ Impossible de lire le fichier : {error}',
+    'admin.cancelled': 'Annulé.',
+    'admin.skipOnly': 'Seules l\'explication et la difficulté peuvent être passées.',
+    'admin.nothingToEdit': 'Rien à modifier. Recommencez avec /addquestion ou /editquestion.',
+    'admin.nothingToSave': 'Rien à enregistrer.',
+    'admin.notValidYet': 'La question n\'est pas encore valide.',
+    'admin.saveFailed': 'L\'enregistrement a échoué, veuillez réessayer.',
+    'admin.saved': '💾 Enregistrée',
+    'admin.questionSaved': '💾 Question enregistrée.\n\n{preview}',
+    'admin.retired': '🗄️ Retirée',
+    'admin.questionRetired': '🗄️ Question retirée.\n\n{preview}',
+    'admin.reportsResolved': { one: '✅ {count} signalement marqué comme revu', other: '✅ {count} signalements marqués comme revus' },
+    'admin.cancelledShort': 'Annulé',
+
+    'qstats.title': '📊 Statistiques des questions',
+    'qstats.overview': {
+        one: '{count} question active, servie {served} fois, {rate} de bonnes réponses sur {answered}',
+        other: '{count} questions actives, servies {served} fois, {rate} de bonnes réponses sur {answered}'
+    },
+    'qstats.noneFlagged': '✅ Aucune question n\'est signalée.',
+    'qstats.flagged': { one: '🚩 {count} question signalée :', other: '🚩 {count} questions signalées :' },
+    'qstats.detailHint': 'Envoyez /qstats <id de question> pour le détail d\'une question.',
+    'qstats.served': 'Servie {count} fois',
+    'qstats.correctOf': '{rate} de bonnes réponses sur {answered}',
+    'qstats.average': '{seconds}s en moyenne',
+    'qstats.timeouts': { one: '⏰ {count} temps écoulé, {unanswered} sans réponse', other: '⏰ {count} temps écoulés, {unanswered} sans réponse' },
+    'qstats.suspectKey': '⚠️ Le plus choisi : « {choice} » ({picks}), devant la bonne réponse « {key} » ({keyPicks})',
+    'qstats.reported': '🚩 Signalée : {reasons}',
+    'qstats.reason.wrong_answer': '{count} réponse fausse',
+    'qstats.reason.unclear': '{count} pas claire',
+    'qstats.reason.typo': '{count} faute',
+    'qstats.reason.outdated': '{count} plus à jour',
+    'qstats.tooHard': '🧗 Trop difficile : {rate} de bonnes réponses',
+    'qstats.tooEasy': '😴 Trop facile : {rate} de bonnes réponses',
+
+    'import.dryRun': '🧪 Essai à blanc, rien n\'a été enregistré',
+    'import.finished': '📥 Import terminé',
+    'import.counts': 'Lignes : {rows} · ➕ {created} créées · ✏️ {updated} mises à jour · = {unchanged} inchangées · ⚠️ {invalid} invalides',
+    'import.failedCount': ' · ❌ {failed} en échec',
+    'import.row': 'Ligne {row} :',
+    'import.rowWithKey': 'Ligne {row} ({key}) :',
+    'import.error.notObject': 'La ligne doit être un objet',
+    'import.error.unknownFields': 'Champs inconnus : {fields}',
+    'import.error.notText': '{field} doit être du texte',
+    'import.error.notList': '{field} doit être une liste de textes',
+    'import.error.notIndexes': 'answer_indexes doit être une liste de numéros de choix',
+    'import.error.notLevel': 'difficulty « {value} » n\'est pas un niveau, attendu 1 à 3 ou {names}',
+    'import.error.notTranslations': 'translations doit être un objet par langue',
+    'import.error.notNumber': 'answer_index « {value} » n\'est pas un nombre',
+    'import.error.notDate': 'retired_date « {value} » n\'est pas une date',
+    'import.error.duplicateKey': 'Clé en double, déjà utilisée par la ligne {row}',
+    'import.error.saveFailed': 'L\'enregistrement a échoué',
+
+    'validation.emptyQuestion': 'Le texte de la question est vide',
+    'validation.choiceCount': '{min} à {max} choix attendus, {count} reçus',
+    'validation.emptyChoice': 'Les choix ne peuvent pas être vides',
+    'validation.uniqueChoices': 'Les choix doivent être différents',
+    'validation.missingAnswerIndex': 'answer_index est manquant',
+    'validation.answerIndexRange': 'answer_index {index} est hors limites',
+    'validation.answerMismatch': 'answer « {answer} » ne correspond pas au choix {index} « {choice} »',
+    'validation.unknownTags': 'Tags inconnus : {tags}',
+    'validation.difficultyRange': 'difficulty {difficulty} est hors limites, attendu {levels}',
+    'validation.noAnswerIndexes': 'answer_indexes doit lister au moins un choix',
+    'validation.answerIndexesRange': 'answer_indexes {indexes} hors limites',
+    'validation.uniqueAnswerIndexes': 'answer_indexes doivent être différents',
+    'validation.multiSelectAnswer': 'Les questions à choix multiple utilisent answer_indexes, laissez answer_index et answer vides',
+    'validation.mediaPair': 'media et media_type vont ensemble',
+    'validation.mediaType': 'media_type « {mediaType} » est inconnu, attendu parmi {types}',
+    'validation.media': 'media doit être un file_id Telegram ou une URL http(s)',
+    'validation.parseMode': 'parse_mode « {parseMode} » est inconnu, attendu parmi {modes}',
+    'validation.htmlTags': 'Telegram ne prend pas en charge les balises HTML : {tags}',
+    'validation.markdown': 'Le texte MarkdownV2 a des caractères non échappés ou non fermés : {chars}, échappez-les avec \\',
+    'validation.translationLocale': 'Langue de traduction « {locale} » inconnue, attendu parmi {locales}',
+    'validation.translationObject': 'La traduction {locale} doit être un objet',
+    'validation.translationFields': 'La traduction {locale} a des champs inconnus : {fields}',
+    'validation.translationQuestion': 'La question de la traduction {locale} doit être un texte non vide',
+    'validation.translationInfo': 'answer_info de la traduction {locale} doit être du texte',
+    'validation.translationChoices': 'Les choix de la traduction {locale} doivent être une liste de textes non vides',
+    'validation.translationChoiceCount': 'La traduction {locale} a {count} choix, {expected} attendus'
+};
@@ -0,0 +1,70 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { Telegraf } from 'telegraf';
+import { BotDeps, SessionContext } from './interfaces/bot';
+
+// Where Telegram posts the updates, and the token it sends along to prove it is Telegram
+export interface WebhookOptions {
+    path: string;
+    secretToken: string;
+}
+
+// Helper function to send a plain text response
+function replyText(res: ServerResponse, status: number, text: string, contentType = 'text/plain; charset=utf-8'): void {
+    res.writeHead(status, { 'Content-Type': contentType });
+    res.end(text);
+}
+
+// HTTP server for the probes and the metrics, and for the updates when the bot runs on a webhook
+export function createHttpServer(
+    bot: Telegraf<SessionContext>,
+    { storage, metrics }: Pick<BotDeps, 'storage' | 'metrics'>,
+    webhook: WebhookOptions | null = null
+): Server {
+    const handleUpdate = webhook ? bot.webhookCallback(webhook.path, { secretToken: webhook.secretToken }) : null;
+
+    // Helper function to answer everything that is not a valid webhook update
+    async function route(req: IncomingMessage, res: ServerResponse): Promise<void> {
+        const path = (req.url || '/').split('?')[0];
+
+        if (webhook && path === webhook.path) {
+            // Wrong secret token, or not a POST
+            replyText(res, 403, 'forbidden');
+            return;
+        }
+        if (req.method !== 'GET') {
+            replyText(res, 405, 'method not allowed');
+            return;
+        }
+
+        switch (path) {
+            case '/healthz':
+                replyText(res, 200, 'ok');
+                return;
+            case '/readyz':
+                if (await storage.health.ping()) {
+                    replyText(res, 200, 'ready');
+                } else {
+                    replyText(res, 503, 'storage unavailable');
+                }
+                return;
+            case '/metrics':
+                replyText(res, 200, metrics.render(), 'text/plain; version=0.0.4; charset=utf-8');
+                return;
+            default:
+                replyText(res, 404, 'not found');
+        }
+    }
+
+    return createServer((req, res) => {
+        const handled = handleUpdate
+            ? handleUpdate(req, res, () => route(req, res))
+            : route(req, res);
+
+        handled.catch((err) => {
+            console.error('Error handling HTTP request:', err);
+            if (!res.headersSent) {
+                replyText(res, 500, 'internal error');
+            }
+        });
+    });
+}
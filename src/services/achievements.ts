@@ -0,0 +1,194 @@
+import { Session, SessionHistoryEntry } from '../interfaces/session';
+import { Storage } from '../interfaces/storage';
+import { Translate } from './i18n';
+import { SESSION_MODES } from './modes';
+
+export type AchievementKind = 'streak' | 'perfect' | 'row' | 'mastery';
+
+// Days in a row with at least one answer
+export const STREAK_DAYS = [3, 7, 30];
+
+// Questions of a session answered without a miss
+export const PERFECT_SESSION_SIZE = 10;
+
+// Correct answers in a row, across sessions
+export const ANSWER_ROWS = [10, 25, 50];
+
+// Answers on a topic and accuracy over them to master it
+export const MASTERY_MIN_ANSWERS = 20;
+export const MASTERY_ACCURACY = 0.8;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// What an achievement asks for: a number of days, questions or answers, and the topic of a mastery
+export interface AchievementGoal {
+    kind: AchievementKind;
+    target: number;
+    tag?: string;
+}
+
+// An achievement with the player's progress towards it
+export interface Badge extends AchievementGoal {
+    // Stored in the achievements table, e.g. "streak:7" or "mastery:staking"
+    code: string;
+    progress: number;
+    earned: boolean;
+    // Accuracy on the topic of a mastery, from 0 to 1
+    accuracy?: number;
+}
+
+// Helper function to build the code of an achievement
+export function achievementCode(goal: AchievementGoal): string {
+    return goal.kind === 'mastery' ? `mastery:${goal.tag}` : `${goal.kind}:${goal.target}`;
+}
+
+// Helper function to read an achievement code back, null for codes this version does not know
+export function parseAchievementCode(code: string): AchievementGoal | null {
+    const [kind, value] = code.split(/:(.*)/);
+    if (kind === 'mastery' && value) {
+        return { kind, target: MASTERY_MIN_ANSWERS, tag: value };
+    }
+
+    const target = Number(value);
+    if ((kind === 'streak' || kind === 'perfect' || kind === 'row') && Number.isInteger(target) && target > 0) {
+        return { kind, target };
+    }
+    return null;
+}
+
+// Helper function to give an achievement its code and the player's progress
+function toBadge(goal: AchievementGoal, progress: number, earned: boolean): Badge {
+    return { ...goal, code: achievementCode(goal), progress, earned };
+}
+
+// Helper function to get the longest run of consecutive days, and the run that is still going on the given day
+function dayStreaks(days: string[], today: string): { longest: number, current: number } {
+    let longest = 0;
+    let run = 0;
+    let previous: number | undefined;
+
+    for (const day of [...new Set(days)].sort()) {
+        const time = Date.parse(day);
+        run = previous !== undefined && time - previous === DAY_MS ? run + 1 : 1;
+        longest = Math.max(longest, run);
+        previous = time;
+    }
+
+    // A streak is still going when the player played today or yesterday
+    const current = previous !== undefined && Date.parse(today) - previous <= DAY_MS ? run : 0;
+    return { longest, current };
+}
+
+// Helper function to get the longest run of correct answers, and the one still going
+function answerRows(results: boolean[]): { longest: number, current: number } {
+    let longest = 0;
+    let current = 0;
+    for (const isCorrect of results) {
+        current = isCorrect ? current + 1 : 0;
+        longest = Math.max(longest, current);
+    }
+    return { longest, current };
+}
+
+// Helper function to work out every achievement of a player and their progress, from the sessions and answers
+// already stored; masteries are listed for the topics the player answered
+export function buildBadges(sessions: Session[], answers: SessionHistoryEntry[], now: Date): Badge[] {
+    const answered = answers
+        .filter((answer) => answer.answered_date)
+        .sort((a, b) => (a.answered_date || '').localeCompare(b.answered_date || ''));
+    const badges: Badge[] = [];
+
+    const streaks = dayStreaks(answered.map((answer) => answer.answered_date!.slice(0, 10)), now.toISOString().slice(0, 10));
+    for (const target of STREAK_DAYS) {
+        badges.push(toBadge({ kind: 'streak', target }, streaks.current, streaks.longest >= target));
+    }
+
+    // Perfect sessions so far, finished or not
+    const perfect = Math.max(0, ...sessions
+        .filter((session) => (session.questions || 0) > 0 && session.correct === session.questions)
+        .map((session) => session.questions || 0));
+    badges.push(toBadge({ kind: 'perfect', target: PERFECT_SESSION_SIZE }, perfect, perfect >= PERFECT_SESSION_SIZE));
+
+    const rows = answerRows(answered.map((answer) => !!answer.is_correct));
+    for (const target of ANSWER_ROWS) {
+        badges.push(toBadge({ kind: 'row', target }, rows.current, rows.longest >= target));
+    }
+
+    // Mode names are also used as tags, they are not topics
+    const tagCounts = new Map<string, { questions: number, correct: number }>();
+    for (const answer of answered) {
+        for (const tag of answer.questions?.tags || []) {
+            if ((SESSION_MODES as string[]).includes(tag)) {
+                continue;
+            }
+            const counts = tagCounts.get(tag) || { questions: 0, correct: 0 };
+            counts.questions += 1;
+            counts.correct += answer.is_correct ? 1 : 0;
+            tagCounts.set(tag, counts);
+        }
+    }
+
+    for (const [tag, counts] of [...tagCounts.entries()].sort(([a], [b]) => a.localeCompare(b))) {
+        const accuracy = counts.correct / counts.questions;
+        badges.push({
+            ...toBadge(
+                { kind: 'mastery', target: MASTERY_MIN_ANSWERS, tag },
+                counts.questions,
+                counts.questions >= MASTERY_MIN_ANSWERS && accuracy >= MASTERY_ACCURACY
+            ),
+            accuracy
+        });
+    }
+
+    return badges;
+}
+
+// Helper function to store the achievements a player just earned, returns the new ones
+export async function unlockAchievements(storage: Storage, tgId: string, now: Date): Promise<Badge[]> {
+    const [sessions, answers, unlocked] = await Promise.all([
+        storage.sessions.listSessions({ tgId }),
+        storage.sessions.listPlayerAnswers(tgId),
+        storage.achievements.listAchievements(tgId)
+    ]);
+    const unlockedCodes = unlocked.map((achievement) => achievement.code);
+
+    const fresh: Badge[] = [];
+    for (const badge of buildBadges(sessions, answers, now)) {
+        if (!badge.earned || unlockedCodes.includes(badge.code)) {
+            continue;
+        }
+        if (await storage.achievements.unlockAchievement({ tg_id: tgId, code: badge.code, unlocked_date: now.toISOString() })) {
+            fresh.push(badge);
+        }
+    }
+
+    return fresh;
+}
+
+// Helper function to name an achievement in the player's language
+export function formatAchievementName(t: Translate, goal: AchievementGoal): string {
+    switch (goal.kind) {
+        case 'streak':
+            return t('achievement.streak', { count: goal.target });
+        case 'perfect':
+            return t('achievement.perfect', { count: goal.target });
+        case 'row':
+            return t('achievement.row', { count: goal.target });
+        case 'mastery':
+            return t('achievement.mastery', { tag: goal.tag || '' });
+    }
+}
+
+// Helper function to describe what an achievement asks for, in the player's language
+export function formatAchievementGoal(t: Translate, goal: AchievementGoal): string {
+    switch (goal.kind) {
+        case 'streak':
+            return t('achievement.streakGoal', { count: goal.target });
+        case 'perfect':
+            return t('achievement.perfectGoal', { count: goal.target });
+        case 'row':
+            return t('achievement.rowGoal', { count: goal.target });
+        case 'mastery':
+            return t('achievement.masteryGoal', { tag: goal.tag || '', count: goal.target, accuracy: Math.round(MASTERY_ACCURACY * 100) });
+    }
+}
@@ -0,0 +1,42 @@
+import { BattleAnswer } from '../interfaces/battle';
+
+export const DEFAULT_BATTLE_ROUNDS = 5;
+export const MAX_BATTLE_ROUNDS = 20;
+export const BATTLE_ROUND_SECONDS = 20;
+
+// Pause between the scoreboard of a round and the next question
+export const BATTLE_BREAK_SECONDS = 5;
+
+export interface BattleScore {
+    tgId: string;
+    tgHandle: string;
+    points: number;
+    correct: number;
+    answered: number;
+}
+
+// Helper function to sum the answers of each participant, best first
+export function buildBattleScoreboard(answers: BattleAnswer[]): BattleScore[] {
+    const scores = new Map<string, BattleScore>();
+
+    for (const answer of answers) {
+        const score = scores.get(answer.tg_id) || {
+            tgId: answer.tg_id,
+            tgHandle: answer.tg_handle,
+            points: 0,
+            correct: 0,
+            answered: 0
+        };
+
+        score.points += answer.points;
+        score.correct += answer.is_correct ? 1 : 0;
+        score.answered += 1;
+        scores.set(answer.tg_id, score);
+    }
+
+    return [...scores.values()].sort((a, b) =>
+        b.points - a.points
+        || b.correct - a.correct
+        || a.tgHandle.localeCompare(b.tgHandle)
+    );
+}
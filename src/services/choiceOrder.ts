@@ -0,0 +1,35 @@
+// Order a question's choices are shown in for one serving: position p of the keyboard shows the
+// stored choice order[p]. Servings without one show the stored order.
+export type ChoiceOrder = number[] | null;
+
+// Helper function to draw a new order for a question with this many choices (Fisher-Yates)
+export function shuffleChoices(count: number, random: () => number = Math.random): number[] {
+    const order = Array.from({ length: count }, (_, index) => index);
+    for (let index = order.length - 1; index > 0; index--) {
+        const swap = Math.floor(random() * (index + 1));
+        [order[index], order[swap]] = [order[swap], order[index]];
+    }
+    return order;
+}
+
+// Helper function to check an order still fits the choices, which an edit of the question may have changed
+function fits(order: ChoiceOrder, count: number): order is number[] {
+    return !!order
+        && order.length === count
+        && [...order].sort((a, b) => a - b).every((choice, index) => choice === index);
+}
+
+// Helper function to put the choices in the order they were shown
+export function orderChoices<T>(choices: T[], order: ChoiceOrder): T[] {
+    return fits(order, choices.length) ? order.map((index) => choices[index]) : [...choices];
+}
+
+// Helper function to get the stored index of the choice at a position of the keyboard
+export function toAnswerIndex(order: ChoiceOrder, count: number, position: number): number {
+    return fits(order, count) ? order[position] : position;
+}
+
+// Helper function to get the position of the keyboard a stored choice was shown at
+export function toPosition(order: ChoiceOrder, count: number, answerIndex: number): number {
+    return fits(order, count) ? order.indexOf(answerIndex) : answerIndex;
+}
@@ -0,0 +1,95 @@
+import { createHash } from 'crypto';
+import { Session } from '../interfaces/session';
+
+// Questions of the daily challenge, and the seconds to answer each one
+export const DAILY_QUESTIONS = 5;
+export const DAILY_TIME_LIMIT = 30;
+
+export const DAILY_RANKING_SIZE = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DailyScore {
+    tgId: string;
+    tgHandle: string;
+    questions: number;
+    correct: number;
+    points: number;
+}
+
+export interface DailyRanking {
+    day: string;
+    top: DailyScore[];
+    ranked: number;
+    // Caller's position, null when they did not play the day's challenge
+    rank: number | null;
+    player: DailyScore | null;
+}
+
+// Helper function to get the calendar day of a date, in UTC as YYYY-MM-DD
+export function dailyDate(now: Date): string {
+    return now.toISOString().slice(0, 10);
+}
+
+// Helper function to get a pseudo-random generator that always gives the same numbers for a seed (mulberry32)
+function seededRandom(seed: string): () => number {
+    let state = createHash('sha256').update(seed).digest().readUInt32LE(0);
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let value = state;
+        value = Math.imul(value ^ (value >>> 15), value | 1);
+        value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+        return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+// Helper function to pick the questions of a day, the same ones for the same candidates and day
+export function pickDailyQuestions(questionIds: string[], day: string, count = DAILY_QUESTIONS): string[] {
+    const random = seededRandom(`daily:${day}`);
+    const shuffled = [...questionIds].sort();
+
+    // Fisher-Yates shuffle, stopped once the first count places are drawn
+    for (let index = 0; index < Math.min(count, shuffled.length); index++) {
+        const swap = index + Math.floor(random() * (shuffled.length - index));
+        [shuffled[index], shuffled[swap]] = [shuffled[swap], shuffled[index]];
+    }
+
+    return shuffled.slice(0, count);
+}
+
+// Helper function to rank the attempts at a day's challenge by points, then correct answers, then who finished first
+export function buildDailyRanking(sessions: Session[], day: string, tgId?: string, size = DAILY_RANKING_SIZE): DailyRanking {
+    const ranked = sessions
+        .filter((session) => session.tg_id && session.daily_date === day)
+        .sort((a, b) =>
+            b.points - a.points
+            || (b.correct || 0) - (a.correct || 0)
+            || (a.finished_date || a.created_date || '').localeCompare(b.finished_date || b.created_date || '')
+        )
+        .map((session): DailyScore => ({
+            tgId: session.tg_id!,
+            tgHandle: session.tg_handle,
+            questions: session.questions || 0,
+            correct: session.correct || 0,
+            points: session.points
+        }));
+
+    const index = tgId ? ranked.findIndex((score) => score.tgId === tgId) : -1;
+    return {
+        day,
+        top: ranked.slice(0, size),
+        ranked: ranked.length,
+        rank: index >= 0 ? index + 1 : null,
+        player: index >= 0 ? ranked[index] : null
+    };
+}
+
+// Helper function to get the time until the next reminder, at the given hour (UTC) today or else tomorrow
+export function nextReminderDelay(now: Date, hour: number): number {
+    const next = new Date(now);
+    next.setUTCHours(hour, 0, 0, 0);
+    if (next.getTime() <= now.getTime()) {
+        next.setTime(next.getTime() + DAY_MS);
+    }
+    return next.getTime() - now.getTime();
+}
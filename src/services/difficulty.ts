@@ -0,0 +1,73 @@
+import { MessageKey } from './i18n';
+
+export const BEGINNER = 1;
+export const INTERMEDIATE = 2;
+export const EXPERT = 3;
+
+export const DIFFICULTY_LEVELS = [BEGINNER, INTERMEDIATE, EXPERT];
+
+// Catalogue keys of the level names
+export const LEVEL_LABELS: Record<number, MessageKey> = {
+    [BEGINNER]: 'level.beginner',
+    [INTERMEDIATE]: 'level.intermediate',
+    [EXPERT]: 'level.expert'
+};
+
+// Names accepted for a difficulty in question files, next to the level numbers
+export const DIFFICULTY_NAMES: Record<string, number> = {
+    beginner: BEGINNER,
+    intermediate: INTERMEDIATE,
+    expert: EXPERT
+};
+
+// Answers a question needs before its correct rate rates it, the question_levels view uses the same rules
+export const MIN_RATED_ANSWERS = 10;
+const BEGINNER_CORRECT_RATE = 0.75;
+const INTERMEDIATE_CORRECT_RATE = 0.4;
+
+// Adaptive sessions go up a level every this many correct answers in a row...
+export const LEVEL_UP_STREAK = 3;
+// ...and down a level every this many misses in a row
+export const LEVEL_DOWN_STREAK = 2;
+
+// Adaptive sessions start in the middle
+export const ADAPTIVE_START_LEVEL = INTERMEDIATE;
+
+// Helper function to check a value is a difficulty level
+export function isDifficulty(value: unknown): value is number {
+    return DIFFICULTY_LEVELS.includes(value as number);
+}
+
+// Helper function to rate a question from its answers, intermediate until it has enough of them
+export function rateDifficulty(answered: number, correct: number): number {
+    if (answered < MIN_RATED_ANSWERS) {
+        return INTERMEDIATE;
+    }
+
+    const correctRate = correct / answered;
+    if (correctRate >= BEGINNER_CORRECT_RATE) {
+        return BEGINNER;
+    }
+    return correctRate >= INTERMEDIATE_CORRECT_RATE ? INTERMEDIATE : EXPERT;
+}
+
+// Helper function to move an adaptive session's level after an answer, from the session's results oldest first
+export function nextLevel(level: number, results: boolean[]): number {
+    const last = results[results.length - 1];
+    if (last === undefined) {
+        return level;
+    }
+
+    let streak = 0;
+    for (let index = results.length - 1; index >= 0 && results[index] === last; index--) {
+        streak++;
+    }
+
+    if (last && streak % LEVEL_UP_STREAK === 0) {
+        return Math.min(level + 1, EXPERT);
+    }
+    if (!last && streak % LEVEL_DOWN_STREAK === 0) {
+        return Math.max(level - 1, BEGINNER);
+    }
+    return level;
+}
@@ -0,0 +1,81 @@
+import { Question, QuestionTranslations } from '../interfaces/question';
+import { en } from '../locales/en';
+import { fr } from '../locales/fr';
+
+export type Locale = 'en' | 'fr';
+
+export const SUPPORTED_LOCALES: Locale[] = ['en', 'fr'];
+
+// Questions are written in this language, and every missing message falls back to it
+export const DEFAULT_LOCALE: Locale = 'en';
+
+// A message with one text per plural category of the locale, picked with the count parameter
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+export type Message = string | PluralMessage;
+
+export type MessageKey = keyof typeof en;
+
+export type Catalogue = Record<MessageKey, Message>;
+
+export type MessageParams = Record<string, string | number>;
+
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+const CATALOGUES: Record<Locale, Partial<Catalogue>> = { en, fr };
+
+// Helper function to check a value is one of the supported locales
+export function isLocale(value: unknown): value is Locale {
+    return SUPPORTED_LOCALES.includes(value as Locale);
+}
+
+// Helper function to pick the locale of a Telegram language code such as "fr-BE", the fallback when it is not supported
+export function resolveLocale(languageCode?: string | null, fallback: Locale = DEFAULT_LOCALE): Locale {
+    const language = (languageCode || '').toLowerCase().split('-')[0];
+    return isLocale(language) ? language : fallback;
+}
+
+// Helper function to fill the {placeholders} of a text, unknown ones are left as is
+function interpolate(text: string, params: MessageParams): string {
+    return text.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+        name in params ? String(params[name]) : placeholder
+    );
+}
+
+// Helper function to get a message in a locale, falling back to English
+export function translate(locale: Locale, key: MessageKey, params: MessageParams = {}): string {
+    const message = CATALOGUES[locale]?.[key] ?? en[key];
+    if (typeof message === 'string') {
+        return interpolate(message, params);
+    }
+
+    const plural = message as PluralMessage;
+    const category = new Intl.PluralRules(locale).select(Number(params.count ?? 0));
+    return interpolate(plural[category] ?? plural.other, params);
+}
+
+// Helper function to bind translate to a locale
+export function createTranslator(locale: Locale): Translate {
+    return (key, params) => translate(locale, key, params);
+}
+
+// Helper function to show a question in a locale, each missing field falls back to English
+export function localizeQuestion<T extends Question>(question: T, locale: Locale): T {
+    const translation = (question.translations as QuestionTranslations | null)?.[locale];
+    if (!translation) {
+        return question;
+    }
+
+    // Choices only count as translated when there is one for each original choice
+    const choices = translation.choices && question.choices && translation.choices.length === question.choices.length
+        ? translation.choices
+        : question.choices;
+
+    return {
+        ...question,
+        question: translation.question || question.question,
+        choices,
+        answer: question.answer_index !== null && choices ? choices[question.answer_index] ?? question.answer : question.answer,
+        answer_info: translation.answer_info || question.answer_info
+    };
+}
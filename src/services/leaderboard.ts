@@ -0,0 +1,98 @@
+import { Session, SessionMode } from '../interfaces/session';
+
+export type LeaderboardPeriod = 'week' | 'month' | 'all';
+
+export const LEADERBOARD_PERIODS: LeaderboardPeriod[] = ['week', 'month', 'all'];
+
+// Players below this many answered questions are not ranked, so a lucky 1/1 cannot top the board
+export const MIN_LEADERBOARD_QUESTIONS = 10;
+
+export const LEADERBOARD_SIZE = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PlayerScore {
+    tgId: string;
+    tgHandle: string;
+    sessions: number;
+    questions: number;
+    correct: number;
+    accuracy: number;
+}
+
+export interface Leaderboard {
+    mode: SessionMode | 'all';
+    period: LeaderboardPeriod;
+    top: PlayerScore[];
+    ranked: number;
+    // Caller's position, null when they are not ranked
+    rank: number | null;
+    player: PlayerScore | null;
+}
+
+// Helper function to get the start of a leaderboard period, undefined for all time
+export function periodStart(period: LeaderboardPeriod, now: Date): string | undefined {
+    if (period === 'week') {
+        return new Date(now.getTime() - 7 * DAY_MS).toISOString();
+    }
+    if (period === 'month') {
+        return new Date(now.getTime() - 30 * DAY_MS).toISOString();
+    }
+    return;
+}
+
+// Helper function to sum the sessions of each player
+export function aggregatePlayers(sessions: Session[]): PlayerScore[] {
+    const players = new Map<string, PlayerScore>();
+
+    for (const session of sessions) {
+        if (!session.tg_id) {
+            continue;
+        }
+
+        const player = players.get(session.tg_id) || {
+            tgId: session.tg_id,
+            tgHandle: session.tg_handle,
+            sessions: 0,
+            questions: 0,
+            correct: 0,
+            accuracy: 0
+        };
+
+        player.sessions += 1;
+        player.questions += session.questions || 0;
+        player.correct += session.correct || 0;
+        player.accuracy = player.questions > 0 ? player.correct / player.questions : 0;
+        players.set(session.tg_id, player);
+    }
+
+    return [...players.values()];
+}
+
+// Helper function to rank players by accuracy, then by volume
+export function rankPlayers(players: PlayerScore[], minQuestions = MIN_LEADERBOARD_QUESTIONS): PlayerScore[] {
+    return players
+        .filter((player) => player.questions >= minQuestions)
+        .sort((a, b) => b.accuracy - a.accuracy || b.questions - a.questions || b.correct - a.correct);
+}
+
+// Helper function to build a leaderboard from sessions that already match the mode and period
+export function buildLeaderboard(
+    sessions: Session[],
+    mode: SessionMode | 'all',
+    period: LeaderboardPeriod,
+    callerTgId?: string
+): Leaderboard {
+    const players = aggregatePlayers(sessions);
+    const ranked = rankPlayers(players);
+    const index = ranked.findIndex((player) => player.tgId === callerTgId);
+
+    return {
+        mode,
+        period,
+        top: ranked.slice(0, LEADERBOARD_SIZE),
+        ranked: ranked.length,
+        rank: index >= 0 ? index + 1 : null,
+        player: players.find((player) => player.tgId === callerTgId) || null
+    };
+}
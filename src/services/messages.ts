@@ -0,0 +1,26 @@
+// Telegram rejects messages longer than 4096 characters
+export const MAX_MESSAGE_LENGTH = 4096;
+
+// Helper function to split long text on line breaks so each part fits in one message
+export function splitMessage(text: string, maxLength = MAX_MESSAGE_LENGTH): string[] {
+    const parts: string[] = [];
+    let current = '';
+
+    for (const line of text.split('\n')) {
+        const candidate = current ? `${current}\n${line}` : line;
+        if (candidate.length <= maxLength) {
+            current = candidate;
+            continue;
+        }
+        if (current) {
+            parts.push(current);
+        }
+        current = line.slice(0, maxLength);
+    }
+
+    if (current) {
+        parts.push(current);
+    }
+
+    return parts;
+}
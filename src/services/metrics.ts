@@ -0,0 +1,112 @@
+// Counters exposed on /metrics, by the name used in the code
+export type CounterName = 'updates' | 'answers' | 'sessionsCreated' | 'sessionsFinished' | 'handlerErrors' | 'rateLimited';
+
+export type HistogramName = 'storageDuration';
+
+export type Labels = Record<string, string>;
+
+export interface Metrics {
+    increment(counter: CounterName, labels?: Labels): void;
+    observe(histogram: HistogramName, seconds: number, labels?: Labels): void;
+    // Every metric in the Prometheus text format
+    render(): string;
+}
+
+interface MetricInfo {
+    name: string;
+    help: string;
+}
+
+const COUNTERS: Record<CounterName, MetricInfo> = {
+    updates: { name: 'xpr_guru_updates_total', help: 'Telegram updates handled, by update type' },
+    answers: { name: 'xpr_guru_answers_total', help: 'Quiz answers scored, by result' },
+    sessionsCreated: { name: 'xpr_guru_sessions_created_total', help: 'Quiz sessions created, by mode' },
+    sessionsFinished: { name: 'xpr_guru_sessions_finished_total', help: 'Quiz sessions closed, by status' },
+    handlerErrors: { name: 'xpr_guru_handler_errors_total', help: 'Errors caught while handling an update, by update type' },
+    rateLimited: { name: 'xpr_guru_rate_limited_total', help: 'Updates refused by the rate limits, by action and reason' }
+};
+
+const HISTOGRAMS: Record<HistogramName, MetricInfo> = {
+    storageDuration: { name: 'xpr_guru_storage_duration_seconds', help: 'Time spent in storage calls, by repository and method' }
+};
+
+// Upper bounds of the latency buckets, in seconds
+export const DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5];
+
+interface HistogramSeries {
+    buckets: number[];
+    sum: number;
+    count: number;
+}
+
+// Helper function to write a label set the way Prometheus expects it, also used as the key of a series
+function formatLabels(labels: Labels): string {
+    const pairs = Object.keys(labels)
+        .sort()
+        .map((key) => `${key}="${labels[key].replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`);
+    return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+// Helper function to add a label to a label set already formatted
+function appendLabel(formatted: string, label: string): string {
+    return formatted ? `${formatted.slice(0, -1)},${label}}` : `{${label}}`;
+}
+
+// Metrics kept in process memory, each series created on its first use
+export function createMetrics(): Metrics {
+    const counters = new Map<CounterName, Map<string, number>>();
+    const histograms = new Map<HistogramName, Map<string, HistogramSeries>>();
+
+    function increment(counter: CounterName, labels: Labels = {}): void {
+        const series = counters.get(counter) || new Map<string, number>();
+        const key = formatLabels(labels);
+        series.set(key, (series.get(key) || 0) + 1);
+        counters.set(counter, series);
+    }
+
+    function observe(histogram: HistogramName, seconds: number, labels: Labels = {}): void {
+        const series = histograms.get(histogram) || new Map<string, HistogramSeries>();
+        const key = formatLabels(labels);
+        const values = series.get(key) || { buckets: DURATION_BUCKETS.map(() => 0), sum: 0, count: 0 };
+
+        DURATION_BUCKETS.forEach((bound, index) => {
+            if (seconds <= bound) {
+                values.buckets[index] += 1;
+            }
+        });
+        values.sum += seconds;
+        values.count += 1;
+
+        series.set(key, values);
+        histograms.set(histogram, series);
+    }
+
+    function render(): string {
+        const lines: string[] = [];
+
+        for (const [counter, info] of Object.entries(COUNTERS) as [CounterName, MetricInfo][]) {
+            lines.push(`# HELP ${info.name} ${info.help}`, `# TYPE ${info.name} counter`);
+            for (const [labels, value] of counters.get(counter) || []) {
+                lines.push(`${info.name}${labels} ${value}`);
+            }
+        }
+
+        for (const [histogram, info] of Object.entries(HISTOGRAMS) as [HistogramName, MetricInfo][]) {
+            lines.push(`# HELP ${info.name} ${info.help}`, `# TYPE ${info.name} histogram`);
+            for (const [labels, values] of histograms.get(histogram) || []) {
+                DURATION_BUCKETS.forEach((bound, index) => {
+                    lines.push(`${info.name}_bucket${appendLabel(labels, `le="${bound}"`)} ${values.buckets[index]}`);
+                });
+                lines.push(
+                    `${info.name}_bucket${appendLabel(labels, 'le="+Inf"')} ${values.count}`,
+                    `${info.name}_sum${labels} ${values.sum}`,
+                    `${info.name}_count${labels} ${values.count}`
+                );
+            }
+        }
+
+        return `${lines.join('\n')}\n`;
+    }
+
+    return { increment, observe, render };
+}
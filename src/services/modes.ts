@@ -0,0 +1,12 @@
+import { SessionMode } from '../interfaces/session';
+import { MessageKey } from './i18n';
+
+export const SESSION_MODES: SessionMode[] = ['mixed', 'dev', 'user', 'review'];
+
+// Catalogue keys of the mode names
+export const MODE_LABELS: Record<SessionMode, MessageKey> = {
+    mixed: 'mode.mixed',
+    dev: 'mode.dev',
+    user: 'mode.user',
+    review: 'mode.review'
+};
@@ -0,0 +1,245 @@
+import { Question } from '../interfaces/question';
+
+// Telegram formatting a question's text may use, the questions table accepts the same
+export const PARSE_MODES = ['MarkdownV2', 'HTML'] as const;
+
+export type ParseMode = typeof PARSE_MODES[number];
+
+// Kinds of media shown above a question, the questions table accepts the same
+export const MEDIA_TYPES = ['photo', 'document'] as const;
+
+export type MediaType = typeof MEDIA_TYPES[number];
+
+// Tags Telegram accepts in HTML messages
+export const HTML_TAGS = ['b', 'strong', 'i', 'em', 'u', 'ins', 's', 'strike', 'del', 'span', 'tg-spoiler', 'a', 'code', 'pre', 'blockquote', 'tg-emoji'];
+
+// Choices longer than this do not fit on a button, the question then lists them and the buttons show their numbers
+export const MAX_BUTTON_CHOICE_LENGTH = 30;
+
+// Characters MarkdownV2 reserves, escaped everywhere outside formatting
+const MARKDOWN_RESERVED = /[_*[\]()~`>#+\-=|{}.!\\]/g;
+
+// A question's message as sent: the text and how Telegram should format it
+export interface QuestionLayout {
+    text: string;
+    parseMode: ParseMode | undefined;
+}
+
+// The part of the Telegram client that sends media
+export interface MediaSender {
+    sendPhoto(chatId: number | string, photo: string): Promise<unknown>;
+    sendDocument(chatId: number | string, document: string): Promise<unknown>;
+}
+
+// Helper function to check a parse mode
+export function isParseMode(value: string): value is ParseMode {
+    return (PARSE_MODES as readonly string[]).includes(value);
+}
+
+// Helper function to check a media type
+export function isMediaType(value: string): value is MediaType {
+    return (MEDIA_TYPES as readonly string[]).includes(value);
+}
+
+// Helper function to get how a question's text is formatted, undefined for plain text
+export function parseModeOf(question: Pick<Question, 'parse_mode'>): ParseMode | undefined {
+    return question.parse_mode && isParseMode(question.parse_mode) ? question.parse_mode : undefined;
+}
+
+// Helper function to escape plain text, such as a header or a choice, for a message in this parse mode
+export function escapeText(text: string, parseMode: ParseMode | undefined): string {
+    switch (parseMode) {
+        case 'MarkdownV2':
+            return text.replace(MARKDOWN_RESERVED, '\\$&');
+        case 'HTML':
+            return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+        default:
+            return text;
+    }
+}
+
+// Helper function to find where code opened at a position ends, skipping escaped characters; the text length when it does not
+function findCodeEnd(text: string, from: number, marker: string): number {
+    for (let index = from; index < text.length; index++) {
+        if (text[index] === '\\') {
+            index++;
+        } else if (text.startsWith(marker, index)) {
+            return index;
+        }
+    }
+    return text.length;
+}
+
+// Helper function to read MarkdownV2 as the plain text it shows, code kept as is and formatting dropped
+function stripMarkdown(text: string): string {
+    let plain = '';
+    let index = 0;
+
+    while (index < text.length) {
+        const char = text[index];
+        if (char === '\\') {
+            plain += text[index + 1] ?? '';
+            index += 2;
+        } else if (text.startsWith('```', index)) {
+            // Code blocks may name their language on the opening line
+            const end = findCodeEnd(text, index + 3, '```');
+            plain += text.slice(index + 3, end).replace(/^[\w+-]*\n/, '').replace(/\\([`\\])/g, '$1');
+            index = end + 3;
+        } else if (char === '`') {
+            const end = findCodeEnd(text, index + 1, '`');
+            plain += text.slice(index + 1, end).replace(/\\([`\\])/g, '$1');
+            index = end + 1;
+        } else if (char === ']' && text[index + 1] === '(') {
+            // Links show their text only
+            const end = text.indexOf(')', index);
+            index = end === -1 ? text.length : end + 1;
+        } else if (char === '>' && (index === 0 || text[index - 1] === '\n')) {
+            index++;
+        } else if ('*_~|['.includes(char)) {
+            index++;
+        } else {
+            plain += char;
+            index++;
+        }
+    }
+
+    return plain;
+}
+
+// Helper function to list what Telegram would refuse in a MarkdownV2 text: reserved characters left unescaped
+// outside code and links, and formatting or code left open
+export function findUnescapedMarkdown(text: string): string[] {
+    const found = new Set<string>();
+    const marks: Record<string, number> = {};
+    let openLinks = 0;
+    let index = 0;
+
+    while (index < text.length) {
+        const char = text[index];
+        if (char === '\\') {
+            index += 2;
+        } else if (text.startsWith('```', index) || char === '`') {
+            const marker = char === '`' && !text.startsWith('```', index) ? '`' : '```';
+            const end = findCodeEnd(text, index + marker.length, marker);
+            if (end === text.length) {
+                found.add(marker);
+            }
+            index = end + marker.length;
+        } else if (char === ']' && text[index + 1] === '(' && openLinks > 0) {
+            // The URL of a link only needs ) and \ escaped
+            openLinks--;
+            index = findCodeEnd(text, index + 2, ')') + 1;
+        } else if (char === '[') {
+            openLinks++;
+            index++;
+        } else if (char === '>' && (index === 0 || text[index - 1] === '\n')) {
+            index++;
+        } else if ('*_~|'.includes(char)) {
+            marks[char] = (marks[char] || 0) + 1;
+            index++;
+        } else {
+            if ('])>#+-={}.!('.includes(char)) {
+                found.add(char);
+            }
+            index++;
+        }
+    }
+
+    if (openLinks > 0) {
+        found.add('[');
+    }
+    for (const [mark, count] of Object.entries(marks)) {
+        if (count % 2 !== 0) {
+            found.add(mark);
+        }
+    }
+
+    return [...found];
+}
+
+// Helper function to turn a formatted text into the plain text it shows, for messages sent without formatting
+export function toPlainText(text: string, parseMode: ParseMode | undefined): string {
+    switch (parseMode) {
+        case 'MarkdownV2':
+            return stripMarkdown(text);
+        case 'HTML':
+            return text
+                .replace(/<[^>]*>/g, '')
+                .replace(/&lt;/g, '<')
+                .replace(/&gt;/g, '>')
+                .replace(/&quot;/g, '"')
+                .replace(/&amp;/g, '&');
+        default:
+            return text;
+    }
+}
+
+// Helper function to check whether players toggle several choices and submit them instead of tapping one
+export function isMultiSelect(question: Pick<Question, 'answer_indexes'>): boolean {
+    return !!question.answer_indexes && question.answer_indexes.length > 0;
+}
+
+// Helper function to list the indexes of a question's correct choices
+export function correctIndexes(question: Pick<Question, 'answer_index' | 'answer_indexes'>): number[] {
+    if (isMultiSelect(question)) {
+        return [...question.answer_indexes!].sort((a, b) => a - b);
+    }
+
+    return question.answer_index !== null ? [question.answer_index] : [];
+}
+
+// Helper function to score a multi-select answer, only the exact set of correct choices counts
+export function isCorrectSelection(question: Pick<Question, 'answer_index' | 'answer_indexes'>, selected: number[]): boolean {
+    const correct = correctIndexes(question);
+    const picked = [...new Set(selected)].sort((a, b) => a - b);
+    return correct.length === picked.length && correct.every((index, position) => index === picked[position]);
+}
+
+// Helper function to name the choices at these indexes, null when there is none
+export function formatChoices(choices: string[] | null, indexes: number[] | null): string | null {
+    const named = (indexes || []).map((index) => choices?.[index]).filter((choice): choice is string => choice !== undefined);
+    return named.length > 0 ? named.join(', ') : null;
+}
+
+// Helper function to check whether choices have to be listed in the message, being too long for a button
+export function needsNumberedChoices(choices: string[]): boolean {
+    return choices.some((choice) => choice.length > MAX_BUTTON_CHOICE_LENGTH || choice.includes('\n'));
+}
+
+// Helper function to get the labels of the choice buttons, their numbers when the message lists the choices
+export function choiceLabels(choices: string[]): string[] {
+    return needsNumberedChoices(choices) ? choices.map((_, index) => `${index + 1}`) : choices;
+}
+
+// Helper function to lay out a question below a header, with its choices in the order they are shown
+// and an optional line below them; only the question keeps its formatting, the rest is escaped for it
+export function layoutQuestion(header: string, question: Question, choices: string[], footer?: string): QuestionLayout {
+    const parseMode = parseModeOf(question);
+    const parts = [escapeText(header, parseMode), `❓ ${question.question}`];
+
+    if (needsNumberedChoices(choices)) {
+        parts.push(choices.map((choice, index) => escapeText(`${index + 1}. ${choice}`, parseMode)).join('\n'));
+    }
+    if (footer) {
+        parts.push(escapeText(footer, parseMode));
+    }
+
+    return { text: parts.join('\n\n'), parseMode };
+}
+
+// Helper function to send the picture or file shown above a question, the question still goes out when it fails
+export async function sendQuestionMedia(telegram: MediaSender, chatId: number | string, question: Question): Promise<void> {
+    if (!question.media || !question.media_type || !isMediaType(question.media_type)) {
+        return;
+    }
+
+    try {
+        if (question.media_type === 'photo') {
+            await telegram.sendPhoto(chatId, question.media);
+        } else {
+            await telegram.sendDocument(chatId, question.media);
+        }
+    } catch (err) {
+        console.error('Error sending question media:', err);
+    }
+}
@@ -0,0 +1,196 @@
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import { Question } from '../interfaces/question';
+
+export type QuestionFormat = 'json' | 'csv' | 'yaml';
+
+export const QUESTION_FORMATS: QuestionFormat[] = ['json', 'csv', 'yaml'];
+
+// Columns of the CSV layout, lists are joined with LIST_SEPARATOR, written \| inside an item;
+// translations only fit the JSON and YAML layouts
+export const CSV_COLUMNS = [
+    'key', 'question', 'choices', 'answer_index', 'answer', 'answer_info', 'tags', 'retired_date', 'difficulty',
+    'answer_indexes', 'media_type', 'media', 'parse_mode'
+] as const;
+
+// Columns of the CSV layout read as lists
+const CSV_LIST_COLUMNS = ['choices', 'tags', 'answer_indexes'];
+
+const LIST_SEPARATOR = '|';
+
+// A row as read from a file, before validation
+export type RawQuestionRow = Record<string, unknown>;
+
+// Helper function to pick the format from a file name
+export function detectFormat(fileName: string): QuestionFormat | undefined {
+    const extension = fileName.toLowerCase().split('.').pop();
+    if (extension === 'json') {
+        return 'json';
+    }
+    if (extension === 'csv') {
+        return 'csv';
+    }
+    if (extension === 'yaml' || extension === 'yml') {
+        return 'yaml';
+    }
+    return;
+}
+
+// Helper function to split CSV text into records, following RFC 4180 quoting
+export function parseCsv(content: string): string[][] {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let index = 0; index < content.length; index++) {
+        const char = content[index];
+
+        if (quoted) {
+            if (char === '"' && content[index + 1] === '"') {
+                field += '"';
+                index++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+            continue;
+        }
+
+        if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            record.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && content[index + 1] === '\n') {
+                index++;
+            }
+            record.push(field);
+            records.push(record);
+            record = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+
+    if (field || record.length > 0) {
+        record.push(field);
+        records.push(record);
+    }
+
+    // Spreadsheets often end with blank lines
+    return records.filter((row) => row.some((value) => value.trim() !== ''));
+}
+
+// Helper function to quote a CSV field when needed
+function escapeCsv(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// Helper function to turn a CSV cell into a list, \| is a separator kept in the item and \\ a backslash;
+// other backslashes are kept as they are
+function splitList(value: string): string[] {
+    const items: string[] = [];
+    let item = '';
+
+    for (let index = 0; index < value.length; index++) {
+        const char = value[index];
+        const next = value[index + 1];
+        if (char === '\\' && (next === LIST_SEPARATOR || next === '\\')) {
+            item += next;
+            index++;
+        } else if (char === LIST_SEPARATOR) {
+            items.push(item);
+            item = '';
+        } else {
+            item += char;
+        }
+    }
+    items.push(item);
+
+    return items.map((entry) => entry.trim()).filter(Boolean);
+}
+
+// Helper function to join a list into a CSV cell, escaping what splitList would read as a separator
+function joinList(items: unknown[]): string {
+    return items.map((item) => String(item).replace(/[\\|]/g, '\\$&')).join(LIST_SEPARATOR);
+}
+
+// Helper function to read question rows from a file's content
+export function parseQuestions(content: string, format: QuestionFormat): RawQuestionRow[] {
+    if (format === 'csv') {
+        const [header, ...records] = parseCsv(content);
+        if (!header) {
+            return [];
+        }
+
+        const columns = header.map((column) => column.trim());
+        return records.map((record) => {
+            const row: RawQuestionRow = {};
+            columns.forEach((column, index) => {
+                // Empty cells clear the field, columns left out keep what is stored
+                const value = (record[index] ?? '').trim();
+                if (value === '') {
+                    row[column] = null;
+                    return;
+                }
+                row[column] = CSV_LIST_COLUMNS.includes(column) ? splitList(value) : value;
+            });
+            return row;
+        });
+    }
+
+    const parsed = format === 'json' ? JSON.parse(content) : parseYaml(content);
+    if (!Array.isArray(parsed)) {
+        throw new Error(`Expected a list of questions at the top level of the ${format.toUpperCase()} file`);
+    }
+
+    return parsed;
+}
+
+// Helper function to keep only the exported fields of a question, in a stable order
+function toExportRow(question: Question) {
+    return {
+        key: question.key,
+        question: question.question,
+        choices: question.choices || [],
+        answer_index: question.answer_index,
+        answer: question.answer,
+        answer_info: question.answer_info,
+        tags: question.tags || [],
+        retired_date: question.retired_date,
+        difficulty: question.difficulty,
+        translations: question.translations,
+        answer_indexes: question.answer_indexes,
+        media_type: question.media_type,
+        media: question.media,
+        parse_mode: question.parse_mode
+    };
+}
+
+// Helper function to write questions in one of the import formats
+export function serializeQuestions(questions: Question[], format: QuestionFormat): string {
+    const rows = questions.map(toExportRow);
+
+    if (format === 'json') {
+        return `${JSON.stringify(rows, null, 4)}\n`;
+    }
+
+    if (format === 'yaml') {
+        return stringifyYaml(rows);
+    }
+
+    const lines = [CSV_COLUMNS.join(',')];
+    for (const row of rows) {
+        lines.push(CSV_COLUMNS.map((column) => {
+            const value = row[column];
+            if (Array.isArray(value)) {
+                return escapeCsv(joinList(value));
+            }
+            return escapeCsv(value === null || value === undefined ? '' : String(value));
+        }).join(','));
+    }
+    return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,295 @@
+import { createHash } from 'crypto';
+import { Json } from '../interfaces/db_sheme';
+import { Question, QuestionInsert } from '../interfaces/question';
+import { Storage } from '../interfaces/storage';
+import { DIFFICULTY_NAMES } from './difficulty';
+import { createTranslator, DEFAULT_LOCALE, Translate } from './i18n';
+import { RawQuestionRow } from './questionFormats';
+import { validateQuestion } from './questionValidation';
+
+export type ImportStatus = 'created' | 'updated' | 'unchanged' | 'invalid' | 'failed';
+
+export interface ImportRowResult {
+    // 1-based position of the row in the file, not counting the CSV header
+    row: number;
+    key: string | null;
+    status: ImportStatus;
+    errors: string[];
+}
+
+export interface ImportReport {
+    dryRun: boolean;
+    rows: ImportRowResult[];
+    counts: Record<ImportStatus, number>;
+}
+
+export interface ImportOptions {
+    dryRun?: boolean;
+    knownTags: string[];
+    // Language of the problems reported, English by default
+    t?: Translate;
+}
+
+const IMPORT_FIELDS = [
+    'key', 'question', 'choices', 'answer_index', 'answer', 'answer_indexes', 'answer_info', 'tags', 'retired_date', 'difficulty',
+    'translations', 'media_type', 'media', 'parse_mode'
+];
+
+// Fields compared to decide whether an existing question changed
+const COMPARED_FIELDS = [
+    'question', 'choices', 'answer_index', 'answer', 'answer_indexes', 'answer_info', 'tags', 'retired_date', 'difficulty',
+    'translations', 'media_type', 'media', 'parse_mode'
+] as const;
+
+// Helper function to derive a stable key for questions imported without one
+export function deriveQuestionKey(questionText: string): string {
+    const normalized = questionText.trim().toLowerCase().replace(/\s+/g, ' ');
+    return `q-${createHash('sha1').update(normalized).digest('hex').slice(0, 12)}`;
+}
+
+// Helper function to find the key of a stored question
+function keyOf(question: Question): string {
+    return question.key || deriveQuestionKey(question.question);
+}
+
+// Helper function to find the key a row is imported under, null when it has neither a key nor a question
+function keyOfRow(row: RawQuestionRow): string | null {
+    if (!row || typeof row !== 'object' || Array.isArray(row)) {
+        return null;
+    }
+
+    const key = typeof row.key === 'string' || typeof row.key === 'number' ? String(row.key).trim() : '';
+    const question = typeof row.question === 'string' ? row.question.trim() : '';
+    return key || (question ? deriveQuestionKey(question) : null);
+}
+
+// Helper function to read an optional text field, reporting wrong types
+function readText(t: Translate, row: RawQuestionRow, field: string, errors: string[]): string | null {
+    const value = row[field];
+    if (value === undefined || value === null) {
+        return null;
+    }
+    if (typeof value !== 'string' && typeof value !== 'number') {
+        errors.push(t('import.error.notText', { field }));
+        return null;
+    }
+    return String(value);
+}
+
+// Helper function to read an optional list of texts, reporting wrong types
+function readList(t: Translate, row: RawQuestionRow, field: string, errors: string[]): string[] | null {
+    const value = row[field];
+    if (value === undefined || value === null) {
+        return null;
+    }
+    if (!Array.isArray(value) || value.some((item) => typeof item !== 'string' && typeof item !== 'number')) {
+        errors.push(t('import.error.notList', { field }));
+        return null;
+    }
+    return value.map(String);
+}
+
+// Helper function to read the optional correct choices of a multi-select question, checked by validateQuestion
+function readIndexes(t: Translate, row: RawQuestionRow, errors: string[]): number[] | null {
+    const value = row.answer_indexes;
+    if (value === undefined || value === null) {
+        return null;
+    }
+
+    const indexes = Array.isArray(value) ? value.map((item) => typeof item === 'boolean' ? NaN : Number(item)) : [NaN];
+    if (indexes.some((index) => Number.isNaN(index))) {
+        errors.push(t('import.error.notIndexes'));
+        return null;
+    }
+    return indexes;
+}
+
+// Helper function to read the optional difficulty, a level number or its name, checked by validateQuestion
+function readDifficulty(t: Translate, row: RawQuestionRow, errors: string[]): number | null {
+    const value = row.difficulty;
+    if (value === undefined || value === null) {
+        return null;
+    }
+
+    const named = DIFFICULTY_NAMES[String(value).trim().toLowerCase()];
+    const difficulty = named ?? Number(value);
+    if (typeof value === 'boolean' || Number.isNaN(difficulty)) {
+        errors.push(t('import.error.notLevel', { value: String(value), names: Object.keys(DIFFICULTY_NAMES).join(', ') }));
+        return null;
+    }
+    return difficulty;
+}
+
+// Helper function to read the optional translations, an object by locale checked by validateQuestion
+function readTranslations(t: Translate, row: RawQuestionRow, errors: string[]): Json | null {
+    const value = row.translations;
+    if (value === undefined || value === null) {
+        return null;
+    }
+    if (typeof value !== 'object' || Array.isArray(value)) {
+        errors.push(t('import.error.notTranslations'));
+        return null;
+    }
+    return value as Json;
+}
+
+// Helper function to turn a row read from a file into a question, returns the problems found;
+// the fields a row leaves out keep the value of the existing question it updates
+export function toQuestionInsert(
+    t: Translate,
+    row: RawQuestionRow,
+    knownTags: string[],
+    existing?: Question
+): { question: QuestionInsert, errors: string[] } {
+    const errors: string[] = [];
+
+    if (!row || typeof row !== 'object' || Array.isArray(row)) {
+        return { question: { question: '' }, errors: [t('import.error.notObject')] };
+    }
+
+    const unknownFields = Object.keys(row).filter((field) => !IMPORT_FIELDS.includes(field));
+    if (unknownFields.length > 0) {
+        errors.push(t('import.error.unknownFields', { fields: unknownFields.join(', ') }));
+    }
+
+    // Helper function to read a field, or keep the stored value when the row leaves it out
+    const keep = <T>(field: keyof Question, read: () => T): T => existing && row[field] === undefined
+        ? existing[field] as T
+        : read();
+
+    const choices = keep('choices', () => readList(t, row, 'choices', errors));
+
+    // The correct choices are kept or replaced together, a row may switch a question to multi-select
+    const answerGiven = ['answer_index', 'answer', 'answer_indexes'].some((field) => row[field] !== undefined);
+    let answerIndex: number | null = null;
+    let answer: string | null = null;
+    let answerIndexes: number[] | null = null;
+    if (existing && !answerGiven) {
+        answerIndex = existing.answer_index;
+        answer = existing.answer;
+        answerIndexes = existing.answer_indexes;
+    } else {
+        const rawIndex = row.answer_index;
+        if (rawIndex !== undefined && rawIndex !== null) {
+            answerIndex = Number(rawIndex);
+            if (typeof rawIndex === 'boolean' || Number.isNaN(answerIndex)) {
+                errors.push(t('import.error.notNumber', { value: String(rawIndex) }));
+                answerIndex = null;
+            }
+        }
+
+        // The answer text can be left out, it follows from answer_index
+        answer = readText(t, row, 'answer', errors)
+            ?? (answerIndex !== null && choices ? choices[answerIndex] ?? null : null);
+        answerIndexes = readIndexes(t, row, errors);
+    }
+
+    const question: QuestionInsert = {
+        key: readText(t, row, 'key', errors)?.trim() || null,
+        question: keep('question', () => readText(t, row, 'question', errors)?.trim() || ''),
+        choices,
+        answer_index: answerIndex,
+        answer,
+        answer_indexes: answerIndexes,
+        answer_info: keep('answer_info', () => readText(t, row, 'answer_info', errors)),
+        tags: keep('tags', () => readList(t, row, 'tags', errors)),
+        retired_date: keep('retired_date', () => readText(t, row, 'retired_date', errors)),
+        difficulty: keep('difficulty', () => readDifficulty(t, row, errors)),
+        translations: keep('translations', () => readTranslations(t, row, errors)),
+        media_type: keep('media_type', () => readText(t, row, 'media_type', errors)?.trim() || null),
+        media: keep('media', () => readText(t, row, 'media', errors)?.trim() || null),
+        parse_mode: keep('parse_mode', () => readText(t, row, 'parse_mode', errors)?.trim() || null)
+    };
+
+    if (question.retired_date && Number.isNaN(Date.parse(question.retired_date))) {
+        errors.push(t('import.error.notDate', { value: question.retired_date }));
+    }
+
+    return { question, errors: [...errors, ...validateQuestion(question, knownTags, t)] };
+}
+
+// Helper function to check whether an import would change a stored question
+function hasChanges(existing: Question, question: QuestionInsert): boolean {
+    return existing.key !== question.key
+        || COMPARED_FIELDS.some((field) => JSON.stringify(existing[field] ?? null) !== JSON.stringify(question[field] ?? null));
+}
+
+// Helper function to validate rows and upsert them by key, nothing is written on a dry run
+export async function importQuestions(
+    storage: Storage,
+    rows: RawQuestionRow[],
+    { dryRun = false, knownTags, t = createTranslator(DEFAULT_LOCALE) }: ImportOptions
+): Promise<ImportReport> {
+    const existingByKey = new Map<string, Question>();
+    for (const question of await storage.questions.listQuestions()) {
+        existingByKey.set(keyOf(question), question);
+    }
+
+    const seenKeys = new Map<string, number>();
+    const results: ImportRowResult[] = [];
+
+    for (const [index, row] of rows.entries()) {
+        const rowNumber = index + 1;
+        const key = keyOfRow(row);
+        const existing = key ? existingByKey.get(key) : undefined;
+        const { question, errors } = toQuestionInsert(t, row, knownTags, existing);
+        question.key = key;
+
+        if (key && seenKeys.has(key)) {
+            errors.push(t('import.error.duplicateKey', { row: seenKeys.get(key)! }));
+        } else if (key) {
+            seenKeys.set(key, rowNumber);
+        }
+
+        if (errors.length > 0) {
+            results.push({ row: rowNumber, key, status: 'invalid', errors });
+            continue;
+        }
+
+        if (existing && !hasChanges(existing, question)) {
+            results.push({ row: rowNumber, key, status: 'unchanged', errors: [] });
+            continue;
+        }
+
+        const status: ImportStatus = existing ? 'updated' : 'created';
+        if (!dryRun) {
+            const saved = existing
+                ? await storage.questions.updateQuestion(existing.id, question)
+                : await storage.questions.createQuestion(question);
+            if (!saved) {
+                results.push({ row: rowNumber, key, status: 'failed', errors: [t('import.error.saveFailed')] });
+                continue;
+            }
+        }
+
+        results.push({ row: rowNumber, key, status, errors: [] });
+    }
+
+    const counts: Record<ImportStatus, number> = { created: 0, updated: 0, unchanged: 0, invalid: 0, failed: 0 };
+    for (const result of results) {
+        counts[result.status]++;
+    }
+
+    return { dryRun, rows: results, counts };
+}
+
+// Helper function to write the import report as plain text
+export function formatImportReport(t: Translate, report: ImportReport): string {
+    const { counts } = report;
+    const lines = [
+        t(report.dryRun ? 'import.dryRun' : 'import.finished'),
+        t('import.counts', { rows: report.rows.length, ...counts })
+            + (counts.failed > 0 ? t('import.failedCount', { failed: counts.failed }) : '')
+    ];
+
+    const problems = report.rows.filter((result) => result.errors.length > 0);
+    if (problems.length > 0) {
+        lines.push('');
+    }
+    for (const result of problems) {
+        lines.push(result.key ? t('import.rowWithKey', { row: result.row, key: result.key }) : t('import.row', { row: result.row }));
+        lines.push(...result.errors.map((error) => `  • ${error}`));
+    }
+
+    return lines.join('\n');
+}
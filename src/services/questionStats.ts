@@ -0,0 +1,276 @@
+import { Question } from '../interfaces/question';
+import { QuestionChoiceStats, QuestionReport } from '../interfaces/storage';
+import { MIN_RATED_ANSWERS } from './difficulty';
+import { MessageKey, Translate } from './i18n';
+import { correctIndexes, isMultiSelect, parseModeOf, toPlainText } from './questionContent';
+
+// Reasons players give when reporting a question, the question_reports table accepts the same
+export const REPORT_REASONS = ['wrong_answer', 'unclear', 'typo', 'outdated'] as const;
+
+export type ReportReason = typeof REPORT_REASONS[number];
+
+// Catalogue keys of the report counts, as admins read them
+const REASON_LABELS: Record<ReportReason, MessageKey> = {
+    wrong_answer: 'qstats.reason.wrong_answer',
+    unclear: 'qstats.reason.unclear',
+    typo: 'qstats.reason.typo',
+    outdated: 'qstats.reason.outdated'
+};
+
+// Correct rates past which a question with enough answers is too easy or too hard to teach anything
+const TOO_EASY_RATE = 0.95;
+const TOO_HARD_RATE = 0.2;
+
+// Why a question needs an author's attention, in the order they are listed
+export type QuestionFlag = 'suspectKey' | 'reported' | 'tooHard' | 'tooEasy';
+
+const FLAG_ORDER: QuestionFlag[] = ['suspectKey', 'reported', 'tooHard', 'tooEasy'];
+
+export interface QuestionStats {
+    served: number;
+    // Picks and timeouts
+    answered: number;
+    correct: number;
+    timeouts: number;
+    // Times each choice was picked, by index; each choice submitted for a multi-select question counts
+    picks: number[];
+    // Seconds it took to pick a choice, null when nobody did
+    averageSeconds: number | null;
+}
+
+export interface QuestionReview {
+    question: Question;
+    stats: QuestionStats;
+    flags: QuestionFlag[];
+    // Open reports by reason
+    reports: Partial<Record<ReportReason, number>>;
+}
+
+// Helper function to check a report reason
+export function isReportReason(value: string): value is ReportReason {
+    return (REPORT_REASONS as readonly string[]).includes(value);
+}
+
+// Helper function to add up the served rows of a question
+export function buildQuestionStats(question: Question, rows: QuestionChoiceStats[]): QuestionStats {
+    const stats: QuestionStats = {
+        served: 0,
+        answered: 0,
+        correct: 0,
+        timeouts: 0,
+        picks: (question.choices || []).map(() => 0),
+        averageSeconds: null
+    };
+    let pickSeconds = 0;
+
+    for (const row of rows.filter((candidate) => candidate.question_id === question.id)) {
+        stats.served += row.count;
+        if (row.is_correct === null) {
+            continue;
+        }
+
+        stats.answered += row.count;
+        if (row.is_correct) {
+            stats.correct += row.count;
+        }
+        const picked = row.answer_indexes ?? (row.answer_index !== null ? [row.answer_index] : []);
+        if (picked.length === 0) {
+            stats.timeouts += row.count;
+            continue;
+        }
+
+        // Picks of a choice removed since are still answers, they just have no choice to count under
+        for (const index of picked) {
+            if (index < stats.picks.length) {
+                stats.picks[index] += row.count;
+            }
+        }
+        pickSeconds += row.total_seconds;
+    }
+
+    const picked = stats.answered - stats.timeouts;
+    stats.averageSeconds = picked > 0 ? pickSeconds / picked : null;
+    return stats;
+}
+
+// Helper function to get the wrong choice picked the most, null when no wrong choice was picked
+function mostPickedWrongChoice(question: Question, stats: QuestionStats): number | null {
+    const correct = correctIndexes(question);
+    let mostPicked: number | null = null;
+    stats.picks.forEach((picks, index) => {
+        if (!correct.includes(index) && picks > 0 && (mostPicked === null || picks > stats.picks[mostPicked])) {
+            mostPicked = index;
+        }
+    });
+    return mostPicked;
+}
+
+// Helper function to get the correct choice picked the least, null when the question has no key
+function leastPickedKey(question: Question, stats: QuestionStats): number | null {
+    const correct = correctIndexes(question);
+    return correct.length > 0
+        ? correct.reduce((least, index) => (stats.picks[index] ?? 0) < (stats.picks[least] ?? 0) ? index : least)
+        : null;
+}
+
+// Helper function to tell why a question needs attention, rates only count once it has enough answers
+export function flagQuestion(question: Question, stats: QuestionStats, reportCount: number): QuestionFlag[] {
+    const flags: QuestionFlag[] = [];
+    const rated = stats.answered >= MIN_RATED_ANSWERS;
+
+    // A wrong choice beating the key usually means the key is wrong, not that the players are;
+    // multi-select questions are suspect as soon as it beats one of their correct choices
+    const wrongChoice = mostPickedWrongChoice(question, stats);
+    const key = leastPickedKey(question, stats);
+    const keyPicks = key !== null ? stats.picks[key] ?? 0 : 0;
+    if (rated && wrongChoice !== null && stats.picks[wrongChoice] > keyPicks) {
+        flags.push('suspectKey');
+    }
+    if (reportCount > 0) {
+        flags.push('reported');
+    }
+    if (rated && stats.correct / stats.answered <= TOO_HARD_RATE) {
+        flags.push('tooHard');
+    }
+    if (rated && stats.correct / stats.answered >= TOO_EASY_RATE) {
+        flags.push('tooEasy');
+    }
+
+    return flags;
+}
+
+// Helper function to review every question, the flagged ones first, the most served first
+export function reviewQuestions(questions: Question[], rows: QuestionChoiceStats[], reports: QuestionReport[]): QuestionReview[] {
+    return questions
+        .map((question) => {
+            const stats = buildQuestionStats(question, rows);
+            const questionReports: Partial<Record<ReportReason, number>> = {};
+            const reported = reports.filter((report) => report.question_id === question.id);
+            for (const report of reported) {
+                if (isReportReason(report.reason)) {
+                    questionReports[report.reason] = (questionReports[report.reason] || 0) + 1;
+                }
+            }
+            return { question, stats, flags: flagQuestion(question, stats, reported.length), reports: questionReports };
+        })
+        .sort((a, b) => {
+            const aRank = a.flags.length > 0 ? FLAG_ORDER.indexOf(a.flags[0]) : FLAG_ORDER.length;
+            const bRank = b.flags.length > 0 ? FLAG_ORDER.indexOf(b.flags[0]) : FLAG_ORDER.length;
+            return aRank - bRank || b.stats.served - a.stats.served;
+        });
+}
+
+// Helper function to format a rate as a whole percentage
+function formatPercent(count: number, total: number): string {
+    return `${total > 0 ? Math.round((count / total) * 100) : 0}%`;
+}
+
+// Helper function to shorten a question for the lists
+function truncate(text: string, maxLength = 80): string {
+    return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+// Helper function to sum up a question's answers on one line
+function formatSummary(t: Translate, stats: QuestionStats): string {
+    const parts = [
+        t('qstats.served', { count: stats.served }),
+        t('qstats.correctOf', { rate: formatPercent(stats.correct, stats.answered), answered: stats.answered })
+    ];
+    if (stats.averageSeconds !== null) {
+        parts.push(t('qstats.average', { seconds: stats.averageSeconds.toFixed(1) }));
+    }
+    return parts.join(' · ');
+}
+
+// Helper function to explain each flag of a question
+function formatFlags(t: Translate, review: QuestionReview): string[] {
+    const { question, stats } = review;
+
+    return review.flags.map((flag) => {
+        switch (flag) {
+            case 'suspectKey': {
+                const wrongChoice = mostPickedWrongChoice(question, stats)!;
+                const key = leastPickedKey(question, stats);
+                const keyPicks = key !== null ? stats.picks[key] ?? 0 : 0;
+                const keyText = isMultiSelect(question) ? question.choices![key!] : question.answer ?? '—';
+                return t('qstats.suspectKey', {
+                    choice: question.choices![wrongChoice],
+                    picks: stats.picks[wrongChoice],
+                    key: keyText,
+                    keyPicks
+                });
+            }
+            case 'reported':
+                return t('qstats.reported', {
+                    reasons: Object.entries(review.reports)
+                        .map(([reason, count]) => t(REASON_LABELS[reason as ReportReason], { count }))
+                        .join(', ')
+                });
+            case 'tooHard':
+                return t('qstats.tooHard', { rate: formatPercent(stats.correct, stats.answered) });
+            case 'tooEasy':
+                return t('qstats.tooEasy', { rate: formatPercent(stats.correct, stats.answered) });
+        }
+    });
+}
+
+// Helper function to build the /qstats report of the question bank, detailing the flagged questions
+export function formatQuestionStatsReport(t: Translate, reviews: QuestionReview[]): string {
+    const served = reviews.reduce((sum, review) => sum + review.stats.served, 0);
+    const answered = reviews.reduce((sum, review) => sum + review.stats.answered, 0);
+    const correct = reviews.reduce((sum, review) => sum + review.stats.correct, 0);
+    const flagged = reviews.filter((review) => review.flags.length > 0);
+
+    const lines = [
+        t('qstats.title'),
+        t('qstats.overview', { count: reviews.length, served, rate: formatPercent(correct, answered), answered }),
+        ''
+    ];
+
+    if (flagged.length === 0) {
+        lines.push(t('qstats.noneFlagged'));
+    } else {
+        lines.push(t('qstats.flagged', { count: flagged.length }));
+    }
+
+    for (const review of flagged) {
+        lines.push(
+            '',
+            `📝 ${truncate(toPlainText(review.question.question, parseModeOf(review.question)))}`,
+            `🆔 ${review.question.id}`,
+            formatSummary(t, review.stats),
+            ...formatFlags(t, review)
+        );
+    }
+
+    lines.push('', t('qstats.detailHint'));
+    return lines.join('\n');
+}
+
+// Helper function to detail the answers of one question, choice by choice
+export function formatQuestionStatsDetail(t: Translate, review: QuestionReview): string {
+    const { question, stats } = review;
+    const picked = stats.answered - stats.timeouts;
+
+    const lines = [
+        `📝 ${toPlainText(question.question, parseModeOf(question))}`,
+        `🆔 ${question.id}`,
+        '',
+        formatSummary(t, stats),
+        t('qstats.timeouts', { count: stats.timeouts, unanswered: stats.served - stats.answered }),
+        ''
+    ];
+
+    const correct = correctIndexes(question);
+    (question.choices || []).forEach((choice, index) => {
+        const key = correct.includes(index) ? ' ✅' : '';
+        lines.push(`${index + 1}. ${choice}${key} — ${stats.picks[index]} (${formatPercent(stats.picks[index], picked)})`);
+    });
+
+    const flags = formatFlags(t, review);
+    if (flags.length > 0) {
+        lines.push('', ...flags);
+    }
+
+    return lines.join('\n');
+}
@@ -0,0 +1,172 @@
+import { QuestionInsert, QuestionTranslation } from '../interfaces/question';
+import { DIFFICULTY_LEVELS, isDifficulty } from './difficulty';
+import { createTranslator, DEFAULT_LOCALE, isLocale, SUPPORTED_LOCALES, Translate } from './i18n';
+import { findUnescapedMarkdown, HTML_TAGS, isMediaType, isParseMode, MEDIA_TYPES, PARSE_MODES } from './questionContent';
+
+export const MIN_CHOICES = 2;
+export const MAX_CHOICES = 10;
+
+// Tags that select the quiz modes, always accepted
+export const MODE_TAGS = ['dev', 'user'];
+
+// Helper function to merge the tags a question may use
+export function collectKnownTags(inUse: string[], extra: string[]): string[] {
+    return [...new Set([...MODE_TAGS, ...inUse, ...extra])].sort();
+}
+
+const TRANSLATION_FIELDS = ['question', 'choices', 'answer_info'];
+
+// Helper function to check the translations of a question, one entry per supported locale
+function validateTranslations(t: Translate, translations: unknown, choiceCount: number): string[] {
+    if (translations === null || translations === undefined) {
+        return [];
+    }
+
+    const errors: string[] = [];
+    for (const [locale, value] of Object.entries(translations as Record<string, unknown>)) {
+        if (!isLocale(locale)) {
+            errors.push(t('validation.translationLocale', { locale, locales: SUPPORTED_LOCALES.join(', ') }));
+            continue;
+        }
+        if (!value || typeof value !== 'object' || Array.isArray(value)) {
+            errors.push(t('validation.translationObject', { locale }));
+            continue;
+        }
+
+        const translation = value as QuestionTranslation;
+        const unknownFields = Object.keys(translation).filter((field) => !TRANSLATION_FIELDS.includes(field));
+        if (unknownFields.length > 0) {
+            errors.push(t('validation.translationFields', { locale, fields: unknownFields.join(', ') }));
+        }
+        if (translation.question !== undefined && (typeof translation.question !== 'string' || !translation.question.trim())) {
+            errors.push(t('validation.translationQuestion', { locale }));
+        }
+        if (translation.answer_info !== undefined && typeof translation.answer_info !== 'string') {
+            errors.push(t('validation.translationInfo', { locale }));
+        }
+        if (translation.choices !== undefined) {
+            const choices = translation.choices;
+            if (!Array.isArray(choices) || choices.some((choice) => typeof choice !== 'string' || !choice.trim())) {
+                errors.push(t('validation.translationChoices', { locale }));
+            } else if (choices.length !== choiceCount) {
+                errors.push(t('validation.translationChoiceCount', { locale, count: choices.length, expected: choiceCount }));
+            }
+        }
+    }
+
+    return errors;
+}
+
+// Helper function to list the tags of an HTML text Telegram would refuse
+function findUnsupportedTags(text: string): string[] {
+    const tags = [...text.matchAll(/<\/?([\w-]+)[^>]*>/g)].map((match) => match[1].toLowerCase());
+    return [...new Set(tags.filter((tag) => !HTML_TAGS.includes(tag)))];
+}
+
+// Helper function to check the correct choices of a multi-select question
+function validateAnswerIndexes(t: Translate, question: QuestionInsert, choiceCount: number): string[] {
+    const answerIndexes = question.answer_indexes!;
+    const errors: string[] = [];
+
+    if (!Array.isArray(answerIndexes) || answerIndexes.length === 0) {
+        return [t('validation.noAnswerIndexes')];
+    }
+
+    const outOfRange = answerIndexes.filter((index) => !Number.isInteger(index) || index < 0 || index >= choiceCount);
+    if (outOfRange.length > 0) {
+        errors.push(t('validation.answerIndexesRange', { indexes: outOfRange.join(', ') }));
+    }
+    if (new Set(answerIndexes).size !== answerIndexes.length) {
+        errors.push(t('validation.uniqueAnswerIndexes'));
+    }
+    if ((question.answer_index ?? null) !== null || (question.answer ?? null) !== null) {
+        errors.push(t('validation.multiSelectAnswer'));
+    }
+
+    return errors;
+}
+
+// Helper function to check the media and formatting of a question
+function validateContent(t: Translate, question: QuestionInsert): string[] {
+    const errors: string[] = [];
+    const mediaType = question.media_type ?? null;
+    const media = question.media ?? null;
+
+    if ((mediaType === null) !== (media === null)) {
+        errors.push(t('validation.mediaPair'));
+    } else if (mediaType !== null && !isMediaType(mediaType)) {
+        errors.push(t('validation.mediaType', { mediaType, types: MEDIA_TYPES.join(', ') }));
+    } else if (media !== null && !/^(https?:\/\/\S+|[\w-]+)$/.test(media)) {
+        errors.push(t('validation.media'));
+    }
+
+    // Choices and the bot's own lines are escaped when sent, only the question texts carry formatting
+    const parseMode = question.parse_mode ?? null;
+    const translated = Object.values((question.translations || {}) as Record<string, QuestionTranslation>)
+        .map((translation) => translation?.question)
+        .filter((text): text is string => typeof text === 'string');
+    const texts = [question.question || '', ...translated];
+    if (parseMode !== null && !isParseMode(parseMode)) {
+        errors.push(t('validation.parseMode', { parseMode, modes: PARSE_MODES.join(', ') }));
+    } else if (parseMode === 'HTML') {
+        const unsupported = [...new Set(texts.flatMap(findUnsupportedTags))];
+        if (unsupported.length > 0) {
+            errors.push(t('validation.htmlTags', { tags: unsupported.join(', ') }));
+        }
+    } else if (parseMode === 'MarkdownV2') {
+        const unescaped = [...new Set(texts.flatMap(findUnescapedMarkdown))];
+        if (unescaped.length > 0) {
+            errors.push(t('validation.markdown', { chars: unescaped.join(' ') }));
+        }
+    }
+
+    return errors;
+}
+
+// Helper function to check a question against the rules scoring relies on, returns every problem found,
+// in English unless the admin reading them uses another language
+export function validateQuestion(question: QuestionInsert, knownTags: string[], t: Translate = createTranslator(DEFAULT_LOCALE)): string[] {
+    const errors: string[] = [];
+    const choices = question.choices || [];
+
+    if (!question.question || !question.question.trim()) {
+        errors.push(t('validation.emptyQuestion'));
+    }
+
+    if (choices.length < MIN_CHOICES || choices.length > MAX_CHOICES) {
+        errors.push(t('validation.choiceCount', { min: MIN_CHOICES, max: MAX_CHOICES, count: choices.length }));
+    }
+
+    if (choices.some((choice) => !choice || !choice.trim())) {
+        errors.push(t('validation.emptyChoice'));
+    }
+
+    if (new Set(choices).size !== choices.length) {
+        errors.push(t('validation.uniqueChoices'));
+    }
+
+    const answerIndex = question.answer_index;
+    if (question.answer_indexes !== null && question.answer_indexes !== undefined) {
+        errors.push(...validateAnswerIndexes(t, question, choices.length));
+    } else if (answerIndex === null || answerIndex === undefined) {
+        errors.push(t('validation.missingAnswerIndex'));
+    } else if (!Number.isInteger(answerIndex) || answerIndex < 0 || answerIndex >= choices.length) {
+        errors.push(t('validation.answerIndexRange', { index: answerIndex }));
+    } else if (question.answer !== choices[answerIndex]) {
+        errors.push(t('validation.answerMismatch', { answer: question.answer ?? '', index: answerIndex, choice: choices[answerIndex] }));
+    }
+
+    const unknownTags = (question.tags || []).filter((tag) => !knownTags.includes(tag));
+    if (unknownTags.length > 0) {
+        errors.push(t('validation.unknownTags', { tags: unknownTags.join(', ') }));
+    }
+
+    if (question.difficulty !== null && question.difficulty !== undefined && !isDifficulty(question.difficulty)) {
+        errors.push(t('validation.difficultyRange', { difficulty: question.difficulty, levels: DIFFICULTY_LEVELS.join(', ') }));
+    }
+
+    errors.push(...validateContent(t, question));
+    errors.push(...validateTranslations(t, question.translations, choices.length));
+
+    return errors;
+}
@@ -0,0 +1,190 @@
+// Kinds of updates limited separately: starting a quiz, answering, asking for the next question,
+// other commands, other button taps and plain messages
+export type RateLimitAction = 'session' | 'answer' | 'next' | 'command' | 'callback' | 'message';
+
+export const RATE_LIMIT_ACTIONS: RateLimitAction[] = ['session', 'answer', 'next', 'command', 'callback', 'message'];
+
+// A token bucket: up to capacity updates in a burst, then one more every refillSeconds
+export interface TokenBucketLimit {
+    capacity: number;
+    refillSeconds: number;
+}
+
+export interface RateLimitConfig {
+    // Buckets of each player, one per kind of update
+    user: Record<RateLimitAction, TokenBucketLimit>;
+    // Bucket of each chat, shared by everyone in it and every kind of update
+    chat: TokenBucketLimit;
+    // A player throttled this many times within strikeWindowSeconds is banned for banSeconds
+    strikes: number;
+    strikeWindowSeconds: number;
+    banSeconds: number;
+}
+
+export const DEFAULT_RATE_LIMITS: RateLimitConfig = {
+    user: {
+        session: { capacity: 3, refillSeconds: 10 },
+        answer: { capacity: 5, refillSeconds: 1 },
+        next: { capacity: 5, refillSeconds: 2 },
+        command: { capacity: 10, refillSeconds: 3 },
+        callback: { capacity: 15, refillSeconds: 1 },
+        message: { capacity: 10, refillSeconds: 2 }
+    },
+    chat: { capacity: 60, refillSeconds: 0.5 },
+    strikes: 10,
+    strikeWindowSeconds: 60,
+    banSeconds: 600
+};
+
+export type RateLimitDecision =
+    | { allowed: true }
+    | {
+        allowed: false;
+        reason: 'throttled' | 'banned';
+        retryAfterSeconds: number;
+        // Only the first update refused in a row gets a reply, so the bot does not spam back
+        notify: boolean;
+    };
+
+export interface RateLimiter {
+    check(userId: string, chatId: string | null, action: RateLimitAction, now: number): RateLimitDecision;
+}
+
+interface Bucket {
+    tokens: number;
+    updated: number;
+}
+
+interface Offender {
+    strikes: number[];
+    bannedUntil: number;
+    // Whether the player was already told about the throttle or ban going on
+    notified: boolean;
+}
+
+// Buckets and offenders kept past this many are swept of the ones back to full
+const SWEEP_THRESHOLD = 10000;
+
+// Helper function to read rate limits overriding the defaults, as an object or its JSON such as
+// {"user": {"session": {"capacity": 2, "refillSeconds": 30}}, "banSeconds": 300}
+export function parseRateLimits(value: string | object, defaults: RateLimitConfig = DEFAULT_RATE_LIMITS): RateLimitConfig {
+    const input = (typeof value === 'string' ? JSON.parse(value) : value) as Partial<Omit<RateLimitConfig, 'user'>>
+        & { user?: Partial<Record<string, TokenBucketLimit>> };
+
+    for (const key of Object.keys(input)) {
+        if (!(key in defaults)) {
+            throw new Error(`Unknown rate limit setting "${key}", expected ${Object.keys(defaults).join(', ')}`);
+        }
+    }
+
+    // Helper function to check a bucket, naming it in the error
+    function readLimit(name: string, limit: TokenBucketLimit | undefined, fallback: TokenBucketLimit): TokenBucketLimit {
+        const merged = { ...fallback, ...limit };
+        if (!(merged.capacity >= 1) || !(merged.refillSeconds > 0)) {
+            throw new Error(`Invalid rate limit for ${name}: capacity must be at least 1 and refillSeconds above 0`);
+        }
+        return merged;
+    }
+
+    for (const action of Object.keys(input.user || {})) {
+        if (!(RATE_LIMIT_ACTIONS as string[]).includes(action)) {
+            throw new Error(`Unknown rate limit action "${action}", expected ${RATE_LIMIT_ACTIONS.join(', ')}`);
+        }
+    }
+
+    const user = Object.fromEntries(RATE_LIMIT_ACTIONS.map((action) =>
+        [action, readLimit(action, input.user?.[action], defaults.user[action])]
+    )) as Record<RateLimitAction, TokenBucketLimit>;
+
+    const config = { ...defaults, ...input, user, chat: readLimit('chat', input.chat, defaults.chat) };
+    if (!(config.strikes >= 1) || !(config.strikeWindowSeconds > 0) || !(config.banSeconds >= 0)) {
+        throw new Error('Invalid rate limit bans: strikes must be at least 1, strikeWindowSeconds above 0 and banSeconds 0 or more');
+    }
+
+    return config;
+}
+
+// Token buckets and bans kept in process memory
+export function createRateLimiter(config: RateLimitConfig): RateLimiter {
+    const buckets = new Map<string, Bucket>();
+    const offenders = new Map<string, Offender>();
+
+    // Helper function to refill a bucket for the time elapsed, without going over its capacity
+    function refill(bucket: Bucket, limit: TokenBucketLimit, now: number): void {
+        const elapsed = Math.max(now - bucket.updated, 0) / 1000;
+        bucket.tokens = Math.min(limit.capacity, bucket.tokens + elapsed / limit.refillSeconds);
+        bucket.updated = now;
+    }
+
+    // Helper function to get the seconds until a bucket has a token again, 0 when it has one now
+    function waitFor(key: string, limit: TokenBucketLimit, now: number): number {
+        const bucket = buckets.get(key) || { tokens: limit.capacity, updated: now };
+        refill(bucket, limit, now);
+        buckets.set(key, bucket);
+        return bucket.tokens >= 1 ? 0 : Math.ceil((1 - bucket.tokens) * limit.refillSeconds);
+    }
+
+    // Helper function to drop what went back to its resting state, so idle players cost no memory
+    function sweep(now: number): void {
+        if (buckets.size + offenders.size < SWEEP_THRESHOLD) {
+            return;
+        }
+
+        for (const [key, bucket] of buckets) {
+            const limit = key.startsWith('chat:') ? config.chat : config.user[key.split(':')[2] as RateLimitAction];
+            refill(bucket, limit, now);
+            if (bucket.tokens >= limit.capacity) {
+                buckets.delete(key);
+            }
+        }
+        for (const [key, offender] of offenders) {
+            if (offender.bannedUntil <= now && offender.strikes.every((strike) => strike <= now - config.strikeWindowSeconds * 1000)) {
+                offenders.delete(key);
+            }
+        }
+    }
+
+    function check(userId: string, chatId: string | null, action: RateLimitAction, now: number): RateLimitDecision {
+        sweep(now);
+
+        const offender = offenders.get(userId) || { strikes: [], bannedUntil: 0, notified: false };
+        offenders.set(userId, offender);
+
+        if (offender.bannedUntil > now) {
+            const notify = !offender.notified;
+            offender.notified = true;
+            return { allowed: false, reason: 'banned', retryAfterSeconds: Math.ceil((offender.bannedUntil - now) / 1000), notify };
+        }
+
+        const userKey = `user:${userId}:${action}`;
+        const chatKey = chatId ? `chat:${chatId}` : null;
+        const retryAfterSeconds = Math.max(
+            waitFor(userKey, config.user[action], now),
+            chatKey ? waitFor(chatKey, config.chat, now) : 0
+        );
+
+        if (retryAfterSeconds === 0) {
+            // A token is taken from both buckets only when both have one
+            buckets.get(userKey)!.tokens -= 1;
+            if (chatKey) {
+                buckets.get(chatKey)!.tokens -= 1;
+            }
+            offender.notified = false;
+            return { allowed: true };
+        }
+
+        offender.strikes = [...offender.strikes.filter((strike) => strike > now - config.strikeWindowSeconds * 1000), now];
+        if (offender.strikes.length >= config.strikes) {
+            offender.strikes = [];
+            offender.bannedUntil = now + config.banSeconds * 1000;
+            offender.notified = true;
+            return { allowed: false, reason: 'banned', retryAfterSeconds: config.banSeconds, notify: true };
+        }
+
+        const notify = !offender.notified;
+        offender.notified = true;
+        return { allowed: false, reason: 'throttled', retryAfterSeconds, notify };
+    }
+
+    return { check };
+}
@@ -0,0 +1,33 @@
+import { ReviewCard } from '../interfaces/storage';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days to wait before a card in each Leitner box is due again, box 1 is due right away
+export const BOX_INTERVAL_DAYS = [0, 1, 3, 7, 14];
+
+export const MAX_BOX = BOX_INTERVAL_DAYS.length;
+
+// Helper function to schedule a card after an answer,
+// null when a correct answer needs no card because the question was never missed
+export function scheduleCard(
+    card: ReviewCard | null,
+    tgId: string,
+    questionId: string,
+    isCorrect: boolean,
+    now: Date
+): ReviewCard | null {
+    if (!card && isCorrect) {
+        return null;
+    }
+
+    // A miss sends the card back to the first box, a hit moves it one box up
+    const box = isCorrect ? Math.min((card?.box || 1) + 1, MAX_BOX) : 1;
+
+    return {
+        tg_id: tgId,
+        question_id: questionId,
+        box,
+        due_date: new Date(now.getTime() + BOX_INTERVAL_DAYS[box - 1] * DAY_MS).toISOString(),
+        reviewed_date: now.toISOString()
+    };
+}
@@ -0,0 +1,16 @@
+// A correct answer earns the base points, plus up to the speed points for answering at once
+export const CORRECT_POINTS = 500;
+export const SPEED_POINTS = 500;
+
+// Sessions without a timer score speed against this window
+export const UNTIMED_WINDOW_SECONDS = 60;
+
+// Helper function to score an answer given elapsedMs after the question was sent
+export function scoreAnswer(isCorrect: boolean, elapsedMs: number, windowMs: number): number {
+    if (!isCorrect) {
+        return 0;
+    }
+
+    const remaining = Math.min(Math.max(1 - elapsedMs / windowMs, 0), 1);
+    return CORRECT_POINTS + Math.round(SPEED_POINTS * remaining);
+}
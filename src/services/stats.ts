@@ -0,0 +1,110 @@
+import { Session, SessionHistoryEntry, SessionMode } from '../interfaces/session';
+import { SESSION_MODES } from './modes';
+
+// Number of recent sessions shown in the trend
+export const TREND_SIZE = 5;
+
+// Number of weak topics suggested for study
+export const WEAK_TAGS_SIZE = 3;
+
+export interface ScoreLine {
+    questions: number;
+    correct: number;
+    accuracy: number;
+}
+
+export interface ModeStats extends ScoreLine {
+    mode: SessionMode;
+    sessions: number;
+}
+
+export interface TagStats extends ScoreLine {
+    tag: string;
+    misses: number;
+}
+
+export interface PlayerStats extends ScoreLine {
+    sessions: number;
+    perMode: ModeStats[];
+    perTag: TagStats[];
+    best: Session | null;
+    // Accuracy of the latest sessions, oldest first
+    trend: number[];
+    weakTags: TagStats[];
+}
+
+// Helper function to compute accuracy from counts
+export function toScoreLine(questions: number, correct: number): ScoreLine {
+    return { questions, correct, accuracy: questions > 0 ? correct / questions : 0 };
+}
+
+function sessionAccuracy(session: Session): number {
+    return toScoreLine(session.questions || 0, session.correct || 0).accuracy;
+}
+
+// Helper function to build a player's stats from their sessions and answered questions
+export function buildPlayerStats(sessions: Session[], answers: SessionHistoryEntry[], trendSize = TREND_SIZE): PlayerStats {
+    const played = sessions.filter((session) => (session.questions || 0) > 0);
+    const questions = played.reduce((sum, session) => sum + (session.questions || 0), 0);
+    const correct = played.reduce((sum, session) => sum + (session.correct || 0), 0);
+
+    const perMode = SESSION_MODES
+        .map((mode) => {
+            const modeSessions = played.filter((session) => session.mode === mode);
+            return {
+                mode,
+                sessions: modeSessions.length,
+                ...toScoreLine(
+                    modeSessions.reduce((sum, session) => sum + (session.questions || 0), 0),
+                    modeSessions.reduce((sum, session) => sum + (session.correct || 0), 0)
+                )
+            };
+        })
+        .filter((line) => line.sessions > 0);
+
+    // Mode names are also used as tags, they are already covered by perMode
+    const tagCounts = new Map<string, { questions: number, correct: number }>();
+    for (const answer of answers) {
+        for (const tag of answer.questions?.tags || []) {
+            if ((SESSION_MODES as string[]).includes(tag)) {
+                continue;
+            }
+            const counts = tagCounts.get(tag) || { questions: 0, correct: 0 };
+            counts.questions += 1;
+            counts.correct += answer.is_correct ? 1 : 0;
+            tagCounts.set(tag, counts);
+        }
+    }
+
+    const perTag = [...tagCounts.entries()]
+        .map(([tag, counts]) => ({
+            tag,
+            misses: counts.questions - counts.correct,
+            ...toScoreLine(counts.questions, counts.correct)
+        }))
+        .sort((a, b) => b.questions - a.questions || a.tag.localeCompare(b.tag));
+
+    const best = [...played].sort((a, b) =>
+        sessionAccuracy(b) - sessionAccuracy(a) || (b.correct || 0) - (a.correct || 0)
+    )[0] || null;
+
+    const trend = [...played]
+        .sort((a, b) => (a.created_date || '').localeCompare(b.created_date || ''))
+        .slice(-trendSize)
+        .map(sessionAccuracy);
+
+    const weakTags = perTag
+        .filter((line) => line.misses > 0)
+        .sort((a, b) => b.misses - a.misses || a.accuracy - b.accuracy)
+        .slice(0, WEAK_TAGS_SIZE);
+
+    return {
+        sessions: played.length,
+        ...toScoreLine(questions, correct),
+        perMode,
+        perTag,
+        best,
+        trend,
+        weakTags
+    };
+}
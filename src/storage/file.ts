@@ -0,0 +1,45 @@
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { ChatState, ChatStateRepository } from '../interfaces/storage';
+
+// Conversation state kept in a JSON file, so local runs with the memory backend survive restarts
+export function createFileChatStateRepository(filePath: string): ChatStateRepository {
+    const states: Record<string, ChatState> = existsSync(filePath)
+        ? JSON.parse(readFileSync(filePath, 'utf8'))
+        : {};
+
+    // Helper function to write every state, through a temporary file so a crash cannot truncate it
+    function persist(): void {
+        const tempPath = `${filePath}.tmp`;
+        writeFileSync(tempPath, JSON.stringify(states, null, 2));
+        renameSync(tempPath, filePath);
+    }
+
+    async function getState(key: string): Promise<ChatState | null> {
+        return states[key] ? structuredClone(states[key]) : null;
+    }
+
+    async function saveState(state: ChatState): Promise<void> {
+        states[state.key] = structuredClone(state);
+        persist();
+    }
+
+    async function deleteState(key: string): Promise<void> {
+        if (states[key]) {
+            delete states[key];
+            persist();
+        }
+    }
+
+    async function deleteExpiredStates(now: string): Promise<ChatState[]> {
+        const expired = Object.values(states).filter((state) => state.expires_date <= now);
+        if (expired.length > 0) {
+            for (const state of expired) {
+                delete states[state.key];
+            }
+            persist();
+        }
+        return structuredClone(expired);
+    }
+
+    return { getState, saveState, deleteState, deleteExpiredStates };
+}
@@ -0,0 +1,30 @@
+import { readFileSync } from 'fs';
+import { createClient } from '@supabase/supabase-js';
+import { StorageConfig } from '../config';
+import { Database } from '../interfaces/db_sheme';
+import { QuestionInsert } from '../interfaces/question';
+import { Storage } from '../interfaces/storage';
+import { createFileChatStateRepository } from './file';
+import { createMemoryStorage } from './memory';
+import { createSupabaseStorage } from './supabase';
+
+export { createFileChatStateRepository } from './file';
+export { createMemoryStorage } from './memory';
+export { createSessionStore } from './sessionStore';
+export { createSupabaseStorage } from './supabase';
+
+// Build the storage selected in the configuration
+export function createStorage(config: StorageConfig): Storage {
+    if (config.backend === 'memory') {
+        const questions: QuestionInsert[] = config.questionsFile
+            ? JSON.parse(readFileSync(config.questionsFile, 'utf8'))
+            : [];
+        const storage = createMemoryStorage({ questions });
+
+        return config.stateFile
+            ? { ...storage, chatStates: createFileChatStateRepository(config.stateFile) }
+            : storage;
+    }
+
+    return createSupabaseStorage(createClient<Database>(config.supabaseUrl, config.supabaseKey));
+}
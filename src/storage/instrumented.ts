@@ -0,0 +1,72 @@
+import { Storage } from '../interfaces/storage';
+import { Metrics } from '../services/metrics';
+
+// Helper function to time every method of a repository
+function instrumentRepository<T extends object>(repositoryName: string, repository: T, metrics: Metrics): T {
+    const methods = repository as Record<string, unknown>;
+    const instrumented: Record<string, unknown> = {};
+
+    for (const [method, value] of Object.entries(methods)) {
+        if (typeof value !== 'function') {
+            instrumented[method] = value;
+            continue;
+        }
+
+        // Looked up on every call, so a method replaced later on the repository is the one timed
+        instrumented[method] = async (...args: unknown[]) => {
+            const started = performance.now();
+            try {
+                return await (methods[method] as (...callArgs: unknown[]) => Promise<unknown>)(...args);
+            } finally {
+                metrics.observe('storageDuration', (performance.now() - started) / 1000, { repository: repositoryName, method });
+            }
+        };
+    }
+
+    return instrumented as T;
+}
+
+// Storage that reports its latency, and the sessions and answers it records, to the metrics
+export function instrumentStorage(storage: Storage, metrics: Metrics): Storage {
+    const instrumented = {} as Record<keyof Storage, object>;
+    for (const [name, repository] of Object.entries(storage) as [keyof Storage, object][]) {
+        instrumented[name] = instrumentRepository(name, repository, metrics);
+    }
+
+    const sessions = instrumented.sessions as Storage['sessions'];
+    return {
+        ...(instrumented as Storage),
+        sessions: {
+            ...sessions,
+            createSession: async (newSession) => {
+                const sessionId = await sessions.createSession(newSession);
+                if (sessionId) {
+                    metrics.increment('sessionsCreated', { mode: newSession.mode || 'mixed' });
+                }
+                return sessionId;
+            },
+            finishSession: async (sessionId, finishedDate) => {
+                const finished = await sessions.finishSession(sessionId, finishedDate);
+                if (finished) {
+                    metrics.increment('sessionsFinished', { status: 'finished' });
+                }
+                return finished;
+            },
+            abandonSession: async (sessionId, abandonedDate) => {
+                const abandoned = await sessions.abandonSession(sessionId, abandonedDate);
+                if (abandoned) {
+                    metrics.increment('sessionsFinished', { status: 'abandoned' });
+                }
+                return abandoned;
+            },
+            recordAnswer: async (servedId, answer, isCorrect, answeredDate) => {
+                const recorded = await sessions.recordAnswer(servedId, answer, isCorrect, answeredDate);
+                if (recorded) {
+                    const result = answer === null ? 'expired' : isCorrect ? 'correct' : 'wrong';
+                    metrics.increment('answers', { result });
+                }
+                return recorded;
+            }
+        }
+    };
+}
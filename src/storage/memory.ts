@@ -0,0 +1,704 @@
+import { randomUUID } from 'crypto';
+import { Battle, BattleAnswer, BattleAnswerInsert, BattleInsert, BattleRound, BattleRoundInsert } from '../interfaces/battle';
+import { Database } from '../interfaces/db_sheme';
+import { Question, QuestionInsert, QuestionUpdate } from '../interfaces/question';
+import { Session, SessionHistoryEntry, SessionInsert, SessionStatus } from '../interfaces/session';
+import { ChoiceOrder } from '../services/choiceOrder';
+import { rateDifficulty } from '../services/difficulty';
+import {
+    Achievement,
+    AchievementInsert,
+    AchievementRepository,
+    BattleRepository,
+    ChatState,
+    ChatStateRepository,
+    DailyChallenge,
+    DailyChallengeInsert,
+    DailyChallengeRepository,
+    HealthRepository,
+    QuestionChoiceStats,
+    QuestionFilter,
+    QuestionReport,
+    QuestionReportInsert,
+    QuestionReportRepository,
+    QuestionRepository,
+    ReviewCard,
+    ReviewRepository,
+    SessionFilter,
+    SessionRepository,
+    Storage,
+    UserSettings,
+    UserSettingsInsert,
+    UserSettingsRepository
+} from '../interfaces/storage';
+
+type SessionQuestion = Database['public']['Tables']['session_questions']['Row'];
+type BattleRoundRow = Database['public']['Tables']['battle_rounds']['Row'];
+
+// Rows of every table, kept in process memory
+export interface MemoryTables {
+    questions: Question[];
+    sessions: Session[];
+    session_questions: SessionQuestion[];
+    review_cards: ReviewCard[];
+    battles: Battle[];
+    battle_rounds: BattleRoundRow[];
+    battle_answers: BattleAnswer[];
+    chat_states: ChatState[];
+    user_settings: UserSettings[];
+    achievements: Achievement[];
+    daily_challenges: DailyChallenge[];
+    question_reports: QuestionReport[];
+}
+
+export interface MemoryStorageOptions {
+    questions?: QuestionInsert[];
+}
+
+// Helper function to fill the defaults the database would apply to a question row
+function toQuestionRow(question: QuestionInsert): Question {
+    return {
+        answer: question.answer ?? null,
+        answer_index: question.answer_index ?? null,
+        answer_indexes: question.answer_indexes ?? null,
+        answer_info: question.answer_info ?? null,
+        choices: question.choices ?? null,
+        difficulty: question.difficulty ?? null,
+        id: question.id ?? randomUUID(),
+        key: question.key ?? null,
+        media: question.media ?? null,
+        media_type: question.media_type ?? null,
+        parse_mode: question.parse_mode ?? null,
+        question: question.question,
+        retired_date: question.retired_date ?? null,
+        tags: question.tags ?? null,
+        translations: question.translations ?? null
+    };
+}
+
+export function createMemoryQuestionRepository(tables: MemoryTables): QuestionRepository {
+    // Helper function to get the authored level of a question, else the one rated from its answers
+    function levelOf(question: Question): number {
+        if (question.difficulty !== null) {
+            return question.difficulty;
+        }
+
+        const answers = tables.session_questions.filter((entry) => entry.question_id === question.id && entry.answered_date);
+        return rateDifficulty(answers.length, answers.filter((entry) => entry.is_correct).length);
+    }
+
+    // Helper function to list the active questions matching a filter
+    function filterQuestions({ mode, excludedIds = [], level, topics, singleAnswer }: QuestionFilter): Question[] {
+        return tables.questions.filter((question) =>
+            !question.retired_date
+            && (mode === 'mixed' || (question.tags || []).includes(mode))
+            && !excludedIds.includes(question.id)
+            && (level === undefined || levelOf(question) === level)
+            && (!topics || topics.some((topic) => (question.tags || []).includes(topic)))
+            && (!singleAnswer || !question.answer_indexes)
+        );
+    }
+
+    async function getRandomQuestion(filter: QuestionFilter): Promise<Question | null | undefined> {
+        const candidates = filterQuestions(filter);
+
+        if (candidates.length === 0) {
+            return null;
+        }
+
+        return structuredClone(candidates[Math.floor(Math.random() * candidates.length)]);
+    }
+
+    async function countQuestions(filter: QuestionFilter): Promise<number> {
+        return filterQuestions(filter).length;
+    }
+
+    async function getQuestionById(questionId: string): Promise<Question | undefined> {
+        const question = tables.questions.find((row) => row.id === questionId);
+        return question && structuredClone(question);
+    }
+
+    async function listQuestions(): Promise<Question[]> {
+        return structuredClone(tables.questions);
+    }
+
+    async function createQuestion(question: QuestionInsert): Promise<Question | null> {
+        const created = toQuestionRow(question);
+        tables.questions.push(created);
+        return structuredClone(created);
+    }
+
+    async function updateQuestion(questionId: string, update: QuestionUpdate): Promise<Question | null> {
+        const question = tables.questions.find((row) => row.id === questionId);
+        if (!question) {
+            return null;
+        }
+
+        Object.assign(question, update);
+        return structuredClone(question);
+    }
+
+    async function listTags(): Promise<string[]> {
+        const tags = tables.questions
+            .filter((question) => !question.retired_date)
+            .flatMap((question) => question.tags || []);
+        return [...new Set(tags)].sort();
+    }
+
+    async function listChoiceStats(questionId?: string): Promise<QuestionChoiceStats[]> {
+        const groups = new Map<string, QuestionChoiceStats>();
+
+        for (const entry of tables.session_questions) {
+            if (questionId && entry.question_id !== questionId) {
+                continue;
+            }
+
+            const key = `${entry.question_id}:${entry.answer_index}:${entry.is_correct}:${entry.answer_indexes}`;
+            const group = groups.get(key) || {
+                question_id: entry.question_id,
+                answer_index: entry.answer_index,
+                is_correct: entry.is_correct,
+                count: 0,
+                total_seconds: 0,
+                answer_indexes: entry.answer_indexes
+            };
+            group.count++;
+            if (entry.answered_date) {
+                group.total_seconds += (new Date(entry.answered_date).getTime() - new Date(entry.served_date).getTime()) / 1000;
+            }
+            groups.set(key, group);
+        }
+
+        return [...groups.values()];
+    }
+
+    return { getRandomQuestion, countQuestions, getQuestionById, listQuestions, createQuestion, updateQuestion, listTags, listChoiceStats };
+}
+
+export function createMemorySessionRepository(tables: MemoryTables): SessionRepository {
+    const findSession = (sessionId: string) => tables.sessions.find((row) => row.id === sessionId);
+
+    async function createSession(newSession: SessionInsert): Promise<string | null> {
+        const session: Session = {
+            adaptive: newSession.adaptive ?? false,
+            correct: newSession.correct ?? null,
+            created_date: newSession.created_date ?? new Date().toISOString(),
+            daily_date: newSession.daily_date ?? null,
+            finished_date: newSession.finished_date ?? null,
+            id: newSession.id ?? randomUUID(),
+            level: newSession.level ?? null,
+            max_question: newSession.max_question ?? null,
+            mode: newSession.mode ?? 'mixed',
+            points: newSession.points ?? 0,
+            questions: newSession.questions ?? null,
+            status: newSession.status ?? 'active',
+            tg_handle: newSession.tg_handle,
+            tg_id: newSession.tg_id ?? null,
+            time_limit: newSession.time_limit ?? null,
+            topics: newSession.topics ?? null
+        };
+
+        // Like the sessions_daily_attempt_idx index, one daily attempt per player and day
+        if (session.daily_date && tables.sessions.some((row) => row.tg_id === session.tg_id && row.daily_date === session.daily_date)) {
+            return null;
+        }
+
+        tables.sessions.push(session);
+        return session.id;
+    }
+
+    async function getSession(sessionId: string): Promise<Session | null> {
+        const session = findSession(sessionId);
+        return session ? structuredClone(session) : null;
+    }
+
+    async function listSessions(filter: SessionFilter): Promise<Session[]> {
+        return tables.sessions
+            .filter((session) =>
+                (session.questions || 0) > 0
+                && (!filter.tgId || session.tg_id === filter.tgId)
+                && (!filter.mode || session.mode === filter.mode)
+                && (!filter.since || (session.created_date || '') >= filter.since)
+                && (!filter.dailyDate || session.daily_date === filter.dailyDate)
+            )
+            .sort((a, b) => (b.created_date || '').localeCompare(a.created_date || ''))
+            .map((session) => structuredClone(session));
+    }
+
+    async function updateSessionScore(sessionId: string, isCorrect: boolean, points: number): Promise<void> {
+        const session = findSession(sessionId);
+        if (session) {
+            session.questions = (session.questions || 0) + 1;
+            session.correct = (session.correct || 0) + (isCorrect ? 1 : 0);
+            session.points += points;
+        }
+    }
+
+    async function updateSessionLevel(sessionId: string, level: number): Promise<void> {
+        const session = findSession(sessionId);
+        if (session) {
+            session.level = level;
+        }
+    }
+
+    async function getOpenSession(tgId: string): Promise<Session | null> {
+        const session = tables.sessions
+            .filter((row) => row.tg_id === tgId && row.status === 'active')
+            .sort((a, b) => (b.created_date || '').localeCompare(a.created_date || ''))[0];
+        return session ? structuredClone(session) : null;
+    }
+
+    async function getDailySession(tgId: string, day: string): Promise<Session | null> {
+        const session = tables.sessions.find((row) => row.tg_id === tgId && row.daily_date === day);
+        return session ? structuredClone(session) : null;
+    }
+
+    // Helper function to close an active session with the given status, false when it was not active
+    function closeSession(sessionId: string, status: SessionStatus, date: string): boolean {
+        const session = findSession(sessionId);
+        if (!session || session.status !== 'active') {
+            return false;
+        }
+
+        session.status = status;
+        session.finished_date = date;
+        return true;
+    }
+
+    async function finishSession(sessionId: string, finishedDate: string): Promise<boolean> {
+        return closeSession(sessionId, 'finished', finishedDate);
+    }
+
+    async function abandonSession(sessionId: string, abandonedDate: string): Promise<boolean> {
+        return closeSession(sessionId, 'abandoned', abandonedDate);
+    }
+
+    const withQuestion = (entry: SessionQuestion): SessionHistoryEntry => structuredClone({
+        ...entry,
+        questions: tables.questions.find((question) => question.id === entry.question_id) ?? null
+    });
+
+    async function recordServedQuestion(sessionId: string, questionId: string, servedDate: string, choiceOrder: ChoiceOrder): Promise<string | null> {
+        const id = randomUUID();
+        tables.session_questions.push({
+            answer_index: null,
+            answer_indexes: null,
+            answered_date: null,
+            choice_order: choiceOrder,
+            id,
+            is_correct: null,
+            question_id: questionId,
+            served_date: servedDate,
+            session_id: sessionId
+        });
+        return id;
+    }
+
+    async function getServedQuestion(servedId: string): Promise<SessionHistoryEntry | null> {
+        const served = tables.session_questions.find((entry) => entry.id === servedId);
+        return served ? withQuestion(served) : null;
+    }
+
+    async function getSessionHistory(sessionId: string): Promise<SessionHistoryEntry[]> {
+        return tables.session_questions
+            .filter((entry) => entry.session_id === sessionId)
+            .map(withQuestion);
+    }
+
+    async function listPlayerAnswers(tgId: string): Promise<SessionHistoryEntry[]> {
+        const sessionIds = new Set(tables.sessions
+            .filter((session) => session.tg_id === tgId)
+            .map((session) => session.id));
+
+        return tables.session_questions
+            .filter((entry) => entry.answered_date && sessionIds.has(entry.session_id))
+            .sort((a, b) => (a.answered_date || '').localeCompare(b.answered_date || ''))
+            .map(withQuestion);
+    }
+
+    async function getPendingQuestion(sessionId: string): Promise<SessionHistoryEntry | null> {
+        const pending = tables.session_questions
+            .filter((entry) => entry.session_id === sessionId && !entry.answered_date)
+            .pop();
+        return pending ? withQuestion(pending) : null;
+    }
+
+    async function saveSelection(servedId: string, answerIndexes: number[]): Promise<boolean> {
+        const entry = tables.session_questions.find((row) => row.id === servedId && !row.answered_date);
+        if (!entry) {
+            return false;
+        }
+
+        entry.answer_indexes = [...answerIndexes];
+        return true;
+    }
+
+    async function recordAnswer(servedId: string, answer: number | number[] | null, isCorrect: boolean, answeredDate: string): Promise<boolean> {
+        const entry = tables.session_questions.find((row) => row.id === servedId && !row.answered_date);
+        if (!entry) {
+            return false;
+        }
+
+        entry.answer_index = typeof answer === 'number' ? answer : null;
+        entry.answer_indexes = Array.isArray(answer) ? [...answer] : null;
+        entry.is_correct = isCorrect;
+        entry.answered_date = answeredDate;
+        return true;
+    }
+
+    return {
+        createSession,
+        getSession,
+        listSessions,
+        updateSessionScore,
+        updateSessionLevel,
+        getOpenSession,
+        getDailySession,
+        finishSession,
+        abandonSession,
+        recordServedQuestion,
+        getServedQuestion,
+        getSessionHistory,
+        listPlayerAnswers,
+        getPendingQuestion,
+        saveSelection,
+        recordAnswer
+    };
+}
+
+export function createMemoryReviewRepository(tables: MemoryTables): ReviewRepository {
+    const findCard = (tgId: string, questionId: string) =>
+        tables.review_cards.find((card) => card.tg_id === tgId && card.question_id === questionId);
+
+    const isActive = (questionId: string) =>
+        tables.questions.some((question) => question.id === questionId && !question.retired_date);
+
+    const dueCards = (tgId: string, now: string) => tables.review_cards
+        .filter((card) => card.tg_id === tgId && card.due_date <= now && isActive(card.question_id))
+        .sort((a, b) => a.due_date.localeCompare(b.due_date));
+
+    async function getCard(tgId: string, questionId: string): Promise<ReviewCard | null> {
+        const card = findCard(tgId, questionId);
+        return card ? structuredClone(card) : null;
+    }
+
+    async function saveCard(card: ReviewCard): Promise<void> {
+        const existing = findCard(card.tg_id, card.question_id);
+        if (existing) {
+            Object.assign(existing, card);
+            return;
+        }
+        tables.review_cards.push(structuredClone(card));
+    }
+
+    async function getDueQuestion(tgId: string, now: string, excludedIds: string[] = []): Promise<Question | null | undefined> {
+        const card = dueCards(tgId, now).find((candidate) => !excludedIds.includes(candidate.question_id));
+        const question = card && tables.questions.find((row) => row.id === card.question_id);
+        return question ? structuredClone(question) : null;
+    }
+
+    async function countDueCards(tgId: string, now: string): Promise<number> {
+        return dueCards(tgId, now).length;
+    }
+
+    return { getCard, saveCard, getDueQuestion, countDueCards };
+}
+
+export function createMemoryBattleRepository(tables: MemoryTables): BattleRepository {
+    const findBattle = (battleId: string) => tables.battles.find((row) => row.id === battleId);
+    const findRound = (roundId: string) => tables.battle_rounds.find((row) => row.id === roundId);
+
+    const withQuestion = (round: BattleRoundRow): BattleRound => structuredClone({
+        ...round,
+        questions: tables.questions.find((question) => question.id === round.question_id) ?? null
+    });
+
+    async function createBattle(newBattle: BattleInsert): Promise<Battle | null> {
+        const battle: Battle = {
+            chat_id: newBattle.chat_id,
+            created_date: newBattle.created_date ?? new Date().toISOString(),
+            finished_date: newBattle.finished_date ?? null,
+            id: newBattle.id ?? randomUUID(),
+            language: newBattle.language ?? 'en',
+            mode: newBattle.mode ?? 'mixed',
+            round_seconds: newBattle.round_seconds,
+            rounds: newBattle.rounds,
+            started_by: newBattle.started_by
+        };
+
+        tables.battles.push(battle);
+        return structuredClone(battle);
+    }
+
+    async function getBattle(battleId: string): Promise<Battle | null> {
+        const battle = findBattle(battleId);
+        return battle ? structuredClone(battle) : null;
+    }
+
+    async function getRunningBattle(chatId: string): Promise<Battle | null> {
+        const battle = tables.battles.find((row) => row.chat_id === chatId && !row.finished_date);
+        return battle ? structuredClone(battle) : null;
+    }
+
+    async function finishBattle(battleId: string, finishedDate: string): Promise<boolean> {
+        const battle = findBattle(battleId);
+        if (!battle || battle.finished_date) {
+            return false;
+        }
+
+        battle.finished_date = finishedDate;
+        return true;
+    }
+
+    async function startRound(newRound: BattleRoundInsert): Promise<BattleRound | null> {
+        const round: BattleRoundRow = {
+            battle_id: newRound.battle_id,
+            choice_order: newRound.choice_order ?? null,
+            closed_date: newRound.closed_date ?? null,
+            id: newRound.id ?? randomUUID(),
+            message_id: newRound.message_id ?? null,
+            question_id: newRound.question_id,
+            round: newRound.round,
+            started_date: newRound.started_date ?? new Date().toISOString()
+        };
+
+        tables.battle_rounds.push(round);
+        return withQuestion(round);
+    }
+
+    async function getRound(roundId: string): Promise<BattleRound | null> {
+        const round = findRound(roundId);
+        return round ? withQuestion(round) : null;
+    }
+
+    async function listRounds(battleId: string): Promise<BattleRound[]> {
+        return tables.battle_rounds
+            .filter((round) => round.battle_id === battleId)
+            .sort((a, b) => a.round - b.round)
+            .map(withQuestion);
+    }
+
+    async function setRoundMessage(roundId: string, messageId: number): Promise<void> {
+        const round = findRound(roundId);
+        if (round) {
+            round.message_id = messageId;
+        }
+    }
+
+    async function closeRound(roundId: string, closedDate: string): Promise<boolean> {
+        const round = findRound(roundId);
+        if (!round || round.closed_date) {
+            return false;
+        }
+
+        round.closed_date = closedDate;
+        return true;
+    }
+
+    async function recordBattleAnswer(answer: BattleAnswerInsert): Promise<boolean> {
+        if (tables.battle_answers.some((row) => row.round_id === answer.round_id && row.tg_id === answer.tg_id)) {
+            return false;
+        }
+
+        tables.battle_answers.push({
+            ...answer,
+            answered_date: answer.answered_date ?? new Date().toISOString(),
+            points: answer.points ?? 0
+        });
+        return true;
+    }
+
+    async function listBattleAnswers(battleId: string): Promise<BattleAnswer[]> {
+        return structuredClone(tables.battle_answers.filter((answer) => answer.battle_id === battleId));
+    }
+
+    return {
+        createBattle,
+        getBattle,
+        getRunningBattle,
+        finishBattle,
+        startRound,
+        getRound,
+        listRounds,
+        setRoundMessage,
+        closeRound,
+        recordBattleAnswer,
+        listBattleAnswers
+    };
+}
+
+export function createMemoryChatStateRepository(tables: MemoryTables): ChatStateRepository {
+    async function getState(key: string): Promise<ChatState | null> {
+        const state = tables.chat_states.find((row) => row.key === key);
+        return state ? structuredClone(state) : null;
+    }
+
+    async function saveState(state: ChatState): Promise<void> {
+        await deleteState(state.key);
+        tables.chat_states.push(structuredClone(state));
+    }
+
+    async function deleteState(key: string): Promise<void> {
+        tables.chat_states = tables.chat_states.filter((row) => row.key !== key);
+    }
+
+    async function deleteExpiredStates(now: string): Promise<ChatState[]> {
+        const expired = tables.chat_states.filter((row) => row.expires_date <= now);
+        tables.chat_states = tables.chat_states.filter((row) => row.expires_date > now);
+        return structuredClone(expired);
+    }
+
+    return { getState, saveState, deleteState, deleteExpiredStates };
+}
+
+export function createMemoryUserSettingsRepository(tables: MemoryTables): UserSettingsRepository {
+    async function getSettings(tgId: string): Promise<UserSettings | null> {
+        const settings = tables.user_settings.find((row) => row.tg_id === tgId);
+        return settings ? structuredClone(settings) : null;
+    }
+
+    async function saveSettings(settings: UserSettingsInsert): Promise<void> {
+        const existing = tables.user_settings.find((row) => row.tg_id === settings.tg_id);
+        const updated: UserSettings = {
+            daily_reminder: false,
+            language: null,
+            ...existing,
+            ...settings,
+            updated_date: settings.updated_date ?? new Date().toISOString()
+        };
+
+        tables.user_settings = tables.user_settings.filter((row) => row.tg_id !== settings.tg_id);
+        tables.user_settings.push(updated);
+    }
+
+    async function listDailyReminders(): Promise<UserSettings[]> {
+        return structuredClone(tables.user_settings.filter((settings) => settings.daily_reminder));
+    }
+
+    return { getSettings, saveSettings, listDailyReminders };
+}
+
+export function createMemoryAchievementRepository(tables: MemoryTables): AchievementRepository {
+    async function listAchievements(tgId: string): Promise<Achievement[]> {
+        return structuredClone(
+            tables.achievements
+                .filter((achievement) => achievement.tg_id === tgId)
+                .sort((a, b) => a.unlocked_date.localeCompare(b.unlocked_date))
+        );
+    }
+
+    async function unlockAchievement(achievement: AchievementInsert): Promise<boolean> {
+        if (tables.achievements.some((row) => row.tg_id === achievement.tg_id && row.code === achievement.code)) {
+            return false;
+        }
+
+        tables.achievements.push({
+            ...achievement,
+            unlocked_date: achievement.unlocked_date ?? new Date().toISOString()
+        });
+        return true;
+    }
+
+    return { listAchievements, unlockAchievement };
+}
+
+export function createMemoryDailyChallengeRepository(tables: MemoryTables): DailyChallengeRepository {
+    async function getChallenge(day: string): Promise<DailyChallenge | null> {
+        const challenge = tables.daily_challenges.find((row) => row.day === day);
+        return challenge ? structuredClone(challenge) : null;
+    }
+
+    async function createChallenge(challenge: DailyChallengeInsert): Promise<DailyChallenge | null> {
+        const existing = tables.daily_challenges.find((row) => row.day === challenge.day);
+        if (existing) {
+            return structuredClone(existing);
+        }
+
+        const created: DailyChallenge = {
+            ...challenge,
+            created_date: challenge.created_date ?? new Date().toISOString()
+        };
+        tables.daily_challenges.push(created);
+        return structuredClone(created);
+    }
+
+    return { getChallenge, createChallenge };
+}
+
+export function createMemoryQuestionReportRepository(tables: MemoryTables): QuestionReportRepository {
+    async function createReport(report: QuestionReportInsert): Promise<boolean> {
+        const open = tables.question_reports.some((row) =>
+            row.question_id === report.question_id && row.tg_id === report.tg_id && !row.resolved_date
+        );
+        if (open) {
+            return false;
+        }
+
+        tables.question_reports.push({
+            ...report,
+            id: report.id ?? randomUUID(),
+            created_date: report.created_date ?? new Date().toISOString(),
+            resolved_date: report.resolved_date ?? null
+        });
+        return true;
+    }
+
+    async function listOpenReports(questionId?: string): Promise<QuestionReport[]> {
+        return structuredClone(
+            tables.question_reports
+                .filter((report) => !report.resolved_date && (!questionId || report.question_id === questionId))
+                .sort((a, b) => a.created_date.localeCompare(b.created_date))
+        );
+    }
+
+    async function resolveReports(questionId: string, resolvedDate: string): Promise<number> {
+        const open = tables.question_reports.filter((report) => report.question_id === questionId && !report.resolved_date);
+        open.forEach((report) => {
+            report.resolved_date = resolvedDate;
+        });
+        return open.length;
+    }
+
+    return { createReport, listOpenReports, resolveReports };
+}
+
+export function createMemoryHealthRepository(): HealthRepository {
+    // Process memory is always there
+    async function ping(): Promise<boolean> {
+        return true;
+    }
+
+    return { ping };
+}
+
+// Storage that keeps everything in process memory, for offline development and tests
+export function createMemoryStorage(options: MemoryStorageOptions = {}): Storage & { tables: MemoryTables } {
+    const tables: MemoryTables = {
+        questions: (options.questions || []).map(toQuestionRow),
+        sessions: [],
+        session_questions: [],
+        review_cards: [],
+        battles: [],
+        battle_rounds: [],
+        battle_answers: [],
+        chat_states: [],
+        user_settings: [],
+        achievements: [],
+        daily_challenges: [],
+        question_reports: []
+    };
+
+    return {
+        tables,
+        questions: createMemoryQuestionRepository(tables),
+        sessions: createMemorySessionRepository(tables),
+        reviews: createMemoryReviewRepository(tables),
+        battles: createMemoryBattleRepository(tables),
+        chatStates: createMemoryChatStateRepository(tables),
+        users: createMemoryUserSettingsRepository(tables),
+        achievements: createMemoryAchievementRepository(tables),
+        daily: createMemoryDailyChallengeRepository(tables),
+        reports: createMemoryQuestionReportRepository(tables),
+        health: createMemoryHealthRepository()
+    };
+}
@@ -0,0 +1,59 @@
+import { SessionStore } from 'telegraf';
+import { Clock, Scheduler, SessionData } from '../interfaces/bot';
+import { Storage } from '../interfaces/storage';
+
+// Telegraf session store backed by the chat states of the storage, with a sliding expiry
+export function createSessionStore(storage: Storage, clock: Clock, ttlMs: number): SessionStore<SessionData> {
+    async function get(key: string): Promise<SessionData | undefined> {
+        const state = await storage.chatStates.getState(key);
+        if (!state) {
+            return;
+        }
+
+        if (state.expires_date > clock.now().toISOString()) {
+            return state.data;
+        }
+
+        // Abandoned: drop the state and close the quiz session it was holding
+        await storage.chatStates.deleteState(key);
+        await abandonStateSession(storage, clock, state.data);
+        return;
+    }
+
+    async function set(key: string, data: SessionData): Promise<void> {
+        await storage.chatStates.saveState({
+            key,
+            data,
+            expires_date: new Date(clock.now().getTime() + ttlMs).toISOString()
+        });
+    }
+
+    async function remove(key: string): Promise<void> {
+        await storage.chatStates.deleteState(key);
+    }
+
+    return { get, set, delete: remove };
+}
+
+// Helper function to close the quiz session an expired state was holding
+async function abandonStateSession(storage: Storage, clock: Clock, data: SessionData): Promise<void> {
+    if (data.sessionId) {
+        await storage.sessions.abandonSession(data.sessionId, clock.now().toISOString());
+    }
+}
+
+// Drop the states of chats that went quiet and close their sessions, without waiting for their next update
+export async function sweepExpiredStates(storage: Storage, clock: Clock): Promise<void> {
+    const expired = await storage.chatStates.deleteExpiredStates(clock.now().toISOString());
+    for (const state of expired) {
+        await abandonStateSession(storage, clock, state.data);
+    }
+}
+
+// Sweep the expired states every interval
+export function scheduleStateSweep(storage: Storage, clock: Clock, scheduler: Scheduler, intervalMs: number): void {
+    scheduler.schedule(async () => {
+        await sweepExpiredStates(storage, clock);
+        scheduleStateSweep(storage, clock, scheduler, intervalMs);
+    }, intervalMs);
+}
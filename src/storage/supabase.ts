@@ -0,0 +1,1121 @@
+import { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import { Battle, BattleAnswer, BattleAnswerInsert, BattleInsert, BattleRound, BattleRoundInsert } from '../interfaces/battle';
+import { SessionData } from '../interfaces/bot';
+import { Database } from '../interfaces/db_sheme';
+import { Question, QuestionInsert, QuestionUpdate } from '../interfaces/question';
+import { Session, SessionHistoryEntry, SessionInsert, SessionStatus } from '../interfaces/session';
+import { ChoiceOrder } from '../services/choiceOrder';
+import {
+    Achievement,
+    AchievementInsert,
+    AchievementRepository,
+    BattleRepository,
+    ChatState,
+    ChatStateRepository,
+    DailyChallenge,
+    DailyChallengeInsert,
+    DailyChallengeRepository,
+    HealthRepository,
+    QuestionChoiceStats,
+    QuestionFilter,
+    QuestionReport,
+    QuestionReportInsert,
+    QuestionReportRepository,
+    QuestionRepository,
+    ReviewCard,
+    ReviewRepository,
+    SessionFilter,
+    SessionRepository,
+    Storage,
+    UserSettings,
+    UserSettingsInsert,
+    UserSettingsRepository
+} from '../interfaces/storage';
+
+// Postgres error code of a unique constraint violation
+const UNIQUE_VIOLATION = '23505';
+
+// Most rows PostgREST returns for one request, with its default max-rows setting
+const PAGE_SIZE = 1000;
+
+// Helper function to read every row of a query page by page, PostgREST silently cuts longer results;
+// the query must have a unique order so the pages do not overlap
+async function fetchAllRows<T>(
+    fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null, error: PostgrestError | null }>
+): Promise<{ data: T[] | null, error: PostgrestError | null }> {
+    const rows: T[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+        if (error || !data) {
+            return { data: null, error };
+        }
+
+        rows.push(...data);
+        if (data.length < PAGE_SIZE) {
+            return { data: rows, error: null };
+        }
+    }
+}
+
+// The filters a QuestionFilter applies to both the count and the fetch query of a question
+interface QuestionFilterBuilder {
+    is(column: 'retired_date' | 'answer_indexes', value: null): unknown;
+    contains(column: 'tags', value: string[]): unknown;
+    overlaps(column: 'tags', value: string[]): unknown;
+    not(column: 'id', operator: 'in', value: string): unknown;
+    eq(column: 'level', value: number): unknown;
+}
+
+// Helper function to apply a question filter to a query on the question_levels view
+function applyQuestionFilter<T extends QuestionFilterBuilder>(query: T, { mode, excludedIds = [], level, topics, singleAnswer }: QuestionFilter): T {
+    query = query.is('retired_date', null) as T;
+
+    // Filter questions based on mode
+    if (mode !== 'mixed') {
+        query = query.contains('tags', [mode]) as T;
+    }
+
+    if (excludedIds.length > 0) {
+        query = query.not('id', 'in', `(${excludedIds.join(',')})`) as T;
+    }
+
+    if (level !== undefined) {
+        query = query.eq('level', level) as T;
+    }
+
+    if (topics) {
+        query = query.overlaps('tags', topics) as T;
+    }
+
+    if (singleAnswer) {
+        query = query.is('answer_indexes', null) as T;
+    }
+
+    return query;
+}
+
+export function createSupabaseQuestionRepository(supabase: SupabaseClient<Database>): QuestionRepository {
+    // Helper function to count the active questions matching a filter, undefined on error
+    async function countMatching(filter: QuestionFilter): Promise<number | undefined> {
+        // The question_levels view rates the questions without a difficulty
+        const { count, error } = await applyQuestionFilter(
+            supabase.from('question_levels').select('id', { count: 'exact', head: true }),
+            filter
+        );
+
+        if (error) {
+            console.error('Error counting questions:', error);
+            return;
+        }
+
+        return count || 0;
+    }
+
+    // Helper function to fetch a random question that was not asked yet in the session,
+    // null when every matching question was already asked
+    async function getRandomQuestion(filter: QuestionFilter): Promise<Question | null | undefined> {
+        // Candidates are counted first so only one ID has to be downloaded
+        const count = await countMatching(filter);
+        if (count === undefined) {
+            return;
+        }
+
+        if (!count) {
+            return null;
+        }
+
+        const offset = Math.floor(Math.random() * count);
+        const { data: picked, error } = await applyQuestionFilter(
+            supabase.from('question_levels').select('id'),
+            filter
+        )
+            .order('id')
+            .range(offset, offset)
+            .maybeSingle();
+
+        if (error || !picked?.id) {
+            console.error('Error fetching questions:', error);
+            return;
+        }
+
+        return getQuestionById(picked.id);
+    }
+
+    // Helper function to count the active questions matching a filter
+    async function countQuestions(filter: QuestionFilter): Promise<number> {
+        return await countMatching(filter) ?? 0;
+    }
+
+    async function getQuestionById(questionId:string): Promise<Question | undefined> {
+        const { data: question, error } = await supabase
+            .from('questions')
+            .select('*')
+            .eq('id', questionId)
+            .limit(1)
+            .single()
+            ;
+
+        if (error || !question) {
+            console.error('Error fetching questions:', error);
+            return ;
+        }
+
+        return question
+    }
+
+    // Helper function to list every question, retired ones included
+    async function listQuestions(): Promise<Question[]> {
+        const { data: questions, error } = await fetchAllRows((from, to) => supabase
+            .from('questions')
+            .select('*')
+            .order('key', { ascending: true })
+            .order('id', { ascending: true })
+            .range(from, to));
+
+        if (error || !questions) {
+            console.error('Error listing questions:', error);
+            return [];
+        }
+
+        return questions;
+    }
+
+    // Helper function to add a question to the bank
+    async function createQuestion(question: QuestionInsert): Promise<Question | null> {
+        const { data: created, error } = await supabase
+            .from('questions')
+            .insert([question])
+            .select('*')
+            .single();
+
+        if (error || !created) {
+            console.error('Error creating question:', error);
+            return null;
+        }
+
+        return created;
+    }
+
+    // Helper function to change a question
+    async function updateQuestion(questionId: string, update: QuestionUpdate): Promise<Question | null> {
+        const { data: updated, error } = await supabase
+            .from('questions')
+            .update(update)
+            .eq('id', questionId)
+            .select('*')
+            .maybeSingle();
+
+        if (error || !updated) {
+            console.error('Error updating question:', error);
+            return null;
+        }
+
+        return updated;
+    }
+
+    // Helper function to list the distinct tags of the active questions
+    async function listTags(): Promise<string[]> {
+        const { data: questions, error } = await fetchAllRows((from, to) => supabase
+            .from('questions')
+            .select('tags')
+            .is('retired_date', null)
+            .order('id', { ascending: true })
+            .range(from, to));
+
+        if (error || !questions) {
+            console.error('Error listing tags:', error);
+            return [];
+        }
+
+        return [...new Set(questions.flatMap((question) => question.tags || []))].sort();
+    }
+
+    // Helper function to count the answers of one question or of every question, by picked choice
+    async function listChoiceStats(questionId?: string): Promise<QuestionChoiceStats[]> {
+        // Helper function to build the query of one page, ordered by the columns the view groups by
+        const statsPage = (from: number, to: number) => {
+            let query = supabase.from('question_choice_stats').select('*');
+            if (questionId) {
+                query = query.eq('question_id', questionId);
+            }
+
+            return query
+                .order('question_id', { ascending: true })
+                .order('answer_index', { ascending: true })
+                .order('is_correct', { ascending: true })
+                .order('answer_indexes', { ascending: true })
+                .range(from, to);
+        };
+
+        const { data: rows, error } = await fetchAllRows(statsPage);
+        if (error || !rows) {
+            console.error('Error listing question statistics:', error);
+            return [];
+        }
+
+        return rows.map((row) => ({
+            question_id: row.question_id!,
+            answer_index: row.answer_index,
+            is_correct: row.is_correct,
+            count: row.count || 0,
+            total_seconds: row.total_seconds || 0,
+            answer_indexes: row.answer_indexes
+        }));
+    }
+
+    return { getRandomQuestion, countQuestions, getQuestionById, listQuestions, createQuestion, updateQuestion, listTags, listChoiceStats };
+}
+
+export function createSupabaseSessionRepository(supabase: SupabaseClient<Database>): SessionRepository {
+    // Helper function to create a new session
+    async function createSession(newSession: SessionInsert): Promise<string | null> {
+        const { data: session, error } = await supabase
+            .from('sessions')
+            .insert([newSession])
+            .select('id')
+            .single();
+
+        if (error || !session) {
+            console.error('Error creating session:', error);
+            return null;
+        }
+
+        return session.id;
+    }
+
+    // Helper function to get session by ID
+    async function getSession(sessionId: string): Promise<Session | null> {
+        const { data: session, error } = await supabase
+            .from('sessions')
+            .select('*')
+            .eq('id', sessionId)
+            .single();
+
+        if (error || !session) {
+            console.error('Error getting session:', error);
+            return null;
+        }
+
+        return session;
+    }
+
+    // Helper function to list the sessions matching a filter
+    async function listSessions(filter: SessionFilter): Promise<Session[]> {
+        // Helper function to build the query of one page, a builder only runs once
+        const sessionsPage = (from: number, to: number) => {
+            let query = supabase
+                .from('sessions')
+                .select('*')
+                .gt('questions', 0);
+
+            if (filter.tgId) {
+                query = query.eq('tg_id', filter.tgId);
+            }
+
+            if (filter.mode) {
+                query = query.eq('mode', filter.mode);
+            }
+
+            if (filter.since) {
+                query = query.gte('created_date', filter.since);
+            }
+
+            if (filter.dailyDate) {
+                query = query.eq('daily_date', filter.dailyDate);
+            }
+
+            return query
+                .order('created_date', { ascending: false })
+                .order('id', { ascending: true })
+                .range(from, to);
+        };
+
+        const { data: sessions, error } = await fetchAllRows(sessionsPage);
+
+        if (error || !sessions) {
+            console.error('Error listing sessions:', error);
+            return [];
+        }
+
+        return sessions;
+    }
+
+    // Helper function to update session score
+    async function updateSessionScore(sessionId: string, isCorrect: boolean, points: number): Promise<void> {
+        // Incremented in the database, reading the score first would lose answers saved at the same time
+        const { error } = await supabase.rpc('increment_session_score', {
+            target_session_id: sessionId,
+            answer_correct: isCorrect,
+            answer_points: points
+        });
+
+        if (error) {
+            console.error('Error updating session score:', error);
+        }
+    }
+
+    // Helper function to set the difficulty an adaptive session serves
+    async function updateSessionLevel(sessionId: string, level: number): Promise<void> {
+        const { error } = await supabase
+            .from('sessions')
+            .update({ level })
+            .eq('id', sessionId);
+
+        if (error) {
+            console.error('Error updating session level:', error);
+        }
+    }
+
+    // Helper function to get the player's latest active session
+    async function getOpenSession(tgId: string): Promise<Session | null> {
+        const { data: session, error } = await supabase
+            .from('sessions')
+            .select('*')
+            .eq('tg_id', tgId)
+            .eq('status', 'active')
+            .order('created_date', { ascending: false })
+            .limit(1)
+            .maybeSingle();
+
+        if (error) {
+            console.error('Error getting open session:', error);
+        }
+
+        return session ?? null;
+    }
+
+    // Helper function to get the player's attempt at the daily challenge of a day
+    async function getDailySession(tgId: string, day: string): Promise<Session | null> {
+        const { data: session, error } = await supabase
+            .from('sessions')
+            .select('*')
+            .eq('tg_id', tgId)
+            .eq('daily_date', day)
+            .maybeSingle();
+
+        if (error) {
+            console.error('Error getting daily session:', error);
+        }
+
+        return session ?? null;
+    }
+
+    // Helper function to close an active session with the given status, false when no active session changed
+    async function closeSession(sessionId: string, status: SessionStatus, date: string): Promise<boolean> {
+        const { data: closed, error } = await supabase
+            .from('sessions')
+            .update({ status, finished_date: date })
+            .eq('id', sessionId)
+            .eq('status', 'active')
+            .select('id');
+
+        if (error) {
+            console.error(`Error closing session as ${status}:`, error);
+            return false;
+        }
+
+        return (closed || []).length > 0;
+    }
+
+    // Helper function to mark a session as finished
+    async function finishSession(sessionId: string, finishedDate: string): Promise<boolean> {
+        return closeSession(sessionId, 'finished', finishedDate);
+    }
+
+    // Helper function to mark a session the player gave up on
+    async function abandonSession(sessionId: string, abandonedDate: string): Promise<boolean> {
+        return closeSession(sessionId, 'abandoned', abandonedDate);
+    }
+
+    // Helper function to record that a question was served in a session
+    async function recordServedQuestion(sessionId: string, questionId: string, servedDate: string, choiceOrder: ChoiceOrder): Promise<string | null> {
+        const { data: served, error } = await supabase
+            .from('session_questions')
+            .insert([{
+                session_id: sessionId,
+                question_id: questionId,
+                served_date: servedDate,
+                choice_order: choiceOrder
+            }])
+            .select('id')
+            .single();
+
+        if (error || !served) {
+            console.error('Error recording served question:', error);
+            return null;
+        }
+
+        return served.id;
+    }
+
+    // Helper function to get a served question by its row ID
+    async function getServedQuestion(servedId: string): Promise<SessionHistoryEntry | null> {
+        const { data: served, error } = await supabase
+            .from('session_questions')
+            .select('*, questions(*)')
+            .eq('id', servedId)
+            .maybeSingle();
+
+        if (error) {
+            console.error('Error getting served question:', error);
+        }
+
+        return served ?? null;
+    }
+
+    // Helper function to get every question served in a session, oldest first
+    async function getSessionHistory(sessionId: string): Promise<SessionHistoryEntry[]> {
+        const { data: history, error } = await supabase
+            .from('session_questions')
+            .select('*, questions(*)')
+            .eq('session_id', sessionId)
+            .order('served_date', { ascending: true });
+
+        if (error || !history) {
+            console.error('Error getting session history:', error);
+            return [];
+        }
+
+        return history;
+    }
+
+    // Helper function to get every answered question of a player
+    async function listPlayerAnswers(tgId: string): Promise<SessionHistoryEntry[]> {
+        const { data: answers, error } = await fetchAllRows((from, to) => supabase
+            .from('session_questions')
+            .select('*, questions(*), sessions!inner(tg_id)')
+            .eq('sessions.tg_id', tgId)
+            .not('answered_date', 'is', null)
+            .order('answered_date', { ascending: true })
+            .order('id', { ascending: true })
+            .range(from, to));
+
+        if (error || !answers) {
+            console.error('Error listing player answers:', error);
+            return [];
+        }
+
+        return answers;
+    }
+
+    // Helper function to get the question served in a session that still waits for an answer
+    async function getPendingQuestion(sessionId: string): Promise<SessionHistoryEntry | null> {
+        const { data: pending, error } = await supabase
+            .from('session_questions')
+            .select('*, questions(*)')
+            .eq('session_id', sessionId)
+            .is('answered_date', null)
+            .order('served_date', { ascending: false })
+            .limit(1)
+            .maybeSingle();
+
+        if (error) {
+            console.error('Error getting pending question:', error);
+        }
+
+        return pending ?? null;
+    }
+
+    // Helper function to save the choices toggled on a multi-select question, false when it was already answered
+    async function saveSelection(servedId: string, answerIndexes: number[]): Promise<boolean> {
+        const { data: saved, error } = await supabase
+            .from('session_questions')
+            .update({ answer_indexes: answerIndexes })
+            .eq('id', servedId)
+            .is('answered_date', null)
+            .select('id');
+
+        if (error) {
+            console.error('Error saving selection:', error);
+            return false;
+        }
+
+        return !!saved && saved.length > 0;
+    }
+
+    // Helper function to store the answer to a served question, false when it was already answered
+    async function recordAnswer(servedId: string, answer: number | number[] | null, isCorrect: boolean, answeredDate: string): Promise<boolean> {
+        const { data: answered, error } = await supabase
+            .from('session_questions')
+            .update({
+                answer_index: typeof answer === 'number' ? answer : null,
+                answer_indexes: Array.isArray(answer) ? answer : null,
+                is_correct: isCorrect,
+                answered_date: answeredDate
+            })
+            .eq('id', servedId)
+            .is('answered_date', null)
+            .select('id');
+
+        if (error) {
+            console.error('Error recording answer:', error);
+            return false;
+        }
+
+        return !!answered && answered.length > 0;
+    }
+
+    return {
+        createSession,
+        getSession,
+        listSessions,
+        updateSessionScore,
+        updateSessionLevel,
+        getOpenSession,
+        getDailySession,
+        finishSession,
+        abandonSession,
+        recordServedQuestion,
+        getServedQuestion,
+        getSessionHistory,
+        listPlayerAnswers,
+        getPendingQuestion,
+        saveSelection,
+        recordAnswer
+    };
+}
+
+export function createSupabaseReviewRepository(supabase: SupabaseClient<Database>): ReviewRepository {
+    // Helper function to get a player's review card for a question
+    async function getCard(tgId: string, questionId: string): Promise<ReviewCard | null> {
+        const { data: card, error } = await supabase
+            .from('review_cards')
+            .select('*')
+            .eq('tg_id', tgId)
+            .eq('question_id', questionId)
+            .maybeSingle();
+
+        if (error) {
+            console.error('Error getting review card:', error);
+        }
+
+        return card ?? null;
+    }
+
+    // Helper function to create or reschedule a review card
+    async function saveCard(card: ReviewCard): Promise<void> {
+        const { error } = await supabase
+            .from('review_cards')
+            .upsert([card], { onConflict: 'tg_id,question_id' });
+
+        if (error) {
+            console.error('Error saving review card:', error);
+        }
+    }
+
+    // Helper function to get the question of the card due the longest
+    async function getDueQuestion(tgId: string, now: string, excludedIds: string[] = []): Promise<Question | null | undefined> {
+        let query = supabase
+            .from('review_cards')
+            .select('*, questions!inner(*)')
+            .eq('tg_id', tgId)
+            .is('questions.retired_date', null)
+            .lte('due_date', now);
+
+        if (excludedIds.length > 0) {
+            query = query.not('question_id', 'in', `(${excludedIds.join(',')})`);
+        }
+
+        const { data: card, error } = await query
+            .order('due_date', { ascending: true })
+            .limit(1)
+            .maybeSingle();
+
+        if (error) {
+            console.error('Error getting due review card:', error);
+            return;
+        }
+
+        return card?.questions ?? null;
+    }
+
+    // Helper function to count the cards a player has due
+    async function countDueCards(tgId: string, now: string): Promise<number> {
+        const { count, error } = await supabase
+            .from('review_cards')
+            .select('question_id, questions!inner(retired_date)', { count: 'exact', head: true })
+            .eq('tg_id', tgId)
+            .is('questions.retired_date', null)
+            .lte('due_date', now);
+
+        if (error) {
+            console.error('Error counting due review cards:', error);
+        }
+
+        return count || 0;
+    }
+
+    return { getCard, saveCard, getDueQuestion, countDueCards };
+}
+
+export function createSupabaseBattleRepository(supabase: SupabaseClient<Database>): BattleRepository {
+    // Helper function to start a battle in a chat
+    async function createBattle(newBattle: BattleInsert): Promise<Battle | null> {
+        const { data: battle, error } = await supabase
+            .from('battles')
+            .insert([newBattle])
+            .select('*')
+            .single();
+
+        if (error || !battle) {
+            console.error('Error creating battle:', error);
+            return null;
+        }
+
+        return battle;
+    }
+
+    // Helper function to get a battle by ID
+    async function getBattle(battleId: string): Promise<Battle | null> {
+        const { data: battle, error } = await supabase
+            .from('battles')
+            .select('*')
+            .eq('id', battleId)
+            .maybeSingle();
+
+        if (error) {
+            console.error('Error getting battle:', error);
+        }
+
+        return battle ?? null;
+    }
+
+    // Helper function to get the battle still running in a chat
+    async function getRunningBattle(chatId: string): Promise<Battle | null> {
+        const { data: battle, error } = await supabase
+            .from('battles')
+            .select('*')
+            .eq('chat_id', chatId)
+            .is('finished_date', null)
+            .maybeSingle();
+
+        if (error) {
+            console.error('Error getting running battle:', error);
+        }
+
+        return battle ?? null;
+    }
+
+    // Helper function to mark a battle as finished, false when it already was
+    async function finishBattle(battleId: string, finishedDate: string): Promise<boolean> {
+        const { data: finished, error } = await supabase
+            .from('battles')
+            .update({ finished_date: finishedDate })
+            .eq('id', battleId)
+            .is('finished_date', null)
+            .select('id');
+
+        if (error) {
+            console.error('Error finishing battle:', error);
+            return false;
+        }
+
+        return !!finished && finished.length > 0;
+    }
+
+    // Helper function to record the question of a new round
+    async function startRound(newRound: BattleRoundInsert): Promise<BattleRound | null> {
+        const { data: round, error } = await supabase
+            .from('battle_rounds')
+            .insert([newRound])
+            .select('*, questions(*)')
+            .single();
+
+        if (error || !round) {
+            console.error('Error starting battle round:', error);
+            return null;
+        }
+
+        return round;
+    }
+
+    // Helper function to get a round by ID
+    async function getRound(roundId: string): Promise<BattleRound | null> {
+        const { data: round, error } = await supabase
+            .from('battle_rounds')
+            .select('*, questions(*)')
+            .eq('id', roundId)
+            .maybeSingle();
+
+        if (error) {
+            console.error('Error getting battle round:', error);
+        }
+
+        return round ?? null;
+    }
+
+    // Helper function to list the rounds of a battle
+    async function listRounds(battleId: string): Promise<BattleRound[]> {
+        const { data: rounds, error } = await supabase
+            .from('battle_rounds')
+            .select('*, questions(*)')
+            .eq('battle_id', battleId)
+            .order('round', { ascending: true });
+
+        if (error || !rounds) {
+            console.error('Error listing battle rounds:', error);
+            return [];
+        }
+
+        return rounds;
+    }
+
+    // Helper function to remember the message holding a round's question
+    async function setRoundMessage(roundId: string, messageId: number): Promise<void> {
+        const { error } = await supabase
+            .from('battle_rounds')
+            .update({ message_id: messageId })
+            .eq('id', roundId);
+
+        if (error) {
+            console.error('Error setting battle round message:', error);
+        }
+    }
+
+    // Helper function to stop accepting answers for a round, false when it already was closed
+    async function closeRound(roundId: string, closedDate: string): Promise<boolean> {
+        const { data: closed, error } = await supabase
+            .from('battle_rounds')
+            .update({ closed_date: closedDate })
+            .eq('id', roundId)
+            .is('closed_date', null)
+            .select('id');
+
+        if (error) {
+            console.error('Error closing battle round:', error);
+            return false;
+        }
+
+        return !!closed && closed.length > 0;
+    }
+
+    // Helper function to store a participant's answer, false when they already answered the round
+    async function recordBattleAnswer(answer: BattleAnswerInsert): Promise<boolean> {
+        const { error } = await supabase
+            .from('battle_answers')
+            .insert([answer]);
+
+        if (error) {
+            if (error.code !== UNIQUE_VIOLATION) {
+                console.error('Error recording battle answer:', error);
+            }
+            return false;
+        }
+
+        return true;
+    }
+
+    // Helper function to list every answer given in a battle
+    async function listBattleAnswers(battleId: string): Promise<BattleAnswer[]> {
+        const { data: answers, error } = await fetchAllRows((from, to) => supabase
+            .from('battle_answers')
+            .select('*')
+            .eq('battle_id', battleId)
+            .order('round_id', { ascending: true })
+            .order('tg_id', { ascending: true })
+            .range(from, to));
+
+        if (error || !answers) {
+            console.error('Error listing battle answers:', error);
+            return [];
+        }
+
+        return answers;
+    }
+
+    return {
+        createBattle,
+        getBattle,
+        getRunningBattle,
+        finishBattle,
+        startRound,
+        getRound,
+        listRounds,
+        setRoundMessage,
+        closeRound,
+        recordBattleAnswer,
+        listBattleAnswers
+    };
+}
+
+export function createSupabaseChatStateRepository(supabase: SupabaseClient<Database>): ChatStateRepository {
+    // Helper function to get the conversation state stored under a session key
+    async function getState(key: string): Promise<ChatState | null> {
+        const { data: state, error } = await supabase
+            .from('chat_states')
+            .select('key, data, expires_date')
+            .eq('key', key)
+            .maybeSingle();
+
+        if (error) {
+            console.error('Error getting chat state:', error);
+        }
+
+        return state ? { ...state, data: state.data as SessionData } : null;
+    }
+
+    // Helper function to create or replace the conversation state of a session key
+    async function saveState(state: ChatState): Promise<void> {
+        const { error } = await supabase
+            .from('chat_states')
+            .upsert([{
+                key: state.key,
+                data: JSON.parse(JSON.stringify(state.data)),
+                expires_date: state.expires_date,
+                updated_date: new Date().toISOString()
+            }], { onConflict: 'key' });
+
+        if (error) {
+            console.error('Error saving chat state:', error);
+        }
+    }
+
+    // Helper function to drop the conversation state of a session key
+    async function deleteState(key: string): Promise<void> {
+        const { error } = await supabase
+            .from('chat_states')
+            .delete()
+            .eq('key', key);
+
+        if (error) {
+            console.error('Error deleting chat state:', error);
+        }
+    }
+
+    // Helper function to drop every state expired by then, returning the dropped states
+    async function deleteExpiredStates(now: string): Promise<ChatState[]> {
+        const { data: states, error } = await supabase
+            .from('chat_states')
+            .delete()
+            .lte('expires_date', now)
+            .select('key, data, expires_date');
+
+        if (error) {
+            console.error('Error deleting expired chat states:', error);
+            return [];
+        }
+
+        return (states || []).map((state) => ({ ...state, data: state.data as SessionData }));
+    }
+
+    return { getState, saveState, deleteState, deleteExpiredStates };
+}
+
+export function createSupabaseUserSettingsRepository(supabase: SupabaseClient<Database>): UserSettingsRepository {
+    // Helper function to get a player's settings, null when they never changed any
+    async function getSettings(tgId: string): Promise<UserSettings | null> {
+        const { data: settings, error } = await supabase
+            .from('user_settings')
+            .select('*')
+            .eq('tg_id', tgId)
+            .maybeSingle();
+
+        if (error) {
+            console.error('Error getting user settings:', error);
+        }
+
+        return settings;
+    }
+
+    // Helper function to create a player's settings or update the fields given
+    async function saveSettings(settings: UserSettingsInsert): Promise<void> {
+        const { error } = await supabase
+            .from('user_settings')
+            .upsert([{ ...settings, updated_date: settings.updated_date ?? new Date().toISOString() }], { onConflict: 'tg_id' });
+
+        if (error) {
+            console.error('Error saving user settings:', error);
+        }
+    }
+
+    // Helper function to list the players who asked for the daily challenge reminder
+    async function listDailyReminders(): Promise<UserSettings[]> {
+        const { data: settings, error } = await fetchAllRows((from, to) => supabase
+            .from('user_settings')
+            .select('*')
+            .eq('daily_reminder', true)
+            .order('tg_id', { ascending: true })
+            .range(from, to));
+
+        if (error || !settings) {
+            console.error('Error listing daily reminders:', error);
+            return [];
+        }
+
+        return settings;
+    }
+
+    return { getSettings, saveSettings, listDailyReminders };
+}
+
+export function createSupabaseAchievementRepository(supabase: SupabaseClient<Database>): AchievementRepository {
+    // Helper function to list the achievements a player unlocked
+    async function listAchievements(tgId: string): Promise<Achievement[]> {
+        const { data: achievements, error } = await supabase
+            .from('achievements')
+            .select('*')
+            .eq('tg_id', tgId)
+            .order('unlocked_date', { ascending: true });
+
+        if (error || !achievements) {
+            console.error('Error listing achievements:', error);
+            return [];
+        }
+
+        return achievements;
+    }
+
+    // Helper function to record an achievement, once per player
+    async function unlockAchievement(achievement: AchievementInsert): Promise<boolean> {
+        const { error } = await supabase
+            .from('achievements')
+            .insert([achievement]);
+
+        if (error) {
+            if (error.code !== UNIQUE_VIOLATION) {
+                console.error('Error unlocking achievement:', error);
+            }
+            return false;
+        }
+
+        return true;
+    }
+
+    return { listAchievements, unlockAchievement };
+}
+
+export function createSupabaseDailyChallengeRepository(supabase: SupabaseClient<Database>): DailyChallengeRepository {
+    // Helper function to get the question set of a day, null when nobody played it yet
+    async function getChallenge(day: string): Promise<DailyChallenge | null> {
+        const { data: challenge, error } = await supabase
+            .from('daily_challenges')
+            .select('*')
+            .eq('day', day)
+            .maybeSingle();
+
+        if (error) {
+            console.error('Error getting daily challenge:', error);
+        }
+
+        return challenge ?? null;
+    }
+
+    // Helper function to save the question set of a day, keeping the one of a player who got there first
+    async function createChallenge(challenge: DailyChallengeInsert): Promise<DailyChallenge | null> {
+        const { data: created, error } = await supabase
+            .from('daily_challenges')
+            .insert([challenge])
+            .select()
+            .single();
+
+        if (error) {
+            if (error.code === UNIQUE_VIOLATION) {
+                return getChallenge(challenge.day);
+            }
+            console.error('Error creating daily challenge:', error);
+            return null;
+        }
+
+        return created;
+    }
+
+    return { getChallenge, createChallenge };
+}
+
+export function createSupabaseQuestionReportRepository(supabase: SupabaseClient<Database>): QuestionReportRepository {
+    // Helper function to record a player's report, false when they already have one open on the question
+    async function createReport(report: QuestionReportInsert): Promise<boolean> {
+        const { error } = await supabase
+            .from('question_reports')
+            .insert([report]);
+
+        if (error) {
+            if (error.code !== UNIQUE_VIOLATION) {
+                console.error('Error reporting question:', error);
+            }
+            return false;
+        }
+
+        return true;
+    }
+
+    // Helper function to list the reports no admin reviewed yet
+    async function listOpenReports(questionId?: string): Promise<QuestionReport[]> {
+        // Helper function to build the query of one page, a builder only runs once
+        const reportsPage = (from: number, to: number) => {
+            let query = supabase
+                .from('question_reports')
+                .select('*')
+                .is('resolved_date', null);
+            if (questionId) {
+                query = query.eq('question_id', questionId);
+            }
+
+            return query
+                .order('created_date', { ascending: true })
+                .order('id', { ascending: true })
+                .range(from, to);
+        };
+
+        const { data: reports, error } = await fetchAllRows(reportsPage);
+        if (error || !reports) {
+            console.error('Error listing question reports:', error);
+            return [];
+        }
+
+        return reports;
+    }
+
+    // Helper function to mark the open reports of a question as reviewed
+    async function resolveReports(questionId: string, resolvedDate: string): Promise<number> {
+        const { data: resolved, error } = await supabase
+            .from('question_reports')
+            .update({ resolved_date: resolvedDate })
+            .eq('question_id', questionId)
+            .is('resolved_date', null)
+            .select('id');
+
+        if (error) {
+            console.error('Error resolving question reports:', error);
+            return 0;
+        }
+
+        return resolved?.length || 0;
+    }
+
+    return { createReport, listOpenReports, resolveReports };
+}
+
+export function createSupabaseHealthRepository(supabase: SupabaseClient<Database>): HealthRepository {
+    // Helper function to check the database answers, with the cheapest query there is
+    async function ping(): Promise<boolean> {
+        const { error } = await supabase
+            .from('questions')
+            .select('id', { count: 'exact', head: true })
+            .limit(1);
+
+        if (error) {
+            console.error('Error reaching the database:', error);
+            return false;
+        }
+
+        return true;
+    }
+
+    return { ping };
+}
+
+export function createSupabaseStorage(supabase: SupabaseClient<Database>): Storage {
+    return {
+        questions: createSupabaseQuestionRepository(supabase),
+        sessions: createSupabaseSessionRepository(supabase),
+        reviews: createSupabaseReviewRepository(supabase),
+        battles: createSupabaseBattleRepository(supabase),
+        chatStates: createSupabaseChatStateRepository(supabase),
+        users: createSupabaseUserSettingsRepository(supabase),
+        achievements: createSupabaseAchievementRepository(supabase),
+        daily: createSupabaseDailyChallengeRepository(supabase),
+        reports: createSupabaseQuestionReportRepository(supabase),
+        health: createSupabaseHealthRepository(supabase)
+    };
+}
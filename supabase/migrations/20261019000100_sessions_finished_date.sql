@@ -0,0 +1,3 @@
+-- Sessions end automatically once max_question is reached, or when the player taps Finish
+alter table public.sessions
+    add column if not exists finished_date timestamptz;
@@ -0,0 +1,13 @@
+-- History of every question served in a session, used to avoid repeats and to score answers
+create table if not exists public.session_questions (
+    id uuid primary key default gen_random_uuid(),
+    session_id uuid not null references public.sessions (id) on delete cascade,
+    question_id uuid not null references public.questions (id) on delete cascade,
+    answer_index integer,
+    is_correct boolean,
+    served_date timestamptz not null default now(),
+    answered_date timestamptz
+);
+
+create index if not exists session_questions_session_id_idx
+    on public.session_questions (session_id);
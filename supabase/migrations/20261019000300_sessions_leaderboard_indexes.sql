@@ -0,0 +1,6 @@
+-- Leaderboards and player stats list sessions by player and creation date
+create index if not exists sessions_created_date_idx
+    on public.sessions (created_date);
+
+create index if not exists sessions_tg_id_idx
+    on public.sessions (tg_id);
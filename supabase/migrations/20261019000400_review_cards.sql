@@ -0,0 +1,14 @@
+-- Review mode resurfaces missed questions on a Leitner schedule, one card per player and question
+alter type public.session_mode add value if not exists 'review';
+
+create table if not exists public.review_cards (
+    tg_id text not null,
+    question_id uuid not null references public.questions (id) on delete cascade,
+    box integer not null default 1,
+    due_date timestamptz not null,
+    reviewed_date timestamptz,
+    primary key (tg_id, question_id)
+);
+
+create index if not exists review_cards_due_idx
+    on public.review_cards (tg_id, due_date);
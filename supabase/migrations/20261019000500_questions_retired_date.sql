@@ -0,0 +1,3 @@
+-- Admins retire questions instead of deleting them, so history and review cards keep their question
+alter table public.questions
+    add column if not exists retired_date timestamptz;
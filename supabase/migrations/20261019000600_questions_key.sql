@@ -0,0 +1,6 @@
+-- Stable key used by bulk imports to update a question instead of inserting a duplicate
+alter table public.questions
+    add column if not exists key text;
+
+create unique index if not exists questions_key_idx
+    on public.questions (key);
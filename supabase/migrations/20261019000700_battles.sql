@@ -0,0 +1,43 @@
+-- Group quiz battles: everyone in the chat answers the same question of each round
+create table if not exists public.battles (
+    id uuid primary key default gen_random_uuid(),
+    chat_id text not null,
+    mode public.session_mode not null default 'mixed',
+    rounds integer not null,
+    round_seconds integer not null,
+    started_by text not null,
+    created_date timestamptz not null default now(),
+    finished_date timestamptz
+);
+
+-- At most one running battle per chat
+create unique index if not exists battles_running_chat_idx
+    on public.battles (chat_id)
+    where finished_date is null;
+
+create table if not exists public.battle_rounds (
+    id uuid primary key default gen_random_uuid(),
+    battle_id uuid not null references public.battles (id) on delete cascade,
+    round integer not null,
+    question_id uuid not null references public.questions (id) on delete cascade,
+    message_id integer,
+    started_date timestamptz not null default now(),
+    closed_date timestamptz,
+    unique (battle_id, round)
+);
+
+-- One answer per participant and round, the first one counts
+create table if not exists public.battle_answers (
+    round_id uuid not null references public.battle_rounds (id) on delete cascade,
+    battle_id uuid not null references public.battles (id) on delete cascade,
+    tg_id text not null,
+    tg_handle text not null,
+    answer_index integer not null,
+    is_correct boolean not null,
+    points integer not null default 0,
+    answered_date timestamptz not null default now(),
+    primary key (round_id, tg_id)
+);
+
+create index if not exists battle_answers_battle_id_idx
+    on public.battle_answers (battle_id);
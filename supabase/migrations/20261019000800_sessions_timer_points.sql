@@ -0,0 +1,4 @@
+-- Optional seconds allowed per question, and points rewarding fast correct answers
+alter table public.sessions
+    add column if not exists time_limit integer,
+    add column if not exists points integer not null default 0;
@@ -0,0 +1,10 @@
+-- Conversation state per player and chat (Telegraf session), so restarts do not lose the active quiz
+create table if not exists public.chat_states (
+    key text primary key,
+    data jsonb not null,
+    expires_date timestamptz not null,
+    updated_date timestamptz not null default now()
+);
+
+create index if not exists chat_states_expires_idx
+    on public.chat_states (expires_date);
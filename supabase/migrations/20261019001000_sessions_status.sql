@@ -0,0 +1,13 @@
+-- Lifecycle of a quiz session: only active sessions are resumed
+create type public.session_status as enum ('active', 'finished', 'abandoned');
+
+alter table public.sessions
+    add column if not exists status public.session_status not null default 'active';
+
+update public.sessions
+    set status = 'finished'
+    where finished_date is not null;
+
+create index if not exists sessions_open_idx
+    on public.sessions (tg_id, created_date desc)
+    where status = 'active';
@@ -0,0 +1,14 @@
+-- Per-player settings, starting with the language picked through /language (null follows Telegram)
+create table if not exists public.user_settings (
+    tg_id text primary key,
+    language text,
+    updated_date timestamptz not null default now()
+);
+
+-- Translated question, choices and answer_info per locale, e.g. {"fr": {"question": "...", "choices": ["..."]}}
+alter table public.questions
+    add column if not exists translations jsonb;
+
+-- Battle messages go to the whole group, in the language of the player who started it
+alter table public.battles
+    add column if not exists language text not null default 'en';
@@ -0,0 +1,35 @@
+-- Authored difficulty of a question: 1 beginner, 2 intermediate, 3 expert; null rates it from its answers
+alter table public.questions
+    add column if not exists difficulty smallint check (difficulty between 1 and 3);
+
+-- Difficulty a session serves (null for any), which adaptive sessions move with the player's streaks
+alter table public.sessions
+    add column if not exists level smallint check (level between 1 and 3),
+    add column if not exists adaptive boolean not null default false;
+
+-- Level of every question: the authored one, else one rated from the correct rate once it has
+-- 10 answers (same thresholds as src/services/difficulty.ts), else intermediate
+create or replace view public.question_levels as
+select
+    q.id,
+    q.tags,
+    q.retired_date,
+    coalesce(
+        q.difficulty,
+        case
+            when coalesce(stats.answered, 0) < 10 then 2
+            when stats.correct_rate >= 0.75 then 1
+            when stats.correct_rate >= 0.4 then 2
+            else 3
+        end
+    )::smallint as level
+from public.questions q
+left join (
+    select
+        question_id,
+        count(*) as answered,
+        avg(case when is_correct then 1.0 else 0.0 end) as correct_rate
+    from public.session_questions
+    where answered_date is not null
+    group by question_id
+) stats on stats.question_id = q.id;
@@ -0,0 +1,3 @@
+-- Tags picked with /topics, a session only serves questions with at least one of them
+alter table public.sessions
+    add column if not exists topics text[];
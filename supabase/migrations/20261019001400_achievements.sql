@@ -0,0 +1,7 @@
+-- Badges unlocked by players, codes such as "streak:7" or "mastery:staking" (see src/services/achievements.ts)
+create table if not exists public.achievements (
+    tg_id text not null,
+    code text not null,
+    unlocked_date timestamptz not null default now(),
+    primary key (tg_id, code)
+);
@@ -0,0 +1,20 @@
+-- Daily challenge: the question set shared by every player on a calendar day (UTC),
+-- picked once from a seed derived from the date
+create table if not exists public.daily_challenges (
+    day date primary key,
+    question_ids uuid[] not null,
+    created_date timestamptz not null default now()
+);
+
+-- Sessions playing the challenge of a day, null for the other sessions
+alter table public.sessions
+    add column if not exists daily_date date;
+
+-- One attempt per player and day
+create unique index if not exists sessions_daily_attempt_idx
+    on public.sessions (tg_id, daily_date)
+    where daily_date is not null;
+
+-- Players who want a reminder to play the daily challenge
+alter table public.user_settings
+    add column if not exists daily_reminder boolean not null default false;
@@ -0,0 +1,27 @@
+-- Problems players report on a question from the answer feedback, kept until an admin reviews them
+-- (reasons as in src/services/questionStats.ts)
+create table if not exists public.question_reports (
+    id uuid primary key default gen_random_uuid(),
+    question_id uuid not null references public.questions (id) on delete cascade,
+    tg_id text not null,
+    reason text not null check (reason in ('wrong_answer', 'unclear', 'typo', 'outdated')),
+    created_date timestamptz not null default now(),
+    resolved_date timestamptz
+);
+
+-- One open report per player and question
+create unique index if not exists question_reports_open_idx
+    on public.question_reports (question_id, tg_id)
+    where resolved_date is null;
+
+-- Served questions of every session grouped by question and picked choice, for /qstats:
+-- a null answer_index with is_correct set is a timeout, with is_correct null a question not answered yet
+create or replace view public.question_choice_stats as
+select
+    question_id,
+    answer_index,
+    is_correct,
+    count(*)::integer as count,
+    coalesce(sum(extract(epoch from answered_date - served_date)), 0)::float8 as total_seconds
+from public.session_questions
+group by question_id, answer_index, is_correct;
@@ -0,0 +1,5 @@
+-- Order the choices of a served question were shown in, shuffled on every serving:
+-- position p of the keyboard showed choice choice_order[p]. Null shows the stored order.
+-- answer_index keeps pointing at the stored choice, whatever its position.
+alter table public.session_questions
+    add column if not exists choice_order smallint[];
@@ -0,0 +1,57 @@
+-- Optional picture or file shown above a question: a Telegram file_id or an HTTP(S) URL
+alter table public.questions
+    add column if not exists media_type text check (media_type in ('photo', 'document')),
+    add column if not exists media text;
+
+-- Telegram formatting of the question text (and its translations), null for plain text
+alter table public.questions
+    add column if not exists parse_mode text check (parse_mode in ('MarkdownV2', 'HTML'));
+
+-- Multi-select questions list every correct choice here and leave answer_index and answer null;
+-- players toggle choices and submit, and only the exact set of correct choices scores
+alter table public.questions
+    add column if not exists answer_indexes smallint[];
+
+-- Choices of a multi-select question the player toggled on, saved on every toggle so the selection
+-- survives restarts, and kept as the answer once submitted
+alter table public.session_questions
+    add column if not exists answer_indexes smallint[];
+
+-- Battles only play questions with one correct choice, so the levels view exposes the multi-select ones
+create or replace view public.question_levels as
+select
+    q.id,
+    q.tags,
+    q.retired_date,
+    coalesce(
+        q.difficulty,
+        case
+            when coalesce(stats.answered, 0) < 10 then 2
+            when stats.correct_rate >= 0.75 then 1
+            when stats.correct_rate >= 0.4 then 2
+            else 3
+        end
+    )::smallint as level,
+    q.answer_indexes
+from public.questions q
+left join (
+    select
+        question_id,
+        count(*) as answered,
+        avg(case when is_correct then 1.0 else 0.0 end) as correct_rate
+    from public.session_questions
+    where answered_date is not null
+    group by question_id
+) stats on stats.question_id = q.id;
+
+-- Answers of multi-select questions are grouped by the set of choices submitted
+create or replace view public.question_choice_stats as
+select
+    question_id,
+    answer_index,
+    is_correct,
+    count(*)::integer as count,
+    coalesce(sum(extract(epoch from answered_date - served_date)), 0)::float8 as total_seconds,
+    answer_indexes
+from public.session_questions
+group by question_id, answer_index, is_correct, answer_indexes;
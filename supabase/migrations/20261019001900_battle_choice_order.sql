@@ -0,0 +1,5 @@
+-- Order the choices of a battle round were shown in, shuffled for every round the same way as
+-- session_questions.choice_order: position p of the keyboard showed choice choice_order[p].
+-- battle_answers.answer_index keeps pointing at the stored choice, whatever its position.
+alter table public.battle_rounds
+    add column if not exists choice_order smallint[];
@@ -0,0 +1,16 @@
+-- Adds an answer to the score of a session in one statement, so answers saved at the same time,
+-- such as a timeout racing a tap, are all counted instead of overwriting each other
+create or replace function public.increment_session_score(
+    target_session_id uuid,
+    answer_correct boolean,
+    answer_points integer
+)
+returns void
+language sql
+as $$
+    update public.sessions
+    set questions = coalesce(questions, 0) + 1,
+        correct = coalesce(correct, 0) + case when answer_correct then 1 else 0 end,
+        points = points + answer_points
+    where id = target_session_id;
+$$;
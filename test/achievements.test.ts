@@ -0,0 +1,142 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { QuestionInsert } from '../src/interfaces/question';
+import { Session, SessionHistoryEntry } from '../src/interfaces/session';
+import { buildBadges, MASTERY_MIN_ANSWERS, parseAchievementCode } from '../src/services/achievements';
+import { createHarness, Harness } from './harness';
+
+const QUESTIONS: QuestionInsert[] = Array.from({ length: 10 }, (_, index) => ({
+    id: `q${index + 1}`,
+    question: `Question ${index + 1}?`,
+    choices: ['Right', 'Wrong'],
+    answer_index: 0,
+    answer: 'Right',
+    tags: ['user', 'staking']
+}));
+
+// An answered question of the default player, on the given day of December 2025
+function answerOn(day: number, isCorrect: boolean, tags = ['staking']): SessionHistoryEntry {
+    const date = `2025-12-${String(day).padStart(2, '0')}T12:00:00.000Z`;
+    return {
+        id: `a${Math.random()}`,
+        session_id: 's1',
+        question_id: 'q1',
+        answer_index: isCorrect ? 0 : 1,
+        answer_indexes: null,
+        choice_order: null,
+        is_correct: isCorrect,
+        served_date: date,
+        answered_date: date,
+        questions: { ...QUESTIONS[0], tags } as SessionHistoryEntry['questions']
+    };
+}
+
+function badge(badges: ReturnType<typeof buildBadges>, code: string) {
+    const found = badges.find((candidate) => candidate.code === code);
+    assert.ok(found, `${code} should be listed`);
+    return found;
+}
+
+describe('buildBadges', () => {
+    const now = new Date('2025-12-10T08:00:00.000Z');
+
+    it('counts days played in a row, the current streak only when it is still going', () => {
+        const badges = buildBadges([], [answerOn(1, true), answerOn(2, false), answerOn(3, true), answerOn(9, true)], now);
+
+        assert.equal(badge(badges, 'streak:3').earned, true);
+        assert.equal(badge(badges, 'streak:7').earned, false);
+        assert.equal(badge(badges, 'streak:7').progress, 1);
+    });
+
+    it('counts correct answers in a row across sessions', () => {
+        const answers = [...Array.from({ length: 10 }, () => answerOn(1, true)), answerOn(2, false), answerOn(2, true)];
+        const badges = buildBadges([], answers, now);
+
+        assert.equal(badge(badges, 'row:10').earned, true);
+        assert.equal(badge(badges, 'row:25').earned, false);
+        assert.equal(badge(badges, 'row:25').progress, 1);
+    });
+
+    it('masters a topic with enough answers at the required accuracy, leaving mode tags out', () => {
+        const answers = Array.from({ length: MASTERY_MIN_ANSWERS }, (_, index) => answerOn(1, index % 10 !== 0, ['user', 'staking']));
+        const badges = buildBadges([], answers, now);
+
+        assert.equal(badge(badges, 'mastery:staking').earned, true);
+        assert.equal(badge(badges, 'mastery:staking').accuracy, 0.9);
+        assert.ok(!badges.some((candidate) => candidate.code === 'mastery:user'));
+    });
+
+    it('rewards sessions of ten questions without a miss', () => {
+        const session = { id: 's1', questions: 10, correct: 10 } as Session;
+        assert.equal(badge(buildBadges([session], [], now), 'perfect:10').earned, true);
+        assert.equal(badge(buildBadges([{ ...session, correct: 9 }], [], now), 'perfect:10').earned, false);
+    });
+
+    it('reads achievement codes back', () => {
+        assert.deepEqual(parseAchievementCode('streak:7'), { kind: 'streak', target: 7 });
+        assert.deepEqual(parseAchievementCode('mastery:smart-contracts'), { kind: 'mastery', target: MASTERY_MIN_ANSWERS, tag: 'smart-contracts' });
+        assert.equal(parseAchievementCode('unknown:1'), null);
+    });
+});
+
+describe('achievements', () => {
+    let harness: Harness;
+
+    beforeEach(() => {
+        harness = createHarness({ questions: QUESTIONS });
+    });
+
+    afterEach(() => {
+        mock.restoreAll();
+    });
+
+    async function playPerfectSession() {
+        await harness.sendText('/start');
+        await harness.tap('mode:user');
+        await harness.tapLabel('10');
+        await harness.tapLabel('🐢 No limit');
+        await harness.tapLabel('🌿 Intermediate');
+        for (let index = 0; index < 10; index++) {
+            await harness.tapLabel('Right');
+            if (index < 9) {
+                await harness.tapLabel('Next Question ⏭️');
+            }
+        }
+    }
+
+    it('celebrates achievements as soon as they are unlocked', async () => {
+        await playPerfectSession();
+
+        const unlocks = harness.messages.filter((sent) => sent.text.startsWith('🎉 Achievement unlocked'));
+        assert.deepEqual(unlocks.map((sent) => sent.text.split('\n')[0]), [
+            '🎉 Achievement unlocked: 💯 Perfect 10',
+            '🎉 Achievement unlocked: 🎯 10 in a row'
+        ]);
+        assert.match(harness.lastMessage()!.text, /Session completed! 🎉/);
+        assert.deepEqual(harness.storage.tables.achievements.map((achievement) => achievement.code).sort(), ['perfect:10', 'row:10']);
+    });
+
+    it('only celebrates an achievement once', async () => {
+        await playPerfectSession();
+        await playPerfectSession();
+
+        // The second session only adds the topic mastery, reached at 20 answers
+        const unlocks = harness.messages.filter((sent) => sent.text.startsWith('🎉 Achievement unlocked'));
+        assert.deepEqual(unlocks.map((sent) => sent.text.split('\n')[0]), [
+            '🎉 Achievement unlocked: 💯 Perfect 10',
+            '🎉 Achievement unlocked: 🎯 10 in a row',
+            '🎉 Achievement unlocked: 🎓 #staking master'
+        ]);
+    });
+
+    it('lists earned and locked achievements with the progress', async () => {
+        await playPerfectSession();
+        await harness.sendText('/achievements');
+
+        const text = harness.lastMessage()!.text;
+        assert.match(text, /🏅 Your achievements: 2\/8/);
+        assert.match(text, /💯 Perfect 10 — Answer 10 questions of a session without a miss \(2026-01-01\)/);
+        assert.match(text, /🔒 🔥 3-day streak — Play 3 days in a row · 1\/3/);
+        assert.match(text, /🔒 🎓 #staking master — Reach 80% accuracy over at least 20 #staking questions · 100% over 10\/20/);
+    });
+});
@@ -0,0 +1,110 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { QuestionInsert } from '../src/interfaces/question';
+import { validateQuestion } from '../src/services/questionValidation';
+import { buttons, createHarness, Harness } from './harness';
+
+const ADMIN = { id: 7, username: 'admin' };
+
+const QUESTIONS: QuestionInsert[] = [
+    { id: 'q1', question: 'Native token of XPR Network?', choices: ['XPR', 'EOS'], answer_index: 0, answer: 'XPR', tags: ['user', 'tokens'] }
+];
+
+describe('validateQuestion', () => {
+    const valid: QuestionInsert = { question: 'Q?', choices: ['a', 'b'], answer_index: 1, answer: 'b', tags: ['user'] };
+
+    it('accepts a valid question', () => {
+        assert.deepEqual(validateQuestion(valid, ['user']), []);
+    });
+
+    it('reports every broken rule', () => {
+        assert.deepEqual(validateQuestion({ ...valid, choices: ['a'] , answer_index: 0, answer: 'a' }, ['user']), [
+            'Expected 2 to 10 choices, got 1'
+        ]);
+        assert.deepEqual(validateQuestion({ ...valid, answer_index: 2 }, ['user']), ['answer_index 2 is out of range']);
+        assert.deepEqual(validateQuestion({ ...valid, answer: 'a' }, ['user']), ['answer "a" does not match choice 1 "b"']);
+        assert.deepEqual(validateQuestion({ ...valid, tags: ['stakng'] }, ['user']), ['Unknown tags: stakng']);
+    });
+});
+
+describe('admin question management', () => {
+    let harness: Harness;
+
+    beforeEach(() => {
+        harness = createHarness({ questions: QUESTIONS, adminIds: ['7'], questionTags: ['staking'] });
+    });
+
+    afterEach(() => {
+        mock.restoreAll();
+    });
+
+    it('keeps the commands for admins', async () => {
+        await harness.sendText('/addquestion');
+        assert.equal(harness.lastMessage()!.text, 'This command is for admins only.');
+    });
+
+    it('adds a question through the guided conversation', async () => {
+        await harness.sendText('/addquestion', ADMIN);
+        await harness.sendText('Which mechanism secures XPR Network?', ADMIN);
+        await harness.sendText('Proof of Work\nDelegated Proof of Stake\nProof of Authority', ADMIN);
+        await harness.sendText('4', ADMIN);
+        assert.match(harness.lastMessage(ADMIN.id)!.text, /Send a number between 1 and 3/);
+
+        await harness.sendText('2', ADMIN);
+        await harness.sendText('/skip', ADMIN);
+        await harness.sendText('user, stakng', ADMIN);
+        assert.match(harness.lastMessage(ADMIN.id)!.text, /Unknown tags: stakng/);
+
+        await harness.sendText('user, #staking', ADMIN);
+        const review = harness.lastMessage(ADMIN.id)!;
+        assert.match(review.text, /2\. Delegated Proof of Stake ✅/);
+        assert.ok(buttons(review).some((button) => button.text === '💾 Save'));
+
+        await harness.tapLabel('💾 Save', ADMIN);
+        const saved = harness.storage.tables.questions.find((question) => question.question.startsWith('Which mechanism'));
+        assert.deepEqual(saved && {
+            choices: saved.choices,
+            answer_index: saved.answer_index,
+            answer: saved.answer,
+            answer_info: saved.answer_info,
+            tags: saved.tags
+        }, {
+            choices: ['Proof of Work', 'Delegated Proof of Stake', 'Proof of Authority'],
+            answer_index: 1,
+            answer: 'Delegated Proof of Stake',
+            answer_info: null,
+            tags: ['user', 'staking']
+        });
+    });
+
+    it('asks for the answer again when edited choices drop it', async () => {
+        await harness.sendText('/editquestion q1', ADMIN);
+        await harness.tapLabel('🔢 Choices', ADMIN);
+        await harness.sendText('PRO\nWAX', ADMIN);
+        assert.match(harness.lastMessage(ADMIN.id)!.text, /Send the number of the correct choice/);
+
+        await harness.sendText('1', ADMIN);
+        await harness.tapLabel('💾 Save', ADMIN);
+
+        const [question] = harness.storage.tables.questions;
+        assert.deepEqual(question.choices, ['PRO', 'WAX']);
+        assert.equal(question.answer, 'PRO');
+    });
+
+    it('retires a question so players no longer get it', async () => {
+        await harness.sendText('/retirequestion q1', ADMIN);
+        await harness.tapLabel('🗄️ Retire', ADMIN);
+        assert.ok(harness.storage.tables.questions[0].retired_date);
+
+        assert.equal(await harness.storage.questions.getRandomQuestion({ mode: 'mixed' }), null);
+    });
+
+    it('previews a question with its problems', async () => {
+        harness.storage.tables.questions[0].answer = 'EOS';
+        await harness.sendText('/previewquestion q1', ADMIN);
+
+        const text = harness.lastMessage(ADMIN.id)!.text;
+        assert.match(text, /1\. XPR ✅/);
+        assert.match(text, /answer "EOS" does not match choice 0 "XPR"/);
+    });
+});
@@ -0,0 +1,152 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { QuestionInsert } from '../src/interfaces/question';
+import { orderChoices, toPosition } from '../src/services/choiceOrder';
+import { scoreAnswer } from '../src/services/scoring';
+import { buttons, createHarness, Harness } from './harness';
+
+const GROUP_ID = -1001;
+const HOST = { id: 7, username: 'host' };
+const ALICE = { id: 1001, username: 'alice' };
+const BOB = { id: 1002, username: 'bob' };
+
+// The first choice is always the right one
+const QUESTIONS: QuestionInsert[] = ['q1', 'q2', 'q3'].map((id) => ({
+    id,
+    question: `Question ${id}?`,
+    choices: ['right', 'wrong'],
+    answer_index: 0,
+    answer: 'right',
+    tags: ['user']
+}));
+
+describe('scoreAnswer', () => {
+    it('rewards correct answers, more when they are fast', () => {
+        assert.equal(scoreAnswer(false, 1000, 20000), 0);
+        assert.equal(scoreAnswer(true, 0, 20000), 1000);
+        assert.equal(scoreAnswer(true, 5000, 20000), 875);
+        assert.equal(scoreAnswer(true, 20000, 20000), 500);
+    });
+});
+
+describe('/battle', () => {
+    let harness: Harness;
+
+    beforeEach(() => {
+        harness = createHarness({ questions: QUESTIONS, adminIds: ['7'] });
+    });
+
+    afterEach(() => {
+        mock.restoreAll();
+    });
+
+    // Answer the current round, the first stored choice being correct
+    async function answer(user: typeof ALICE, correct: boolean) {
+        const round = harness.storage.tables.battle_rounds.at(-1)!;
+        const position = toPosition(round.choice_order, 2, correct ? 0 : 1);
+        await harness.tap(`battle:${round.id}_${position}`, user, round.message_id!, GROUP_ID);
+    }
+
+    it('is played in groups only', async () => {
+        await harness.sendText('/battle');
+        assert.match(harness.lastMessage()!.text, /Battles are played in groups/);
+    });
+
+    it('can only be started by admins', async () => {
+        await harness.sendText('/battle', ALICE, GROUP_ID);
+        assert.equal(harness.lastMessage(GROUP_ID)!.text, 'Only group admins can start a battle.');
+        assert.equal(harness.storage.tables.battles.length, 0);
+    });
+
+    it('scores every participant on speed and correctness, with a scoreboard per round and a podium', async () => {
+        await harness.sendText('/battle 2', HOST, GROUP_ID);
+        assert.match(harness.lastMessage(GROUP_ID)!.text, /^⚔️ Round 1\/2 · ⏱ 20s/);
+        assert.equal(buttons(harness.lastMessage(GROUP_ID)).length, 2);
+
+        await harness.advance(5000);
+        await answer(ALICE, true);
+        await answer(BOB, false);
+        await answer(ALICE, false);
+        assert.deepEqual(harness.callbackAnswers(), [
+            '🔒 Locked in: right',
+            '🔒 Locked in: wrong',
+            'You already answered this round.'
+        ]);
+
+        await harness.advance(15000);
+        const result = harness.messages.filter((message) => message.chatId === GROUP_ID).at(-1)!.text;
+        assert.match(result, /Round 1\/2 is over!\n✅ Answer: right/);
+        assert.match(result, /1 of 2 got it right\.\n⚡ Fastest: alice \(\+875\)/);
+        assert.match(result, /1\. alice — 875 pts \(1\/1\)\n2\. bob — 0 pts \(0\/1\)/);
+        const firstRound = harness.messages.find((message) => message.text.startsWith('⚔️ Round 1/2'))!;
+        assert.equal(buttons(firstRound).length, 0);
+
+        await harness.advance(5000);
+        assert.match(harness.lastMessage(GROUP_ID)!.text, /^⚔️ Round 2\/2/);
+        await harness.advance(2000);
+        await answer(BOB, true);
+
+        await harness.advance(18000);
+        const podium = harness.lastMessage(GROUP_ID)!.text;
+        assert.match(podium, /🏁 Battle over!/);
+        assert.match(podium, /🥇 bob — 950 pts \(1\/2\)\n🥈 alice — 875 pts \(1\/1\)/);
+        assert.ok(harness.storage.tables.battles[0].finished_date);
+
+        // Both rounds used a different question
+        const [first, second] = harness.storage.tables.battle_rounds;
+        assert.notEqual(first.question_id, second.question_id);
+    });
+
+    it('shuffles the choices of every round and scores the choice shown on the tapped button', async () => {
+        await harness.sendText('/battle 1', HOST, GROUP_ID);
+        const round = harness.storage.tables.battle_rounds[0];
+        assert.deepEqual(
+            buttons(harness.lastMessage(GROUP_ID)).map((button) => button.text),
+            orderChoices(['right', 'wrong'], round.choice_order)
+        );
+
+        const position = toPosition(round.choice_order, 2, 0);
+        await harness.tap(`battle:${round.id}_${position}`, ALICE, round.message_id!, GROUP_ID);
+
+        assert.deepEqual(harness.callbackAnswers(), ['🔒 Locked in: right']);
+        assert.equal(harness.storage.tables.battle_answers[0].answer_index, 0);
+        assert.equal(harness.storage.tables.battle_answers[0].is_correct, true);
+    });
+
+    it('refuses positions the round keyboard does not have', async () => {
+        await harness.sendText('/battle 1', HOST, GROUP_ID);
+        const round = harness.storage.tables.battle_rounds[0];
+
+        await harness.tap(`battle:${round.id}_7`, ALICE, round.message_id!, GROUP_ID);
+
+        assert.deepEqual(harness.callbackAnswers(), ['Answer error. Invalid answer index.']);
+        assert.equal(harness.storage.tables.battle_answers.length, 0);
+    });
+
+    it('refuses answers once the round is over', async () => {
+        await harness.sendText('/battle 1', HOST, GROUP_ID);
+        const round = harness.storage.tables.battle_rounds[0];
+
+        await harness.advance(20000);
+        await harness.tap(`battle:${round.id}_0`, ALICE, round.message_id!, GROUP_ID);
+
+        assert.deepEqual(harness.callbackAnswers(), ['This round is over.']);
+        assert.equal(harness.storage.tables.battle_answers.length, 0);
+    });
+
+    it('runs one battle per group, and admins can stop it early', async () => {
+        await harness.sendText('/battle', HOST, GROUP_ID);
+        await harness.sendText('/battle', HOST, GROUP_ID);
+        assert.match(harness.lastMessage(GROUP_ID)!.text, /A battle is already running here/);
+
+        await answer(ALICE, true);
+        await harness.sendText('/stopbattle', HOST, GROUP_ID);
+        assert.match(harness.lastMessage(GROUP_ID)!.text, /🏁 Battle over!\n\n🥇 alice — 1000 pts/);
+
+        // The pending round timer finds the battle over and posts nothing more
+        const sent = harness.messages.length;
+        await harness.advance(60000);
+        assert.equal(harness.messages.length, sent);
+        assert.equal(harness.storage.tables.battle_rounds.length, 1);
+    });
+});
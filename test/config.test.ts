@@ -0,0 +1,109 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { DEFAULT_QUIZ_LENGTHS, loadConfig } from '../src/config';
+import { DEFAULT_RATE_LIMITS } from '../src/services/rateLimit';
+
+const MINIMAL_ENV = { BOT_TOKEN: 'token', STORAGE_BACKEND: 'memory' };
+
+describe('loadConfig', () => {
+    let directory: string;
+
+    beforeEach(() => {
+        directory = mkdtempSync(join(tmpdir(), 'xpr-guru-config-'));
+    });
+
+    afterEach(() => {
+        rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('fills in the defaults', () => {
+        const config = loadConfig(MINIMAL_ENV);
+
+        assert.deepEqual(config.storage, { backend: 'memory', questionsFile: null, stateFile: null });
+        assert.equal(config.defaultQuizLength, 10);
+        assert.deepEqual(config.quizLengths, DEFAULT_QUIZ_LENGTHS);
+        assert.equal(config.defaultLocale, 'en');
+        assert.equal(config.dailyReminderHour, null);
+        assert.deepEqual(config.rateLimits, DEFAULT_RATE_LIMITS);
+        assert.equal(config.port, null);
+        assert.equal(config.webhook, null);
+    });
+
+    it('reads the environment variables', () => {
+        const config = loadConfig({
+            ...MINIMAL_ENV,
+            ADMIN_IDS: '1, 2',
+            QUIZ_LENGTHS: '3,6,0',
+            DEFAULT_QUIZ_LENGTH: '6',
+            DEFAULT_LOCALE: 'fr',
+            RATE_LIMITS: '{"banSeconds": 30}',
+            WEBHOOK_DOMAIN: 'https://bot.example.com/',
+            WEBHOOK_SECRET: 's3cret_token'
+        });
+
+        assert.deepEqual(config.adminIds, ['1', '2']);
+        assert.deepEqual(config.quizLengths, [3, 6, 0]);
+        assert.equal(config.defaultQuizLength, 6);
+        assert.equal(config.defaultLocale, 'fr');
+        assert.equal(config.rateLimits.banSeconds, 30);
+        assert.deepEqual(config.webhook, { domain: 'bot.example.com', path: '/telegram', secretToken: 's3cret_token' });
+        assert.equal(config.port, 8080);
+    });
+
+    it('reads a YAML config file, the environment taking precedence', () => {
+        const file = join(directory, 'config.yaml');
+        writeFileSync(file, [
+            'botToken: from-file',
+            'storageBackend: memory',
+            'adminIds: [10, 20]',
+            'timeLimits: [20, 0]',
+            'sessionTtlHours: 12',
+            'rateLimits:',
+            '  user:',
+            '    session: { capacity: 1 }'
+        ].join('\n'));
+
+        const config = loadConfig({ CONFIG_FILE: file, SESSION_TTL_HOURS: '48' });
+
+        assert.equal(config.botToken, 'from-file');
+        assert.deepEqual(config.adminIds, ['10', '20']);
+        assert.deepEqual(config.timeLimits, [20, 0]);
+        assert.equal(config.sessionTtlHours, 48);
+        assert.equal(config.rateLimits.user.session.capacity, 1);
+    });
+
+    it('lists every invalid setting in one error', () => {
+        assert.throws(() => loadConfig({
+            DAILY_REMINDER_HOUR: '24',
+            QUIZ_LENGTHS: '5,ten',
+            DEFAULT_LOCALE: 'de',
+            WEBHOOK_DOMAIN: 'bot.example.com'
+        }), (err: Error) => {
+            assert.equal(err.message, [
+                'Invalid configuration:',
+                '  - BOT_TOKEN (botToken) is required',
+                '  - SUPABASE_URL (supabaseUrl) is required by the supabase storage backend',
+                '  - SUPABASE_KEY (supabaseKey) is required by the supabase storage backend',
+                '  - DEFAULT_LOCALE (defaultLocale) must be one of en, fr, got "de"',
+                '  - WEBHOOK_SECRET (webhookSecret) is required with WEBHOOK_DOMAIN',
+                '  - DAILY_REMINDER_HOUR (dailyReminderHour) must be a whole number from 0 to 23, got "24"',
+                '  - QUIZ_LENGTHS (quizLengths) must list up to 8 whole numbers from 0 (0 for no limit), got "5,ten"'
+            ].join('\n'));
+            return true;
+        });
+    });
+
+    it('rejects unknown settings in the config file', () => {
+        const file = join(directory, 'config.json');
+        writeFileSync(file, JSON.stringify({ botToken: 'token', storageBackend: 'memory', quizLength: 5 }));
+
+        assert.throws(() => loadConfig({ CONFIG_FILE: file }), /Unknown setting "quizLength" in .*config\.json/);
+    });
+
+    it('lets commands that do not talk to Telegram run without a bot token', () => {
+        assert.equal(loadConfig({ STORAGE_BACKEND: 'memory' }, { requireBotToken: false }).botToken, '');
+    });
+});
@@ -0,0 +1,141 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { QuestionInsert } from '../src/interfaces/question';
+import { DAILY_QUESTIONS, nextReminderDelay, pickDailyQuestions } from '../src/services/daily';
+import { createHarness, DEFAULT_USER, Harness, TestUser } from './harness';
+
+const QUESTIONS: QuestionInsert[] = Array.from({ length: 12 }, (_, index) => ({
+    id: `q${index + 1}`,
+    question: `Question ${index + 1}?`,
+    choices: ['Right', 'Wrong'],
+    answer_index: 0,
+    answer: 'Right',
+    tags: ['user']
+}));
+
+const BOB: TestUser = { id: 1002, username: 'bob', languageCode: 'en' };
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('pickDailyQuestions', () => {
+    const ids = QUESTIONS.map((question) => question.id!);
+
+    it('draws the same questions for the same day, whatever the order of the candidates', () => {
+        const picked = pickDailyQuestions(ids, '2026-01-01');
+
+        assert.equal(picked.length, DAILY_QUESTIONS);
+        assert.equal(new Set(picked).size, DAILY_QUESTIONS);
+        assert.deepEqual(pickDailyQuestions([...ids].reverse(), '2026-01-01'), picked);
+    });
+
+    it('draws other questions on other days', () => {
+        const days = ['2026-01-02', '2026-01-03', '2026-01-04'].map((day) => pickDailyQuestions(ids, day).join());
+        assert.ok(days.some((picked) => picked !== pickDailyQuestions(ids, '2026-01-01').join()));
+    });
+
+    it('waits until the reminder hour, or the next day once it is past', () => {
+        const now = new Date('2026-01-01T12:00:00.000Z');
+        assert.equal(nextReminderDelay(now, 18), 6 * HOUR_MS);
+        assert.equal(nextReminderDelay(now, 12), 24 * HOUR_MS);
+        assert.equal(nextReminderDelay(now, 9), 21 * HOUR_MS);
+    });
+});
+
+describe('/daily', () => {
+    let harness: Harness;
+
+    beforeEach(() => {
+        harness = createHarness({ questions: QUESTIONS, dailyReminderHour: 18 });
+    });
+
+    afterEach(() => {
+        mock.restoreAll();
+    });
+
+    // Play the whole challenge, missing the questions listed, and return the questions asked in order
+    async function playDaily(user: TestUser, missed: number[] = []): Promise<string[]> {
+        await harness.sendText('/daily', user);
+
+        const asked: string[] = [];
+        for (let index = 0; index < DAILY_QUESTIONS; index++) {
+            asked.push(harness.lastMessage(user.id)!.text.match(/Question \d+\?/)![0]);
+            await harness.tapLabel(missed.includes(index) ? 'Wrong' : 'Right', user);
+            if (index < DAILY_QUESTIONS - 1) {
+                await harness.tapLabel('Next Question ⏭️', user);
+            }
+        }
+        return asked;
+    }
+
+    it('asks every player the same questions and ranks them in the report', async () => {
+        const aliceQuestions = await playDaily(DEFAULT_USER);
+        assert.match(harness.lastMessage()!.text, /📅 Daily rank: #1 of 1/);
+
+        const bobQuestions = await playDaily(BOB, [0]);
+        assert.deepEqual(bobQuestions, aliceQuestions);
+        assert.match(harness.lastMessage(BOB.id)!.text, /Correct answers: 4/);
+        assert.match(harness.lastMessage(BOB.id)!.text, /📅 Daily rank: #2 of 2/);
+
+        assert.equal(harness.storage.tables.daily_challenges.length, 1);
+        assert.deepEqual(harness.storage.tables.sessions.map((session) => session.daily_date), ['2026-01-01', '2026-01-01']);
+    });
+
+    it('allows one attempt per day, and a new challenge the next day', async () => {
+        await playDaily(DEFAULT_USER, [2]);
+
+        await harness.sendText('/daily');
+        assert.match(harness.lastMessage()!.text, /You already played today's challenge: 4\/5 correct/);
+
+        harness.clock.advance(24 * HOUR_MS);
+        await harness.sendText('/daily');
+        assert.match(harness.lastMessage()!.text, /📅 Daily challenge of 2026-01-02: 5 questions, 30s each/);
+        assert.equal(harness.storage.tables.daily_challenges.length, 2);
+    });
+
+    it('resumes an attempt left in the middle', async () => {
+        await harness.sendText('/daily');
+        await harness.tapLabel('Right');
+        await harness.sendText('/daily');
+
+        assert.match(harness.lastMessage()!.text, /Question 2\/5/);
+        assert.equal(harness.storage.tables.sessions.length, 1);
+    });
+
+    it('shows the day\'s ranking', async () => {
+        await harness.sendText('/dailyrank');
+        assert.match(harness.lastMessage()!.text, /Nobody played today's challenge yet/);
+
+        await playDaily(DEFAULT_USER);
+        await playDaily(BOB, [0, 1]);
+        await harness.sendText('/dailyrank', BOB);
+
+        const text = harness.lastMessage(BOB.id)!.text;
+        assert.match(text, /📅 Daily challenge — 2026-01-01/);
+        assert.match(text, /🥇 @alice — 5\/5/);
+        assert.match(text, /🥈 @bob — 3\/5/);
+        assert.match(text, /Your rank: #2 of 2/);
+    });
+
+    it('reminds the players who opted in and did not play yet', async () => {
+        await harness.sendText('/dailyrank');
+        await harness.tapLabel('🔔 Remind me every day');
+        assert.equal(harness.callbackAnswers().at(-1), 'You will be reminded every day at 18:00 UTC.');
+        assert.equal(harness.storage.tables.user_settings.find((settings) => settings.tg_id === '1001')?.daily_reminder, true);
+
+        await harness.sendText('/dailyrank', BOB);
+        await harness.tapLabel('🔔 Remind me every day', BOB);
+        await playDaily(BOB);
+
+        const sent = harness.messages.length;
+        await harness.advance(6 * HOUR_MS);
+        const reminders = harness.messages.slice(sent);
+        assert.deepEqual(reminders.map((message) => [message.chatId, message.text]), [[1001, '📅 Today\'s challenge is waiting for you!']]);
+
+        await harness.tapLabel('▶️ Play now');
+        assert.match(harness.lastMessage()!.text, /Question \d+\?/);
+
+        // The next reminder goes out the next day, and only to players who did not play yet
+        await harness.advance(24 * HOUR_MS);
+        assert.equal(harness.messages.filter((message) => message.text.startsWith('📅 Today\'s challenge')).length, 3);
+    });
+});
@@ -0,0 +1,292 @@
+import { mock } from 'node:test';
+import { Telegram } from 'telegraf';
+import type { InlineKeyboardButton, InlineKeyboardMarkup, Update } from 'telegraf/types';
+import { createBot } from '../src/app';
+import { BotDeps, Clock, Scheduler } from '../src/interfaces/bot';
+import { QuestionInsert } from '../src/interfaces/question';
+import { RATE_LIMIT_ACTIONS, RateLimitConfig } from '../src/services/rateLimit';
+import { createMemoryStorage } from '../src/storage/memory';
+
+export interface ApiCall {
+    method: string;
+    payload: Record<string, unknown>;
+}
+
+export interface SentMessage {
+    messageId: number;
+    chatId: number;
+    text: string;
+    keyboard?: InlineKeyboardMarkup;
+}
+
+export interface HarnessOptions extends Partial<Omit<BotDeps, 'token' | 'storage' | 'clock' | 'scheduler'>> {
+    questions?: QuestionInsert[];
+    // Reuse the storage of an earlier harness, as a restarted bot would
+    storage?: ReturnType<typeof createMemoryStorage>;
+    clock?: TestClock;
+}
+
+export type TestClock = Clock & { advance(ms: number): void };
+
+export interface TestUser {
+    id: number;
+    username?: string;
+    languageCode?: string;
+}
+
+// A clock the tests move forward by hand
+export function createTestClock(start = '2026-01-01T12:00:00.000Z'): TestClock {
+    let current = new Date(start).getTime();
+    return {
+        now: () => new Date(current),
+        advance: (ms: number) => {
+            current += ms;
+        }
+    };
+}
+
+// A scheduler whose tasks only run when the tests move its clock forward
+export function createTestScheduler(clock: TestClock): Scheduler & { advance(ms: number): Promise<void> } {
+    const tasks: { at: number, task: () => Promise<void> }[] = [];
+
+    return {
+        schedule: (task, delayMs) => {
+            tasks.push({ at: clock.now().getTime() + delayMs, task });
+        },
+        // Run every task due by then, in order, including the ones they schedule
+        advance: async (ms) => {
+            const target = clock.now().getTime() + ms;
+            for (;;) {
+                const due = tasks
+                    .filter((candidate) => candidate.at <= target)
+                    .sort((a, b) => a.at - b.at)[0];
+                if (!due) {
+                    break;
+                }
+                tasks.splice(tasks.indexOf(due), 1);
+                clock.advance(Math.max(due.at - clock.now().getTime(), 0));
+                await due.task();
+            }
+            clock.advance(target - clock.now().getTime());
+        }
+    };
+}
+
+// Tests tap faster than any player, the limits only apply where a test sets them
+export const NO_RATE_LIMITS: RateLimitConfig = {
+    user: Object.fromEntries(RATE_LIMIT_ACTIONS.map((action) => [action, { capacity: 1000, refillSeconds: 0.001 }])) as RateLimitConfig['user'],
+    chat: { capacity: 1000, refillSeconds: 0.001 },
+    strikes: 1000,
+    strikeWindowSeconds: 1,
+    banSeconds: 0
+};
+
+export const DEFAULT_USER: TestUser = { id: 1001, username: 'alice', languageCode: 'en' };
+
+// Runs the real bot against synthetic updates and records every Bot API call it makes
+// The inline keyboard sent with a message, reply keyboards are left out
+function inlineKeyboard(payload: Record<string, unknown>): InlineKeyboardMarkup | undefined {
+    const markup = payload.reply_markup as Partial<InlineKeyboardMarkup> | undefined;
+    return markup?.inline_keyboard ? markup as InlineKeyboardMarkup : undefined;
+}
+
+export function createHarness(options: HarnessOptions = {}) {
+    const { questions, clock = createTestClock(), storage = createMemoryStorage({ questions }), ...deps } = options;
+    const scheduler = createTestScheduler(clock);
+    const bot = createBot({ rateLimits: NO_RATE_LIMITS, ...deps, token: 'test-token', storage, clock, scheduler });
+    bot.botInfo = {
+        id: 42,
+        is_bot: true,
+        first_name: 'XPR Guru',
+        username: 'xpr_guru_bot',
+        can_join_groups: true,
+        can_read_all_group_messages: false,
+        supports_inline_queries: false
+    };
+
+    const calls: ApiCall[] = [];
+    const messages: SentMessage[] = [];
+    // Content of the documents sent to the bot, by file_id
+    const files = new Map<string, string>();
+    let nextUpdateId = 1;
+    let nextMessageId = 1;
+
+    // Every Telegram instance the bot creates per update shares this prototype
+    mock.method(Telegram.prototype, 'callApi', async (method: string, payload: Record<string, unknown>) => {
+        calls.push({ method, payload });
+
+        if (method === 'sendMessage' || method === 'sendPhoto' || method === 'sendDocument') {
+            const message: SentMessage = {
+                messageId: nextMessageId++,
+                chatId: Number(payload.chat_id),
+                text: String(payload.text ?? payload.caption ?? ''),
+                keyboard: inlineKeyboard(payload)
+            };
+            messages.push(message);
+            return {
+                message_id: message.messageId,
+                date: Math.floor(clock.now().getTime() / 1000),
+                chat: { id: message.chatId, type: message.chatId < 0 ? 'group' : 'private' },
+                text: message.text
+            };
+        }
+
+        if (method === 'editMessageText' || method === 'editMessageReplyMarkup' || method === 'editMessageCaption') {
+            const message = messages.find((sent) => sent.messageId === payload.message_id && sent.chatId === Number(payload.chat_id));
+            if (message) {
+                if (typeof payload.text === 'string') {
+                    message.text = payload.text;
+                }
+                if (typeof payload.caption === 'string') {
+                    message.text = payload.caption;
+                }
+                message.keyboard = inlineKeyboard(payload);
+            }
+            return true;
+        }
+
+        if (method === 'getFile') {
+            return { file_id: payload.file_id, file_unique_id: payload.file_id, file_path: `documents/${payload.file_id}` };
+        }
+
+        if (method === 'getChatMember') {
+            return { status: 'member', user: { id: payload.user_id, is_bot: false, first_name: 'user' } };
+        }
+
+        return true;
+    });
+
+    // Downloads of the files served by getFile
+    mock.method(globalThis, 'fetch', async (url: URL | string) => {
+        const fileId = url.toString().split('/documents/').pop() || '';
+        const content = files.get(fileId);
+        return content === undefined
+            ? new Response('Not found', { status: 404 })
+            : new Response(content);
+    });
+
+    const toFrom = (user: TestUser) => ({
+        id: user.id,
+        is_bot: false,
+        first_name: user.username || `user${user.id}`,
+        username: user.username,
+        language_code: user.languageCode
+    });
+
+    const toChat = (user: TestUser, chatId?: number) => chatId && chatId < 0
+        ? { id: chatId, type: 'supergroup' as const, title: 'Quiz night' }
+        : { id: chatId ?? user.id, type: 'private' as const, first_name: user.username || `user${user.id}` };
+
+    // Send a text message, slash commands included
+    async function sendText(text: string, user: TestUser = DEFAULT_USER, chatId?: number): Promise<void> {
+        const entities = text.startsWith('/')
+            ? [{ type: 'bot_command' as const, offset: 0, length: text.split(' ')[0].length }]
+            : undefined;
+        const update: Update.MessageUpdate = {
+            update_id: nextUpdateId++,
+            message: {
+                message_id: nextMessageId++,
+                date: Math.floor(clock.now().getTime() / 1000),
+                chat: toChat(user, chatId),
+                from: toFrom(user),
+                text,
+                entities
+            }
+        };
+        await bot.handleUpdate(update);
+    }
+
+    // Send a file as a document, with an optional caption
+    async function sendDocument(fileName: string, content: string, caption?: string, user: TestUser = DEFAULT_USER): Promise<void> {
+        const fileId = `file${files.size + 1}`;
+        files.set(fileId, content);
+        const update: Update.MessageUpdate = {
+            update_id: nextUpdateId++,
+            message: {
+                message_id: nextMessageId++,
+                date: Math.floor(clock.now().getTime() / 1000),
+                chat: toChat(user),
+                from: toFrom(user),
+                document: { file_id: fileId, file_unique_id: fileId, file_name: fileName, file_size: content.length },
+                caption
+            }
+        };
+        await bot.handleUpdate(update);
+    }
+
+    // Tap an inline button, on the given message or on the latest message carrying that callback data
+    async function tap(data: string, user: TestUser = DEFAULT_USER, messageId?: number, chatId?: number): Promise<void> {
+        const chat = toChat(user, chatId);
+        const message = messageId !== undefined
+            ? messages.find((sent) => sent.messageId === messageId)
+            : [...messages].reverse().find((sent) => sent.chatId === chat.id && findButton(sent, data));
+
+        const update: Update.CallbackQueryUpdate = {
+            update_id: nextUpdateId++,
+            callback_query: {
+                id: `${nextUpdateId}`,
+                chat_instance: `${chat.id}`,
+                from: toFrom(user),
+                data,
+                message: {
+                    message_id: message?.messageId ?? nextMessageId++,
+                    date: Math.floor(clock.now().getTime() / 1000),
+                    chat,
+                    text: message?.text ?? ''
+                }
+            }
+        };
+        await bot.handleUpdate(update);
+    }
+
+    // Tap the button whose label matches, on the latest message that has one
+    async function tapLabel(label: string | RegExp, user: TestUser = DEFAULT_USER, chatId?: number): Promise<void> {
+        const chat = toChat(user, chatId);
+        for (const message of [...messages].reverse()) {
+            if (message.chatId !== chat.id) {
+                continue;
+            }
+            const button = buttons(message).find((candidate) =>
+                typeof label === 'string' ? candidate.text === label : label.test(candidate.text)
+            );
+            if (button && 'callback_data' in button) {
+                await tap(button.callback_data, user, message.messageId, chatId);
+                return;
+            }
+        }
+        throw new Error(`No button labelled ${label}`);
+    }
+
+    const lastMessage = (chatId: number = DEFAULT_USER.id) =>
+        [...messages].reverse().find((sent) => sent.chatId === chatId);
+
+    const callbackAnswers = () => calls
+        .filter((call) => call.method === 'answerCallbackQuery')
+        .map((call) => call.payload.text as string | undefined);
+
+    return {
+        bot,
+        storage,
+        clock,
+        // Move time forward, running the scheduled tasks that become due
+        advance: scheduler.advance,
+        calls,
+        messages,
+        sendText,
+        sendDocument,
+        tap,
+        tapLabel,
+        lastMessage,
+        callbackAnswers
+    };
+}
+
+export type Harness = ReturnType<typeof createHarness>;
+
+export function buttons(message: SentMessage | undefined): InlineKeyboardButton[] {
+    return message?.keyboard?.inline_keyboard.flat() ?? [];
+}
+
+function findButton(message: SentMessage, data: string) {
+    return buttons(message).some((button) => 'callback_data' in button && button.callback_data === data);
+}
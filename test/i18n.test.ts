@@ -0,0 +1,116 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { QuestionInsert } from '../src/interfaces/question';
+import { localizeQuestion, resolveLocale, translate } from '../src/services/i18n';
+import { createMemoryStorage } from '../src/storage/memory';
+import { buttons, createHarness, Harness } from './harness';
+
+const FRENCH_USER = { id: 1001, username: 'alice', languageCode: 'fr-BE' };
+
+const QUESTIONS: QuestionInsert[] = [
+    {
+        id: 'q1',
+        question: 'Native token of XPR Network?',
+        choices: ['XPR', 'EOS'],
+        answer_index: 0,
+        answer: 'XPR',
+        answer_info: 'XPR is the native token.',
+        tags: ['user'],
+        translations: { fr: { question: 'Jeton natif de XPR Network ?', choices: ['Le XPR', 'L\'EOS'] } }
+    }
+];
+
+describe('message catalogue', () => {
+    it('fills placeholders and picks the plural form of the locale', () => {
+        assert.equal(translate('en', 'quiz.score', { correct: 2, answered: 3 }), '📊 Score: 2/3 correct');
+        assert.equal(translate('en', 'quiz.length', { count: 1 }), '1 question');
+        assert.equal(translate('en', 'quiz.length', { count: 0 }), '0 questions');
+        assert.equal(translate('fr', 'leaderboard.missing', { count: 0 }), 'Répondez à encore 0 question pour être classé.');
+        assert.equal(translate('fr', 'leaderboard.missing', { count: 2 }), 'Répondez à encore 2 questions pour être classé.');
+    });
+
+    it('maps Telegram language codes to a supported locale', () => {
+        assert.equal(resolveLocale('fr-BE'), 'fr');
+        assert.equal(resolveLocale('de'), 'en');
+        assert.equal(resolveLocale(undefined), 'en');
+    });
+
+    it('translates question fields and falls back to English for the others', async () => {
+        const [question] = await createMemoryStorage({ questions: QUESTIONS }).questions.listQuestions();
+
+        const french = localizeQuestion(question, 'fr');
+        assert.equal(french.question, 'Jeton natif de XPR Network ?');
+        assert.deepEqual(french.choices, ['Le XPR', 'L\'EOS']);
+        assert.equal(french.answer, 'Le XPR');
+        assert.equal(french.answer_info, 'XPR is the native token.');
+        assert.equal(localizeQuestion(question, 'en'), question);
+    });
+});
+
+describe('bot language', () => {
+    let harness: Harness;
+
+    beforeEach(() => {
+        harness = createHarness({ questions: QUESTIONS });
+    });
+
+    afterEach(() => {
+        mock.restoreAll();
+    });
+
+    it('speaks the Telegram language of the player by default', async () => {
+        await harness.sendText('/start', FRENCH_USER);
+        assert.match(harness.lastMessage()!.text, /Bienvenue sur XPR Guru Bot/);
+
+        await harness.tap('mode:user', FRENCH_USER);
+        await harness.tapLabel('5', FRENCH_USER);
+        await harness.tapLabel('🐢 Sans limite', FRENCH_USER);
+        await harness.tapLabel('🌿 Intermédiaire', FRENCH_USER);
+        const question = harness.lastMessage()!;
+        assert.match(question.text, /Session lancée en mode 👤 Utilisateur \(5 questions, 🌿 Intermédiaire\)/);
+        assert.match(question.text, /Jeton natif de XPR Network \?/);
+        // Choices come shuffled
+        assert.deepEqual(buttons(question).map((button) => button.text).sort(), ['L\'EOS', 'Le XPR']);
+
+        await harness.tapLabel('L\'EOS', FRENCH_USER);
+        const feedback = harness.lastMessage()!.text;
+        assert.match(feedback, /❌ Faux !/);
+        assert.match(feedback, /✨ Bonne réponse : Le XPR/);
+        assert.match(feedback, /ℹ️ Explication : XPR is the native token\./);
+        assert.equal(harness.storage.tables.sessions[0].correct, 0);
+    });
+
+    it('answers admins in their language', async () => {
+        harness = createHarness({ questions: QUESTIONS, adminIds: ['1001'] });
+
+        await harness.sendText('/previewquestion q1', FRENCH_USER);
+        const preview = harness.lastMessage()!.text;
+        assert.match(preview, /1\. XPR ✅\n2\. EOS/);
+        assert.match(preview, /📶 Difficulté évaluée d'après les réponses/);
+
+        await harness.sendText('/qstats', FRENCH_USER);
+        assert.match(harness.lastMessage()!.text, /^📊 Statistiques des questions\n1 question active, servie 0 fois/);
+
+        await harness.sendDocument('questions.csv', 'key,question,choices,answer_index\nk,Q?,a|a,0', '/import --dry-run', FRENCH_USER);
+        const report = harness.lastMessage()!.text;
+        assert.match(report, /^🧪 Essai à blanc, rien n'a été enregistré/);
+        assert.match(report, /Ligne 1 \(k\) :\n  • Les choix doivent être différents/);
+    });
+
+    it('switches language with /language and remembers the choice', async () => {
+        await harness.sendText('/language');
+        assert.deepEqual(buttons(harness.lastMessage()).map((button) => button.text), ['🇬🇧 English', '🇫🇷 Français', '📱 Telegram language']);
+
+        await harness.tapLabel('🇫🇷 Français');
+        assert.equal(harness.lastMessage()!.text, 'Langue choisie : 🇫🇷 Français.');
+        assert.equal(harness.storage.tables.user_settings[0].language, 'fr');
+
+        await harness.sendText('/stats');
+        assert.match(harness.lastMessage()!.text, /Vous n'avez encore répondu à aucune question/);
+
+        await harness.sendText('/language');
+        await harness.tapLabel('📱 Langue de Telegram');
+        assert.equal(harness.lastMessage()!.text, 'The bot now follows your Telegram language: 🇬🇧 English.');
+        assert.equal(harness.storage.tables.user_settings[0].language, null);
+    });
+});
@@ -0,0 +1,204 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { QuestionInsert } from '../src/interfaces/question';
+import { parseQuestions, serializeQuestions } from '../src/services/questionFormats';
+import { deriveQuestionKey, importQuestions } from '../src/services/questionImport';
+import { createMemoryStorage } from '../src/storage/memory';
+import { createHarness, Harness } from './harness';
+
+const ADMIN = { id: 7, username: 'admin' };
+
+const QUESTIONS: QuestionInsert[] = [
+    { id: 'q1', key: 'native-token', question: 'Native token of XPR Network?', choices: ['XPR', 'EOS'], answer_index: 0, answer: 'XPR', answer_info: 'XPR, "the" token', tags: ['user', 'tokens'] },
+    { id: 'q2', question: 'Language of\nsmart contracts?', choices: ['TypeScript', 'Rust, mostly'], answer_index: 0, answer: 'TypeScript', tags: ['dev'] }
+];
+
+const CSV = [
+    'key,question,choices,answer_index,answer,answer_info,tags',
+    'native-token,Native token of XPR Network?,XPR|EOS,0,XPR,"XPR, ""the"" token",user|tokens',
+    'staking,What do you stake?,XPR|Gas,0,,"Stake XPR, vote for producers",user|staking',
+    'broken,Broken?,Yes|Yes,2,No,,user|unknown'
+].join('\n');
+
+describe('question formats', () => {
+    it('round-trips questions through every format', async () => {
+        const storage = createMemoryStorage({ questions: QUESTIONS });
+        const questions = await storage.questions.listQuestions();
+
+        for (const format of ['json', 'csv', 'yaml'] as const) {
+            const rows = parseQuestions(serializeQuestions(questions, format), format);
+            assert.equal(rows.length, 2, format);
+            assert.equal(rows[0].answer_info, 'XPR, "the" token', format);
+            assert.equal(rows[1].question, 'Language of\nsmart contracts?', format);
+            assert.deepEqual(rows[1].choices, ['TypeScript', 'Rust, mostly'], format);
+        }
+    });
+
+    it('escapes the list separator in CSV cells', async () => {
+        const storage = createMemoryStorage({
+            questions: [{ ...QUESTIONS[0], choices: ['a | b', 'C:\\dir\\', '\\|'], answer_index: 0, answer: 'a | b' }]
+        });
+        const csv = serializeQuestions(await storage.questions.listQuestions(), 'csv');
+
+        assert.match(csv, /,a \\\| b\|C:\\\\dir\\\\\|\\\\\\\|,/);
+        assert.deepEqual(parseQuestions(csv, 'csv')[0].choices, ['a | b', 'C:\\dir\\', '\\|']);
+        assert.deepEqual(parseQuestions('choices\nC:\\dir|x', 'csv')[0].choices, ['C:\\dir', 'x']);
+    });
+
+    it('rejects files that are not a list', () => {
+        assert.throws(() => parseQuestions('{"question": "Q?"}', 'json'), /Expected a list of questions/);
+    });
+});
+
+describe('importQuestions', () => {
+    it('reports each invalid row and saves the valid ones', async () => {
+        const storage = createMemoryStorage({ questions: QUESTIONS });
+        const report = await importQuestions(storage, parseQuestions(CSV, 'csv'), { knownTags: ['dev', 'user', 'tokens', 'staking'] });
+
+        assert.deepEqual(report.rows.map((row) => row.status), ['unchanged', 'created', 'invalid']);
+        assert.deepEqual(report.rows[2].errors, [
+            'Choices must be unique',
+            'answer_index 2 is out of range',
+            'Unknown tags: unknown'
+        ]);
+
+        const created = storage.tables.questions.find((question) => question.key === 'staking');
+        assert.equal(created?.answer, 'XPR');
+        assert.equal(created?.answer_info, 'Stake XPR, vote for producers');
+    });
+
+    it('writes nothing on a dry run', async () => {
+        const storage = createMemoryStorage({ questions: QUESTIONS });
+        const report = await importQuestions(storage, parseQuestions(CSV, 'csv'), { dryRun: true, knownTags: ['dev', 'user', 'tokens', 'staking'] });
+
+        assert.equal(report.counts.created, 1);
+        assert.equal(storage.tables.questions.length, 2);
+    });
+
+    it('upserts by key so re-imports do not duplicate questions', async () => {
+        const storage = createMemoryStorage({ questions: QUESTIONS });
+        const rows = [
+            { question: 'Language of\nsmart contracts?', choices: ['TypeScript', 'Rust, mostly'], answer_index: 1, tags: ['dev'] },
+            { key: 'native-token', question: 'Native token of XPR Network?', choices: ['XPR', 'EOS'], answer_index: '0', tags: ['user'] }
+        ];
+
+        const first = await importQuestions(storage, rows, { knownTags: ['dev', 'user'] });
+        const second = await importQuestions(storage, rows, { knownTags: ['dev', 'user'] });
+
+        assert.deepEqual(first.rows.map((row) => row.status), ['updated', 'updated']);
+        assert.deepEqual(second.rows.map((row) => row.status), ['unchanged', 'unchanged']);
+        assert.equal(storage.tables.questions.length, 2);
+        assert.equal(storage.tables.questions[1].key, deriveQuestionKey('Language of smart contracts?'));
+        assert.equal(storage.tables.questions[1].answer, 'Rust, mostly');
+    });
+
+    it('validates translations and keeps them when a row has none', async () => {
+        const storage = createMemoryStorage({ questions: QUESTIONS });
+        const rows = [
+            { ...parseQuestions(CSV, 'csv')[0], translations: { fr: { question: 'Jeton natif de XPR Network ?', choices: ['XPR'] } } },
+            { key: 'staking', question: 'What do you stake?', choices: ['XPR', 'Gas'], answer_index: 0, translations: { de: { question: 'Was?' } } }
+        ];
+
+        const report = await importQuestions(storage, rows, { knownTags: ['dev', 'user', 'tokens'] });
+        assert.deepEqual(report.rows[0].errors, ['Translation fr has 1 choices, expected 2']);
+        assert.deepEqual(report.rows[1].errors, ['Unknown translation locale "de", expected one of en, fr']);
+
+        const translations = { fr: { question: 'Jeton natif de XPR Network ?' } };
+        await importQuestions(storage, [{ ...rows[0], translations }], { knownTags: ['dev', 'user', 'tokens'] });
+        const again = await importQuestions(storage, parseQuestions(CSV, 'csv').slice(0, 1), { knownTags: ['dev', 'user', 'tokens'] });
+        assert.equal(again.rows[0].status, 'unchanged');
+        assert.deepEqual(storage.tables.questions[0].translations, translations);
+    });
+
+    it('keeps the stored fields a row leaves out', async () => {
+        const retired = {
+            ...QUESTIONS[0],
+            retired_date: '2026-01-01T00:00:00.000Z',
+            difficulty: 3,
+            media_type: 'photo',
+            media: 'https://example.com/token.png',
+            parse_mode: 'HTML'
+        };
+        const storage = createMemoryStorage({ questions: [retired] });
+
+        const report = await importQuestions(storage, parseQuestions(CSV, 'csv').slice(0, 1), { knownTags: ['user', 'tokens'] });
+        assert.equal(report.rows[0].status, 'unchanged');
+
+        // Only answer_index given: the answer follows from the stored choices
+        await importQuestions(storage, [{ key: 'native-token', answer_index: 1 }], { knownTags: ['user', 'tokens'] });
+        const question = storage.tables.questions[0];
+        assert.equal(question.retired_date, '2026-01-01T00:00:00.000Z');
+        assert.equal(question.difficulty, 3);
+        assert.equal(question.media, 'https://example.com/token.png');
+        assert.equal(question.parse_mode, 'HTML');
+        assert.equal(question.answer, 'EOS');
+
+        // An empty cell clears the field
+        await importQuestions(storage, parseQuestions('key,retired_date\nnative-token,', 'csv'), { knownTags: ['user', 'tokens'] });
+        assert.equal(storage.tables.questions[0].retired_date, null);
+    });
+
+    it('reads difficulties as level numbers or names', async () => {
+        const storage = createMemoryStorage();
+        const rows = [
+            { key: 'easy', question: 'Easy?', choices: ['a', 'b'], answer_index: 0, tags: ['user'], difficulty: 'Beginner' },
+            { key: 'hard', question: 'Hard?', choices: ['a', 'b'], answer_index: 0, tags: ['user'], difficulty: '3' },
+            { key: 'odd', question: 'Odd?', choices: ['a', 'b'], answer_index: 0, tags: ['user'], difficulty: 4 }
+        ];
+
+        const report = await importQuestions(storage, rows, { knownTags: ['user'] });
+        assert.deepEqual(report.rows[2].errors, ['difficulty 4 is out of range, expected 1, 2, 3']);
+        assert.deepEqual(storage.tables.questions.map((question) => question.difficulty), [1, 3]);
+    });
+
+    it('rejects duplicate keys within a file', async () => {
+        const storage = createMemoryStorage();
+        const row = { key: 'k', question: 'Q?', choices: ['a', 'b'], answer_index: 0, tags: ['user'] };
+        const report = await importQuestions(storage, [row, row], { knownTags: ['user'] });
+
+        assert.deepEqual(report.rows[1].errors, ['Duplicate key, already used by row 1']);
+        assert.equal(storage.tables.questions.length, 1);
+    });
+});
+
+describe('/import', () => {
+    let harness: Harness;
+
+    beforeEach(() => {
+        harness = createHarness({ questions: QUESTIONS, adminIds: ['7'], questionTags: ['staking', 'tokens'] });
+    });
+
+    afterEach(() => {
+        mock.restoreAll();
+    });
+
+    it('imports an uploaded file and replies with the report', async () => {
+        await harness.sendDocument('questions.csv', CSV, '/import', ADMIN);
+
+        const text = harness.lastMessage(ADMIN.id)!.text;
+        assert.match(text, /Import finished/);
+        assert.match(text, /➕ 1 created/);
+        assert.match(text, /Row 3 \(broken\):\n  • Choices must be unique/);
+        assert.equal(harness.storage.tables.questions.length, 3);
+    });
+
+    it('only checks the file on a dry run', async () => {
+        await harness.sendDocument('questions.csv', CSV, '/import --dry-run', ADMIN);
+
+        assert.match(harness.lastMessage(ADMIN.id)!.text, /Dry run, nothing was saved/);
+        assert.equal(harness.storage.tables.questions.length, 2);
+    });
+
+    it('is for admins only', async () => {
+        await harness.sendDocument('questions.csv', CSV, '/import');
+
+        assert.equal(harness.lastMessage()!.text, 'This command is for admins only.');
+        assert.equal(harness.storage.tables.questions.length, 2);
+    });
+
+    it('rejects unsupported files', async () => {
+        await harness.sendDocument('questions.txt', CSV, '/import', ADMIN);
+
+        assert.match(harness.lastMessage(ADMIN.id)!.text, /Unsupported file type/);
+    });
+});
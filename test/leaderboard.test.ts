@@ -0,0 +1,94 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { Session } from '../src/interfaces/session';
+import { buildLeaderboard } from '../src/services/leaderboard';
+import { buttons, createHarness, Harness } from './harness';
+
+function session(overrides: Partial<Session>): Session {
+    return {
+        id: `s${Math.random()}`,
+        tg_id: '1001',
+        tg_handle: 'alice',
+        created_date: '2025-12-30T12:00:00.000Z',
+        finished_date: '2025-12-30T12:10:00.000Z',
+        questions: 10,
+        correct: 5,
+        max_question: 10,
+        mode: 'mixed',
+        points: 0,
+        status: 'finished',
+        time_limit: null,
+        level: null,
+        adaptive: false,
+        topics: null,
+        daily_date: null,
+        ...overrides
+    };
+}
+
+describe('buildLeaderboard', () => {
+    it('ignores players below the minimum number of questions', () => {
+        const board = buildLeaderboard([
+            session({ tg_id: '1', tg_handle: 'lucky', questions: 1, correct: 1 }),
+            session({ tg_id: '2', tg_handle: 'steady', questions: 20, correct: 15 })
+        ], 'all', 'all', '1');
+
+        assert.deepEqual(board.top.map((player) => player.tgHandle), ['steady']);
+        assert.equal(board.rank, null);
+        assert.equal(board.player?.questions, 1);
+    });
+
+    it('sums sessions per player and breaks accuracy ties by volume', () => {
+        const board = buildLeaderboard([
+            session({ tg_id: '1', tg_handle: 'a', questions: 10, correct: 8 }),
+            session({ tg_id: '2', tg_handle: 'b', questions: 10, correct: 8 }),
+            session({ tg_id: '2', tg_handle: 'b', questions: 10, correct: 8 })
+        ], 'all', 'all', '1');
+
+        assert.deepEqual(board.top.map((player) => player.tgHandle), ['b', 'a']);
+        assert.equal(board.top[0].questions, 20);
+        assert.equal(board.rank, 2);
+    });
+});
+
+describe('/leaderboard', () => {
+    let harness: Harness;
+
+    beforeEach(() => {
+        harness = createHarness();
+        harness.storage.tables.sessions.push(
+            session({ tg_id: '1001', tg_handle: 'alice', mode: 'dev', questions: 10, correct: 9 }),
+            session({ tg_id: '2002', tg_handle: 'bob', mode: 'user', questions: 20, correct: 10 }),
+            session({ tg_id: '3003', tg_handle: 'carol', mode: 'user', questions: 10, correct: 8, created_date: '2025-10-01T12:00:00.000Z' })
+        );
+    });
+
+    afterEach(() => {
+        mock.restoreAll();
+    });
+
+    it('shows this week across all modes with the caller rank', async () => {
+        await harness.sendText('/leaderboard');
+
+        const text = harness.lastMessage()!.text;
+        assert.match(text, /🏆 Leaderboard — 🌐 All · This week/);
+        assert.match(text, /🥇 @alice — 90% \(9\/10\)/);
+        assert.match(text, /🥈 @bob — 50% \(10\/20\)/);
+        assert.doesNotMatch(text, /carol/);
+        assert.match(text, /Your rank: #1 of 2/);
+    });
+
+    it('filters by mode and period', async () => {
+        await harness.sendText('/leaderboard');
+        const message = harness.lastMessage()!;
+
+        await harness.tap('leaderboard:user:week');
+        assert.doesNotMatch(message.text, /alice/);
+        assert.match(message.text, /Answer 10 more questions to get ranked/);
+        assert.ok(buttons(message).some((button) => button.text === '• 👤 User'));
+
+        await harness.tap('leaderboard:user:all');
+        assert.match(message.text, /🥇 @carol — 80%/);
+        assert.match(message.text, /🥈 @bob — 50%/);
+    });
+});
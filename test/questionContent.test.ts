@@ -0,0 +1,185 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it, mock } from 'node:test';
+import { Telegram, TelegramError } from 'telegraf';
+import { Question, QuestionInsert } from '../src/interfaces/question';
+import { escapeText, findUnescapedMarkdown, isCorrectSelection, layoutQuestion, toPlainText } from '../src/services/questionContent';
+import { parseQuestions } from '../src/services/questionFormats';
+import { importQuestions } from '../src/services/questionImport';
+import { validateQuestion } from '../src/services/questionValidation';
+import { createMemoryStorage } from '../src/storage/memory';
+import { buttons, createHarness, Harness } from './harness';
+
+const MULTI_SELECT: QuestionInsert = {
+    id: 'q1',
+    question: 'Which are XPR Network wallets?',
+    choices: ['WebAuth', 'MetaMask', 'Anchor'],
+    answer_indexes: [0, 2],
+    answer_info: 'WebAuth and Anchor sign XPR Network transactions.',
+    tags: ['user']
+};
+
+const CODE_SNIPPET: QuestionInsert = {
+    id: 'q2',
+    question: 'What does this action return?\n<pre><code class="language-ts">@action("hi")\nhi(): void {}</code></pre>',
+    choices: ['Nothing, actions do not return values', 'The name of the account that signed it'],
+    answer_index: 0,
+    answer: 'Nothing, actions do not return values',
+    media_type: 'photo',
+    media: 'https://example.com/contract.png',
+    parse_mode: 'HTML',
+    tags: ['dev']
+};
+
+describe('question content', () => {
+    it('escapes plain text and reads formatted text back as plain text', () => {
+        assert.equal(escapeText('Score: 1/2 (50%).', 'MarkdownV2'), 'Score: 1/2 \\(50%\\)\\.');
+        assert.equal(escapeText('a < b && c', 'HTML'), 'a &lt; b &amp;&amp; c');
+        assert.equal(escapeText('a < b.', undefined), 'a < b.');
+
+        assert.equal(toPlainText('Run *this* `a_b\\`c` then\n```ts\nconst x = 1;\n```', 'MarkdownV2'), 'Run this a_b`c then\nconst x = 1;\n');
+        assert.equal(toPlainText('See [the docs](https://docs.xprnetwork.org)\\.', 'MarkdownV2'), 'See the docs.');
+        assert.equal(toPlainText('<b>Bold</b> &lt;tag&gt; &amp; more', 'HTML'), 'Bold <tag> & more');
+    });
+
+    it('only scores the exact set of correct choices', () => {
+        const question = { answer_index: null, answer_indexes: [2, 0] };
+        assert.equal(isCorrectSelection(question, [0, 2]), true);
+        assert.equal(isCorrectSelection(question, [0]), false);
+        assert.equal(isCorrectSelection(question, [0, 1, 2]), false);
+    });
+
+    it('validates the correct choices, media and formatting of a question', () => {
+        assert.deepEqual(validateQuestion(MULTI_SELECT, ['user']), []);
+        assert.deepEqual(validateQuestion(CODE_SNIPPET, ['dev']), []);
+        assert.deepEqual(validateQuestion({ ...MULTI_SELECT, answer_indexes: [0, 0, 3], answer_index: 0, answer: 'WebAuth' }, ['user']), [
+            'answer_indexes 3 out of range',
+            'answer_indexes must be unique',
+            'Multi-select questions use answer_indexes, leave answer_index and answer empty'
+        ]);
+        assert.deepEqual(validateQuestion({ ...CODE_SNIPPET, media_type: 'video', parse_mode: 'Markdown' }, ['dev']), [
+            'media_type "video" is unknown, expected one of photo, document',
+            'parse_mode "Markdown" is unknown, expected one of MarkdownV2, HTML'
+        ]);
+        assert.deepEqual(validateQuestion({ ...CODE_SNIPPET, media: null, question: '<div>Hi</div>' }, ['dev']), [
+            'media and media_type go together',
+            'Telegram does not support the HTML tags: div'
+        ]);
+    });
+
+    it('rejects MarkdownV2 questions Telegram would refuse', () => {
+        assert.deepEqual(findUnescapedMarkdown('Run *this* `a.b()` and [docs](https://x.org/a_(b\\)) now\\.'), []);
+        assert.deepEqual(findUnescapedMarkdown('Pay 1.5 XPR (or more)!'), ['.', '(', ')', '!']);
+        assert.deepEqual(findUnescapedMarkdown('*bold and `code'), ['`', '*']);
+
+        const question = { ...CODE_SNIPPET, media_type: null, media: null, parse_mode: 'MarkdownV2' };
+        assert.deepEqual(validateQuestion({ ...question, question: 'What does `hi()` return\\?' }, ['dev']), []);
+        assert.deepEqual(validateQuestion({ ...question, question: 'What does hi() return?' }, ['dev']), [
+            'MarkdownV2 text has unescaped or unclosed characters: ( ), escape them with \\'
+        ]);
+        assert.deepEqual(validateQuestion({
+            ...question,
+            question: 'Return value\\?',
+            translations: { fr: { question: 'Valeur renvoyée ?' } }
+        }, ['dev']), []);
+        assert.deepEqual(validateQuestion({
+            ...question,
+            question: 'Return value\\?',
+            translations: { fr: { question: 'Valeur renvoyée !' } }
+        }, ['dev']), ['MarkdownV2 text has unescaped or unclosed characters: !, escape them with \\']);
+
+        // Choices are plain text, escaped when they are listed in the message
+        const choices = ['1.5 XPR (a flat fee for every action)', 'None!'];
+        const listed = layoutQuestion('Round 1', { ...question, question: 'Fee\\?', choices } as Question, choices);
+        assert.equal(listed.text, 'Round 1\n\n❓ Fee\\?\n\n1\\. 1\\.5 XPR \\(a flat fee for every action\\)\n2\\. None\\!');
+        assert.deepEqual(findUnescapedMarkdown(listed.text), []);
+    });
+
+    it('imports multi-select questions from CSV', async () => {
+        const storage = createMemoryStorage();
+        const csv = [
+            'key,question,choices,answer_indexes,tags,parse_mode',
+            'wallets,Which are *wallets*?,WebAuth|MetaMask|Anchor,0|2,user,MarkdownV2'
+        ].join('\n');
+
+        const report = await importQuestions(storage, parseQuestions(csv, 'csv'), { knownTags: ['user'] });
+        assert.deepEqual(report.rows.map((row) => row.status), ['created']);
+        assert.deepEqual(storage.tables.questions[0].answer_indexes, [0, 2]);
+        assert.equal(storage.tables.questions[0].parse_mode, 'MarkdownV2');
+    });
+});
+
+describe('rich questions', () => {
+    let harness: Harness;
+
+    afterEach(() => {
+        mock.restoreAll();
+    });
+
+    it('scores a multi-select question once every correct choice is ticked and submitted', async () => {
+        harness = createHarness({ questions: [MULTI_SELECT] });
+        await harness.sendText('/next');
+        const question = harness.lastMessage()!;
+        assert.match(question.text, /Several answers are correct/);
+        assert.deepEqual(buttons(question).map((button) => button.text).sort(), ['⬜ Anchor', '⬜ MetaMask', '⬜ WebAuth', '📨 Submit answer']);
+
+        await harness.tapLabel('📨 Submit answer');
+        assert.equal(harness.callbackAnswers().at(-1), 'Tick at least one answer before submitting.');
+
+        // Ticking twice takes the choice back off
+        await harness.tapLabel('⬜ MetaMask');
+        await harness.tapLabel('✅ MetaMask');
+        await harness.tapLabel('⬜ WebAuth');
+        await harness.tapLabel('⬜ Anchor');
+        assert.deepEqual(harness.storage.tables.session_questions[0].answer_indexes, [0, 2]);
+
+        await harness.tapLabel('📨 Submit answer');
+        const feedback = harness.lastMessage()!.text;
+        assert.match(feedback, /^✅ Correct!/);
+        assert.match(feedback, /Your answers: WebAuth, Anchor/);
+        assert.match(feedback, /Correct answers: WebAuth \(button \d\), Anchor \(button \d\)/);
+        assert.equal(harness.storage.tables.session_questions[0].is_correct, true);
+        assert.equal(harness.storage.tables.session_questions[0].answer_index, null);
+    });
+
+    it('sends the media, then the formatted question with its long choices listed', async () => {
+        harness = createHarness({ questions: [CODE_SNIPPET] });
+        await harness.sendText('/next');
+
+        const sent = harness.calls.filter((call) => call.method === 'sendPhoto' || call.method === 'sendMessage');
+        assert.deepEqual(sent.map((call) => call.method), ['sendPhoto', 'sendMessage']);
+        assert.equal(sent[0].payload.photo, 'https://example.com/contract.png');
+        assert.equal(sent[1].payload.parse_mode, 'HTML');
+        const text = String(sent[1].payload.text);
+        assert.match(text, /<pre><code class="language-ts">@action\("hi"\)/);
+        assert.match(text, /\n\n1\. (Nothing|The name)/);
+        assert.deepEqual(buttons(harness.lastMessage()).map((button) => button.text), ['1', '2']);
+
+        const position = harness.lastMessage()!.text.includes('1. Nothing') ? '1' : '2';
+        await harness.tapLabel(position);
+        const feedback = harness.lastMessage()!.text;
+        assert.match(feedback, /Question: What does this action return\?\n@action\("hi"\)\nhi\(\): void \{\}/);
+        assert.match(feedback, new RegExp(`Correct answer: Nothing, actions do not return values \\(button ${position}\\)`));
+    });
+
+    it('sends a question Telegram refuses to format again as plain text, so it can still be answered', async () => {
+        // Stored before validation checked MarkdownV2, with a dot left unescaped
+        harness = createHarness({
+            questions: [{ ...CODE_SNIPPET, media_type: null, media: null, parse_mode: 'MarkdownV2', question: 'What does `hi()` return.' }]
+        });
+        const callApi = Telegram.prototype.callApi;
+        mock.method(Telegram.prototype, 'callApi', async function (this: Telegram, method: string, payload: Record<string, unknown>) {
+            if (method === 'sendMessage' && payload.parse_mode === 'MarkdownV2' && typeof payload.text === 'string' && /[^\\]\.$/m.test(payload.text)) {
+                throw new TelegramError({ error_code: 400, description: 'Bad Request: can\'t parse entities: Character \'.\' is reserved' });
+            }
+            return (callApi as (method: string, payload: Record<string, unknown>) => Promise<unknown>).call(this, method, payload);
+        });
+
+        await harness.sendText('/next');
+        const question = harness.lastMessage()!;
+        assert.match(question.text, /❓ What does hi\(\) return\.\n\n1\. /);
+        assert.equal(harness.calls.at(-1)!.payload.parse_mode, undefined);
+
+        await harness.tapLabel(buttons(question)[0].text);
+        assert.match(harness.lastMessage()!.text, /Question: What does hi\(\) return\./);
+    });
+});
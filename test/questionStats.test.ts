@@ -0,0 +1,129 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { Question, QuestionInsert } from '../src/interfaces/question';
+import { buildQuestionStats, flagQuestion } from '../src/services/questionStats';
+import { buttons, createHarness, Harness } from './harness';
+
+const ADMIN = { id: 7, username: 'admin' };
+
+const QUESTIONS: QuestionInsert[] = [
+    { id: 'q1', question: 'Native token of XPR Network?', choices: ['XPR', 'EOS', 'WAX'], answer_index: 0, answer: 'XPR', tags: ['user'] },
+    { id: 'q2', question: 'Reference wallet?', choices: ['MetaMask', 'WebAuth'], answer_index: 1, answer: 'WebAuth', tags: ['user'] }
+];
+
+const QUESTION = QUESTIONS[0] as Question;
+
+// Helper function to record answers of a question, each one picked 4 seconds after serving
+function seedAnswers(harness: Harness, questionId: string, picks: (number | null)[], correctIndex: number): void {
+    picks.forEach((answerIndex, index) => {
+        harness.storage.tables.session_questions.push({
+            id: `${questionId}-${index}`,
+            session_id: 'seeded',
+            question_id: questionId,
+            answer_index: answerIndex,
+            answer_indexes: null,
+            choice_order: null,
+            is_correct: answerIndex === correctIndex,
+            served_date: '2026-01-01T10:00:00.000Z',
+            answered_date: '2026-01-01T10:00:04.000Z'
+        });
+    });
+}
+
+describe('question statistics', () => {
+    it('adds up the picks, timeouts and answer times of a question', () => {
+        const stats = buildQuestionStats(QUESTION, [
+            { question_id: 'q1', answer_index: 0, is_correct: true, count: 3, total_seconds: 12, answer_indexes: null },
+            { question_id: 'q1', answer_index: 2, is_correct: false, count: 1, total_seconds: 8, answer_indexes: null },
+            { question_id: 'q1', answer_index: null, is_correct: false, count: 2, total_seconds: 60, answer_indexes: null },
+            { question_id: 'q1', answer_index: null, is_correct: null, count: 1, total_seconds: 0, answer_indexes: null },
+            { question_id: 'q2', answer_index: 1, is_correct: true, count: 9, total_seconds: 9, answer_indexes: null }
+        ]);
+
+        assert.deepEqual(stats, { served: 7, answered: 6, correct: 3, timeouts: 2, picks: [3, 0, 1], averageSeconds: 5 });
+    });
+
+    it('flags a question once a wrong choice is picked more than the key', () => {
+        const flags = (picks: number[]) => {
+            const answered = picks.reduce((sum, count) => sum + count, 0);
+            return flagQuestion(QUESTION, { served: answered, answered, correct: picks[0], timeouts: 0, picks, averageSeconds: 3 }, 0);
+        };
+
+        assert.deepEqual(flags([5, 5, 0]), []);
+        assert.deepEqual(flags([4, 6, 0]), ['suspectKey']);
+        // Too few answers to tell
+        assert.deepEqual(flags([1, 2, 0]), []);
+        assert.deepEqual(flags([1, 9, 0]), ['suspectKey', 'tooHard']);
+        assert.deepEqual(flags([10, 0, 0]), ['tooEasy']);
+    });
+});
+
+describe('question quality report', () => {
+    let harness: Harness;
+
+    beforeEach(() => {
+        harness = createHarness({ questions: QUESTIONS, adminIds: ['7'] });
+    });
+
+    afterEach(() => {
+        mock.restoreAll();
+    });
+
+    it('keeps /qstats for admins', async () => {
+        await harness.sendText('/qstats');
+        assert.equal(harness.lastMessage()!.text, 'This command is for admins only.');
+    });
+
+    it('flags the questions whose most picked wrong choice beats the key', async () => {
+        seedAnswers(harness, 'q1', [1, 1, 1, 1, 1, 1, 1, 0, 0, 2, null], 0);
+        seedAnswers(harness, 'q2', [1, 1, 1, 1, 1, 1, 0, 0, 1, 1], 1);
+
+        await harness.sendText('/qstats', ADMIN);
+        const report = harness.lastMessage(ADMIN.id)!.text;
+        assert.match(report, /2 active questions, served 21 times, 48% correct of 21 answers/);
+        assert.match(report, /🚩 1 flagged question:/);
+        assert.match(report, /Native token of XPR Network\?\n🆔 q1\nServed 11 · 18% correct of 11 · 4\.0s on average/);
+        assert.match(report, /⚠️ Most picked: "EOS" \(7\), over the key "XPR" \(2\)/);
+        assert.doesNotMatch(report, /Reference wallet/);
+
+        await harness.sendText('/qstats q1', ADMIN);
+        const detail = harness.lastMessage(ADMIN.id)!.text;
+        assert.match(detail, /⏰ 1 timeout, 0 not answered/);
+        assert.match(detail, /1\. XPR ✅ — 2 \(20%\)\n2\. EOS — 7 \(70%\)\n3\. WAX — 1 \(10%\)/);
+    });
+
+    it('records the reports of players and lists them for review', async () => {
+        await harness.sendText('/next');
+        const question = harness.lastMessage()!;
+        await harness.tap((buttons(question)[0] as { callback_data: string }).callback_data, undefined, question.messageId);
+
+        await harness.tapLabel('🚩 Report question');
+        assert.match(harness.lastMessage()!.text, /What is wrong with this question\?/);
+
+        // Only the player who answered can report it
+        const reason = buttons(harness.lastMessage()).find((button) => button.text === '❌ The answer is wrong');
+        await harness.tap((reason as { callback_data: string }).callback_data, { id: 2002, username: 'mallory' }, harness.lastMessage()!.messageId);
+        assert.equal(harness.callbackAnswers().at(-1), 'This question can no longer be reported.');
+
+        await harness.tapLabel('❌ The answer is wrong');
+        assert.equal(harness.lastMessage()!.text, '🙏 Thanks! The question will be reviewed.');
+        const questionId = harness.storage.tables.session_questions[0].question_id;
+        assert.deepEqual(harness.storage.tables.question_reports.map((report) => [report.question_id, report.tg_id, report.reason]), [
+            [questionId, '1001', 'wrong_answer']
+        ]);
+
+        await harness.tapLabel('🚩 Report question');
+        await harness.tapLabel('✏️ There is a typo');
+        assert.equal(harness.lastMessage()!.text, 'You already reported this question, it is waiting for review.');
+        assert.equal(harness.storage.tables.question_reports.length, 1);
+
+        await harness.sendText('/qstats', ADMIN);
+        assert.match(harness.lastMessage(ADMIN.id)!.text, /🚩 Reported: 1 wrong answer/);
+
+        await harness.sendText(`/qstats ${questionId}`, ADMIN);
+        await harness.tapLabel('✅ Mark reports reviewed', ADMIN);
+        assert.equal(harness.callbackAnswers().at(-1), '✅ 1 report marked reviewed');
+        await harness.sendText('/qstats', ADMIN);
+        assert.match(harness.lastMessage(ADMIN.id)!.text, /✅ No question is flagged\./);
+    });
+});
@@ -0,0 +1,518 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { QuestionInsert } from '../src/interfaces/question';
+import { orderChoices, shuffleChoices, toAnswerIndex, toPosition } from '../src/services/choiceOrder';
+import { LEVEL_UP_STREAK, MIN_RATED_ANSWERS, nextLevel, rateDifficulty } from '../src/services/difficulty';
+import { buttons, createHarness, Harness } from './harness';
+
+const QUESTIONS: QuestionInsert[] = [
+    { id: 'q1', question: 'Native token of XPR Network?', choices: ['XPR', 'EOS', 'WAX'], answer_index: 0, answer: 'XPR', answer_info: 'XPR is the native token.', tags: ['user'] },
+    { id: 'q2', question: 'Reference wallet?', choices: ['MetaMask', 'WebAuth'], answer_index: 1, answer: 'WebAuth', answer_info: 'WebAuth Wallet.', tags: ['user'] },
+    { id: 'q3', question: 'Max account name length?', choices: ['8', '12', '16'], answer_index: 1, answer: '12', answer_info: 'Up to 12 characters.', tags: ['dev'] },
+    { id: 'q4', question: 'Contract language with proton-tsc?', choices: ['Solidity', 'TypeScript'], answer_index: 1, answer: 'TypeScript', answer_info: null, tags: ['dev'] }
+];
+
+// The question the bot is currently waiting an answer for
+function pendingQuestion(harness: Harness) {
+    const pending = harness.storage.tables.session_questions.filter((entry) => !entry.answered_date).pop();
+    assert.ok(pending, 'a question should be waiting for an answer');
+    return harness.storage.tables.questions.find((question) => question.id === pending.question_id)!;
+}
+
+async function answer(harness: Harness, correct: boolean) {
+    const question = pendingQuestion(harness);
+    const choice = correct
+        ? question.answer!
+        : question.choices!.find((candidate) => candidate !== question.answer)!;
+    await harness.tapLabel(choice);
+    return question;
+}
+
+async function startQuiz(harness: Harness, mode: string, length: string, timer = '🐢 No limit', level = '🌿 Intermediate') {
+    await harness.sendText('/start');
+    await harness.tap(`mode:${mode}`);
+    await harness.tapLabel(length);
+    await harness.tapLabel(timer);
+    await harness.tapLabel(level);
+}
+
+describe('quiz flow', () => {
+    let harness: Harness;
+
+    beforeEach(() => {
+        harness = createHarness({ questions: QUESTIONS });
+    });
+
+    afterEach(() => {
+        mock.restoreAll();
+    });
+
+    it('offers the modes and then the quiz lengths on /start', async () => {
+        await harness.sendText('/start');
+        const picker = harness.lastMessage();
+        assert.match(picker!.text, /select your session mode/);
+        assert.deepEqual(buttons(picker).map((button) => button.text), ['🎲 Mixed Mode', '👩‍💻 Developer Mode', '👤 User Mode', '🔁 Review Mistakes']);
+
+        await harness.tap('mode:dev');
+        assert.match(picker!.text, /How many questions/);
+        assert.deepEqual(buttons(picker).map((button) => button.text), ['5', '10', '20', '♾️ Unlimited']);
+    });
+
+    it('starts a session with the chosen mode and length', async () => {
+        await startQuiz(harness, 'dev', '5');
+
+        const [session] = harness.storage.tables.sessions;
+        assert.equal(session.mode, 'dev');
+        assert.equal(session.max_question, 5);
+        assert.equal(session.tg_id, '1001');
+        assert.match(harness.lastMessage()!.text, /Session started in 👩‍💻 Dev mode \(5 questions, 🌿 Intermediate\)/);
+        assert.ok(pendingQuestion(harness).tags!.includes('dev'));
+    });
+
+    it('scores a correct answer', async () => {
+        await startQuiz(harness, 'user', '10');
+        await answer(harness, true);
+
+        assert.ok(harness.callbackAnswers().includes('✅ Correct!'));
+        assert.match(harness.lastMessage()!.text, /📊 Score: 1\/1 correct/);
+        assert.equal(harness.storage.tables.sessions[0].correct, 1);
+    });
+
+    it('scores a wrong answer and shows the explanation', async () => {
+        await startQuiz(harness, 'user', '10');
+        const question = await answer(harness, false);
+
+        const feedback = harness.lastMessage()!.text;
+        assert.match(feedback, /❌ Wrong!/);
+        assert.ok(feedback.includes(`✨ Correct answer: ${question.answer}`));
+        assert.match(feedback, /📊 Score: 0\/1 correct/);
+    });
+
+    it('shuffles the choices of every serving and scores the choice shown on the tapped button', async () => {
+        await startQuiz(harness, 'user', '10');
+        const served = harness.storage.tables.session_questions[0];
+        const question = pendingQuestion(harness);
+        assert.deepEqual(buttons(harness.lastMessage()).map((button) => button.text), orderChoices(question.choices!, served.choice_order));
+
+        const position = toPosition(served.choice_order, question.choices!.length, question.answer_index!);
+        await harness.tap(`answer:${served.id}_${position}`);
+
+        assert.equal(served.answer_index, question.answer_index);
+        assert.equal(served.is_correct, true);
+        assert.ok(harness.lastMessage()!.text.includes(`✨ Correct answer: ${question.answer} (button ${position + 1})`));
+    });
+
+    it('serves a new question on next without repeating one', async () => {
+        await startQuiz(harness, 'dev', '10');
+        const first = await answer(harness, true);
+
+        await harness.tapLabel('Next Question ⏭️');
+        const second = pendingQuestion(harness);
+
+        assert.notEqual(second.id, first.id);
+        assert.match(harness.lastMessage()!.text, /Question 2\/10! 🔄/);
+    });
+
+    it('finishes with a full report on request', async () => {
+        await startQuiz(harness, 'user', '10');
+        const first = await answer(harness, false);
+        await harness.sendText('/finish');
+
+        const report = harness.lastMessage()!.text;
+        assert.match(report, /Session completed! 🎉/);
+        assert.match(report, /Accuracy: 0%/);
+        assert.ok(report.includes(first.question));
+        assert.ok(report.includes(`ℹ️ Explanation: ${first.answer_info}`));
+        assert.ok(harness.storage.tables.sessions[0].finished_date);
+    });
+
+    it('finishes automatically once max_question is reached', async () => {
+        await startQuiz(harness, 'dev', '5');
+        harness.storage.tables.sessions[0].max_question = 2;
+
+        await answer(harness, true);
+        await harness.tapLabel('Next Question ⏭️');
+        await answer(harness, true);
+
+        const report = harness.lastMessage()!.text;
+        assert.match(report, /Session completed! 🎉/);
+        assert.match(report, /Correct answers: 2/);
+        assert.ok(harness.storage.tables.sessions[0].finished_date);
+    });
+
+    it('scores a served question only once and removes its keyboard', async () => {
+        await startQuiz(harness, 'user', '10');
+        const question = pendingQuestion(harness);
+        const questionMessage = harness.lastMessage()!;
+        const correctButton = buttons(questionMessage).find((button) => button.text === question.answer)!;
+        assert.ok('callback_data' in correctButton);
+
+        await harness.tap(correctButton.callback_data, undefined, questionMessage.messageId);
+        assert.equal(questionMessage.keyboard, undefined);
+
+        await harness.tap(correctButton.callback_data, undefined, questionMessage.messageId);
+        assert.equal(harness.callbackAnswers().pop(), 'You already answered this question.');
+        assert.equal(harness.storage.tables.sessions[0].questions, 1);
+    });
+
+    it('rejects answers for questions served to someone else', async () => {
+        await startQuiz(harness, 'user', '10');
+        const callbackData = (buttons(harness.lastMessage())[0] as { callback_data: string }).callback_data;
+
+        await harness.tap(callbackData, { id: 2002, username: 'mallory' });
+        assert.equal(harness.callbackAnswers().pop(), 'This question was not served to you.');
+        assert.equal(harness.storage.tables.sessions[0].questions, 0);
+    });
+
+    it('rejects crafted callback data', async () => {
+        await startQuiz(harness, 'user', '10');
+
+        await harness.tap('answer:q1_0');
+        assert.equal(harness.callbackAnswers().pop(), 'This question is no longer available.');
+        assert.equal(harness.storage.tables.sessions[0].questions, 0);
+    });
+});
+
+describe('open sessions', () => {
+    let harness: Harness;
+
+    beforeEach(() => {
+        harness = createHarness({ questions: QUESTIONS });
+    });
+
+    afterEach(() => {
+        mock.restoreAll();
+    });
+
+    it('offers to resume an unfinished session on /start', async () => {
+        await startQuiz(harness, 'user', '10');
+        await answer(harness, true);
+        await harness.tapLabel('Next Question ⏭️');
+        const pending = pendingQuestion(harness);
+
+        await harness.sendText('/start');
+        const offer = harness.lastMessage()!;
+        assert.match(offer.text, /unfinished quiz in 👤 User mode: 1\/10 answered, 1 correct/);
+        assert.deepEqual(buttons(offer).map((button) => button.text), ['▶️ Resume', '🗑️ Start over']);
+
+        await harness.tapLabel('▶️ Resume');
+        assert.equal(offer.keyboard, undefined);
+        assert.ok(harness.lastMessage()!.text.includes(pending.question));
+        assert.equal(harness.storage.tables.sessions.length, 1);
+    });
+
+    it('finds the open session by Telegram ID when the chat state is gone', async () => {
+        await startQuiz(harness, 'dev', '5');
+        harness.storage.tables.chat_states.length = 0;
+
+        await harness.sendText('/start');
+        assert.match(harness.lastMessage()!.text, /unfinished quiz in 👩‍💻 Dev mode: 0\/5 answered/);
+
+        await harness.tapLabel('▶️ Resume');
+        await answer(harness, true);
+        assert.equal(harness.storage.tables.sessions[0].questions, 1);
+    });
+
+    it('abandons the open session when starting over', async () => {
+        await startQuiz(harness, 'user', '10');
+
+        await harness.sendText('/start');
+        await harness.tapLabel('🗑️ Start over');
+        assert.match(harness.lastMessage()!.text, /select your session mode/);
+
+        const [abandoned] = harness.storage.tables.sessions;
+        assert.equal(abandoned.status, 'abandoned');
+        assert.ok(abandoned.finished_date);
+
+        await harness.tap('mode:dev');
+        await harness.tapLabel('5');
+        await harness.tapLabel('🐢 No limit');
+        await harness.tapLabel('🌿 Intermediate');
+        assert.equal(harness.storage.tables.sessions[1].status, 'active');
+        assert.equal(harness.storage.tables.sessions[1].mode, 'dev');
+    });
+
+    it('does not resume a finished session', async () => {
+        await startQuiz(harness, 'user', '10');
+        await answer(harness, true);
+        await harness.sendText('/finish');
+        assert.equal(harness.storage.tables.sessions[0].status, 'finished');
+
+        await harness.sendText('/start');
+        assert.match(harness.lastMessage()!.text, /select your session mode/);
+    });
+
+    it('goes through the same offer from the start buttons', async () => {
+        await harness.sendText('🚀 Start');
+        assert.match(harness.lastMessage()!.text, /select your session mode/);
+        assert.equal(harness.storage.tables.sessions.length, 0);
+
+        await startQuiz(harness, 'user', '10');
+        await harness.sendText('🚀 Start');
+        assert.match(harness.lastMessage()!.text, /unfinished quiz in 👤 User mode: 0\/10 answered/);
+
+        await harness.tap('start_command');
+        assert.match(harness.lastMessage()!.text, /unfinished quiz in 👤 User mode: 0\/10 answered/);
+        assert.equal(harness.storage.tables.sessions.length, 1);
+    });
+});
+
+describe('timed questions', () => {
+    let harness: Harness;
+
+    beforeEach(() => {
+        harness = createHarness({ questions: QUESTIONS });
+    });
+
+    afterEach(() => {
+        mock.restoreAll();
+    });
+
+    it('offers time limits once the length is chosen', async () => {
+        await harness.sendText('/start');
+        await harness.tap('mode:user');
+        await harness.tapLabel('10');
+
+        const picker = harness.lastMessage()!;
+        assert.match(picker.text, /How long do you want per question/);
+        assert.deepEqual(buttons(picker).map((button) => button.text), ['⏱ 15s', '⏱ 30s', '⏱ 60s', '🐢 No limit']);
+    });
+
+    it('counts down and scores a miss when time runs out', async () => {
+        await startQuiz(harness, 'user', '10', '⏱ 30s');
+        const questionMessage = harness.lastMessage()!;
+        assert.match(questionMessage.text, /30s per question/);
+        assert.match(questionMessage.text, /⏱ 30s left$/);
+
+        await harness.advance(10000);
+        assert.match(questionMessage.text, /⏱ 20s left$/);
+        assert.ok(buttons(questionMessage).length > 0);
+
+        await harness.advance(20000);
+        assert.match(questionMessage.text, /⏱ Time's up!$/);
+        assert.equal(questionMessage.keyboard, undefined);
+
+        const feedback = harness.lastMessage()!.text;
+        assert.match(feedback, /^⏱ Time's up!/);
+        assert.match(feedback, /📊 Score: 0\/1 correct/);
+
+        const [served] = harness.storage.tables.session_questions;
+        assert.equal(served.answer_index, null);
+        assert.equal(served.is_correct, false);
+        assert.equal(harness.storage.tables.review_cards.length, 1);
+    });
+
+    it('rewards faster correct answers with more points', async () => {
+        await startQuiz(harness, 'user', '10', '⏱ 30s');
+        await harness.advance(15000);
+        await answer(harness, true);
+
+        assert.match(harness.lastMessage()!.text, /✅ Correct! \+750 points/);
+        assert.match(harness.lastMessage()!.text, /⭐ Points: 750/);
+        assert.equal(harness.storage.tables.sessions[0].points, 750);
+
+        // The countdown stops once the question is answered
+        const sent = harness.messages.length;
+        await harness.advance(30000);
+        assert.equal(harness.messages.length, sent);
+    });
+
+    it('treats taps after the limit as a timeout even when the timer was lost', async () => {
+        await startQuiz(harness, 'user', '10', '⏱ 15s');
+        harness.clock.advance(16000);
+        await answer(harness, true);
+
+        assert.equal(harness.callbackAnswers().pop(), '⏱ Time\'s up!');
+        assert.equal(harness.storage.tables.sessions[0].correct, 0);
+        assert.equal(harness.storage.tables.sessions[0].questions, 1);
+    });
+});
+
+describe('difficulty levels', () => {
+    const LEVELED: QuestionInsert[] = [
+        { id: 'easy', question: 'Easy one?', choices: ['Yes', 'No'], answer_index: 0, answer: 'Yes', tags: ['user'], difficulty: 1 },
+        { id: 'mid1', question: 'Middle one?', choices: ['Yes', 'No'], answer_index: 0, answer: 'Yes', tags: ['user'] },
+        { id: 'mid2', question: 'Middle two?', choices: ['Yes', 'No'], answer_index: 0, answer: 'Yes', tags: ['user'] },
+        { id: 'mid3', question: 'Middle three?', choices: ['Yes', 'No'], answer_index: 0, answer: 'Yes', tags: ['user'], difficulty: 2 },
+        { id: 'hard', question: 'Hard one?', choices: ['Yes', 'No'], answer_index: 0, answer: 'Yes', tags: ['user'], difficulty: 3 }
+    ];
+    let harness: Harness;
+
+    beforeEach(() => {
+        harness = createHarness({ questions: LEVELED });
+    });
+
+    afterEach(() => {
+        mock.restoreAll();
+    });
+
+    it('rates questions from their correct rate once they have enough answers', () => {
+        assert.equal(rateDifficulty(MIN_RATED_ANSWERS - 1, 0), 2);
+        assert.equal(rateDifficulty(MIN_RATED_ANSWERS, MIN_RATED_ANSWERS), 1);
+        assert.equal(rateDifficulty(MIN_RATED_ANSWERS, MIN_RATED_ANSWERS / 2), 2);
+        assert.equal(rateDifficulty(MIN_RATED_ANSWERS, 1), 3);
+    });
+
+    it('moves an adaptive level on streaks', () => {
+        assert.equal(nextLevel(2, [true, true]), 2);
+        assert.equal(nextLevel(2, [false, true, true, true]), 3);
+        assert.equal(nextLevel(3, [true, true, true]), 3);
+        assert.equal(nextLevel(2, [true, false, false]), 1);
+        assert.equal(nextLevel(2, []), 2);
+    });
+
+    it('asks for a difficulty once the time limit is chosen', async () => {
+        await harness.sendText('/start');
+        await harness.tap('mode:user');
+        await harness.tapLabel('5');
+        await harness.tapLabel('🐢 No limit');
+
+        const picker = harness.lastMessage()!;
+        assert.match(picker.text, /Which difficulty do you want in 👤 User mode \(5 questions\)/);
+        assert.deepEqual(buttons(picker).map((button) => button.text), ['🌱 Beginner', '🌿 Intermediate', '🌳 Expert', '📈 Adaptive']);
+    });
+
+    it('only serves questions of the chosen level', async () => {
+        await startQuiz(harness, 'user', '10', '🐢 No limit', '🌳 Expert');
+        assert.equal(pendingQuestion(harness).id, 'hard');
+        assert.equal(harness.storage.tables.sessions[0].level, 3);
+
+        await answer(harness, true);
+        await harness.tapLabel('Next Question ⏭️');
+        assert.ok(harness.messages.some((sent) => /every 🌳 Expert question available/.test(sent.text)));
+        assert.match(harness.lastMessage()!.text, /Difficulty: 🌳 Expert/);
+    });
+
+    it('raises an adaptive level after a streak of correct answers', async () => {
+        await startQuiz(harness, 'user', '10', '🐢 No limit', '📈 Adaptive');
+        assert.match(harness.lastMessage()!.text, /\(10 questions, 📈 Adaptive\)/);
+
+        for (let index = 0; index < LEVEL_UP_STREAK; index++) {
+            assert.equal(pendingQuestion(harness).id.startsWith('mid'), true);
+            await answer(harness, true);
+            if (index < LEVEL_UP_STREAK - 1) {
+                await harness.tapLabel('Next Question ⏭️');
+            }
+        }
+
+        assert.match(harness.lastMessage()!.text, /📈 Level up: 🌳 Expert/);
+        assert.equal(harness.storage.tables.sessions[0].level, 3);
+
+        await harness.tapLabel('Next Question ⏭️');
+        assert.equal(pendingQuestion(harness).id, 'hard');
+
+        await harness.sendText('/finish');
+        assert.match(harness.lastMessage()!.text, /Difficulty reached: 🌳 Expert/);
+    });
+});
+
+describe('/topics', () => {
+    const TOPICAL: QuestionInsert[] = [
+        { id: 'stake1', question: 'What do you stake?', choices: ['XPR', 'Gas'], answer_index: 0, answer: 'XPR', tags: ['user', 'staking'] },
+        { id: 'stake2', question: 'Who gets staking rewards?', choices: ['Stakers', 'Nobody'], answer_index: 0, answer: 'Stakers', tags: ['staking'] },
+        { id: 'wallet', question: 'Reference wallet?', choices: ['MetaMask', 'WebAuth'], answer_index: 1, answer: 'WebAuth', tags: ['user', 'webauth'] },
+        { id: 'contract', question: 'Contract language?', choices: ['Solidity', 'TypeScript'], answer_index: 1, answer: 'TypeScript', tags: ['dev', 'contracts'] }
+    ];
+    let harness: Harness;
+
+    beforeEach(() => {
+        harness = createHarness({ questions: TOPICAL });
+    });
+
+    afterEach(() => {
+        mock.restoreAll();
+    });
+
+    it('offers the tags of the questions, without the mode ones', async () => {
+        await harness.sendText('/topics');
+
+        const picker = harness.lastMessage()!;
+        assert.match(picker.text, /Pick the topics of your quiz/);
+        assert.deepEqual(buttons(picker).map((button) => button.text), ['#contracts', '#staking', '#webauth', '▶️ Start', '🧹 Clear']);
+    });
+
+    it('fits long tags in the callback data', async () => {
+        const tag = 'a-topic-name-far-longer-than-the-sixty-four-bytes-telegram-allows';
+        harness = createHarness({ questions: [...TOPICAL, { ...TOPICAL[0], id: 'long', tags: [tag] }] });
+        await harness.sendText('/topics');
+
+        const picker = harness.lastMessage()!;
+        assert.ok(buttons(picker).every((button) => 'callback_data' in button && Buffer.byteLength(button.callback_data) <= 64));
+
+        await harness.tapLabel(`#${tag}`);
+        assert.match(picker.text, new RegExp(`🏷️ Topics: #${tag}`));
+        assert.equal(harness.callbackAnswers().pop(), undefined);
+
+        await harness.tap('topic:9');
+        assert.equal(harness.callbackAnswers().pop(), 'This topic is no longer available.');
+    });
+
+    it('shows the selection and the number of matching questions', async () => {
+        await harness.sendText('/topics');
+        await harness.tapLabel('#staking');
+        await harness.tapLabel('#webauth');
+
+        const picker = harness.lastMessage()!;
+        assert.match(picker.text, /🏷️ Topics: #staking, #webauth/);
+        assert.match(picker.text, /📚 3 questions match these topics/);
+        assert.ok(buttons(picker).some((button) => button.text === '✅ #staking'));
+
+        await harness.tapLabel('✅ #webauth');
+        assert.match(picker.text, /📚 2 questions match these topics/);
+    });
+
+    it('needs a topic before starting', async () => {
+        await harness.sendText('/topics');
+        await harness.tapLabel('▶️ Start');
+
+        assert.equal(harness.callbackAnswers().pop(), 'Pick at least one topic first.');
+        assert.equal(harness.storage.tables.sessions.length, 0);
+    });
+
+    it('starts a session that only serves the picked topics', async () => {
+        await harness.sendText('/topics');
+        await harness.tapLabel('#staking');
+        await harness.tapLabel('▶️ Start');
+        assert.match(harness.lastMessage()!.text, /How many questions do you want on #staking\? 2 questions are available/);
+
+        await harness.tapLabel('10');
+        await harness.tapLabel('🐢 No limit');
+        await harness.tapLabel('🌿 Intermediate');
+
+        const [session] = harness.storage.tables.sessions;
+        assert.equal(session.mode, 'mixed');
+        assert.deepEqual(session.topics, ['staking']);
+        assert.match(harness.lastMessage()!.text, /🏷️ Topics: #staking/);
+
+        for (let index = 0; index < 2; index++) {
+            assert.ok(pendingQuestion(harness).tags!.includes('staking'));
+            await answer(harness, true);
+            await harness.tapLabel('Next Question ⏭️');
+        }
+        assert.ok(harness.messages.some((sent) => /every question available on #staking/.test(sent.text)));
+    });
+
+    it('is left out of sessions started from a mode', async () => {
+        await harness.sendText('/topics');
+        await harness.tapLabel('#staking');
+        await startQuiz(harness, 'mixed', '5');
+
+        assert.equal(harness.storage.tables.sessions[0].topics, null);
+    });
+});
+
+describe('choice order', () => {
+    it('draws a permutation of the choices', () => {
+        const order = shuffleChoices(4, () => 0);
+        assert.deepEqual(order, [1, 2, 3, 0]);
+        assert.deepEqual(orderChoices(['a', 'b', 'c', 'd'], order), ['b', 'c', 'd', 'a']);
+        assert.equal(toAnswerIndex(order, 4, 3), 0);
+        assert.equal(toPosition(order, 4, 0), 3);
+    });
+
+    it('keeps the stored order for servings without one or whose question changed since', () => {
+        assert.deepEqual(orderChoices(['a', 'b'], null), ['a', 'b']);
+        assert.deepEqual(orderChoices(['a', 'b'], [2, 0, 1]), ['a', 'b']);
+        assert.equal(toAnswerIndex([2, 0, 1], 2, 1), 1);
+    });
+});
@@ -0,0 +1,154 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it, mock } from 'node:test';
+import { classifyUpdate } from '../src/handlers/rateLimit';
+import { SessionContext } from '../src/interfaces/bot';
+import { QuestionInsert } from '../src/interfaces/question';
+import { createRateLimiter, DEFAULT_RATE_LIMITS, parseRateLimits, RateLimitConfig } from '../src/services/rateLimit';
+import { createHarness, DEFAULT_USER, NO_RATE_LIMITS, TestUser } from './harness';
+
+const QUESTIONS: QuestionInsert[] = [{
+    id: 'q1',
+    question: 'Question 1?',
+    choices: ['Right', 'Wrong'],
+    answer_index: 0,
+    answer: 'Right',
+    tags: ['user']
+}];
+
+const BOB: TestUser = { id: 1002, username: 'bob', languageCode: 'fr' };
+const GROUP_ID = -500;
+
+// Generous limits but for the ones a test is about
+function limits(overrides: Partial<Omit<RateLimitConfig, 'user'>> & { user?: Partial<RateLimitConfig['user']> }): RateLimitConfig {
+    return { ...NO_RATE_LIMITS, ...overrides, user: { ...NO_RATE_LIMITS.user, ...overrides.user } };
+}
+
+describe('createRateLimiter', () => {
+    it('allows a burst up to the capacity, then one update per refill period', () => {
+        const limiter = createRateLimiter(limits({ user: { next: { capacity: 2, refillSeconds: 5 } } }));
+
+        assert.equal(limiter.check('1', null, 'next', 0).allowed, true);
+        assert.equal(limiter.check('1', null, 'next', 0).allowed, true);
+        assert.deepEqual(limiter.check('1', null, 'next', 1000), { allowed: false, reason: 'throttled', retryAfterSeconds: 4, notify: true });
+        assert.equal(limiter.check('1', null, 'next', 5000).allowed, true);
+
+        // Other players and other kinds of updates have their own buckets
+        assert.equal(limiter.check('2', null, 'next', 5000).allowed, true);
+        assert.equal(limiter.check('1', null, 'answer', 5000).allowed, true);
+    });
+
+    it('bans players refused too often, and lets them back once the ban is over', () => {
+        const limiter = createRateLimiter(limits({
+            user: { command: { capacity: 1, refillSeconds: 60 } },
+            strikes: 3,
+            strikeWindowSeconds: 60,
+            banSeconds: 300
+        }));
+        limiter.check('1', null, 'command', 0);
+
+        const refused = [1, 2, 3, 4].map((second) => limiter.check('1', null, 'command', second * 1000));
+        assert.deepEqual(refused.map((decision) => decision.allowed ? 'allowed' : `${decision.reason}:${decision.notify}`), [
+            'throttled:true',
+            'throttled:false',
+            'banned:true',
+            'banned:false'
+        ]);
+        assert.equal(limiter.check('1', null, 'next', 10000).allowed, false);
+        assert.equal(limiter.check('1', null, 'command', 304000).allowed, true);
+    });
+});
+
+describe('parseRateLimits', () => {
+    it('overrides the defaults given, keeping the others', () => {
+        const config = parseRateLimits('{"user": {"session": {"capacity": 2}}, "banSeconds": 60}');
+
+        assert.deepEqual(config.user.session, { capacity: 2, refillSeconds: DEFAULT_RATE_LIMITS.user.session.refillSeconds });
+        assert.deepEqual(config.user.answer, DEFAULT_RATE_LIMITS.user.answer);
+        assert.equal(config.banSeconds, 60);
+    });
+
+    it('rejects unknown actions and limits that would block everything', () => {
+        assert.throws(() => parseRateLimits('{"user": {"spam": {"capacity": 1}}}'), /Unknown rate limit action "spam"/);
+        assert.throws(() => parseRateLimits('{"chat": {"capacity": 0}}'), /Invalid rate limit for chat/);
+    });
+});
+
+describe('rate limiting', () => {
+    afterEach(() => {
+        mock.restoreAll();
+    });
+
+    it('counts every way of answering a question as an answer', () => {
+        const tap = (data: string) => classifyUpdate({ callbackQuery: { data } } as unknown as SessionContext);
+
+        assert.deepEqual(['answer:s_0', 'pick:s_1', 'submit:s', 'battle:r_0'].map(tap), ['answer', 'answer', 'answer', 'answer']);
+        assert.equal(tap('next_command'), 'next');
+        assert.equal(tap('level:user:5:0:2'), 'session');
+    });
+
+    it('throttles quiz starts before they reach the storage', async () => {
+        const harness = createHarness({
+            questions: QUESTIONS,
+            rateLimits: limits({ user: { session: { capacity: 1, refillSeconds: 30 } } })
+        });
+        await harness.sendText('/start');
+        await harness.tap('mode:user');
+        await harness.tapLabel('5');
+        await harness.tapLabel('🐢 No limit');
+        await harness.tap('level:user:5:0:2');
+
+        const getSettings = mock.method(harness.storage.users, 'getSettings');
+        await harness.tap('level:user:5:0:2');
+
+        assert.equal(harness.callbackAnswers().at(-1), 'Slow down a little! Try again in 30 seconds.');
+        assert.equal(getSettings.mock.callCount(), 0);
+        assert.equal(harness.storage.tables.sessions.length, 1);
+
+        harness.clock.advance(30 * 1000);
+        await harness.tap('level:user:5:0:2');
+        assert.equal(harness.storage.tables.sessions.length, 2);
+    });
+
+    it('replies once to throttled messages, in the Telegram language', async () => {
+        const harness = createHarness({ rateLimits: limits({ user: { command: { capacity: 1, refillSeconds: 10 } } }) });
+        await harness.sendText('/stats', BOB);
+        const sent = harness.messages.length;
+
+        await harness.sendText('/stats', BOB);
+        await harness.sendText('/stats', BOB);
+
+        assert.deepEqual(harness.messages.slice(sent).map((message) => message.text), ['Doucement ! Réessayez dans 10 secondes.']);
+    });
+
+    it('shares a bucket between everyone in a chat', async () => {
+        const harness = createHarness({ rateLimits: limits({ chat: { capacity: 2, refillSeconds: 10 } }) });
+        await harness.sendText('/leaderboard', DEFAULT_USER, GROUP_ID);
+        await harness.sendText('/leaderboard', BOB, GROUP_ID);
+        await harness.sendText('/leaderboard', DEFAULT_USER, GROUP_ID);
+
+        assert.match(harness.lastMessage(GROUP_ID)!.text, /^Slow down a little!/);
+
+        // The player's own chat with the bot has a bucket of its own
+        await harness.sendText('/leaderboard');
+        assert.match(harness.lastMessage()!.text, /🏆 Leaderboard/);
+    });
+
+    it('bans repeat offenders for a while, admins are never limited', async () => {
+        const harness = createHarness({
+            adminIds: [BOB.id.toString()],
+            rateLimits: limits({ user: { next: { capacity: 1, refillSeconds: 60 } }, strikes: 2, banSeconds: 120 })
+        });
+        for (let index = 0; index < 4; index++) {
+            await harness.sendText('/next');
+            await harness.sendText('/next', BOB);
+        }
+
+        const texts = harness.messages.filter((message) => message.chatId === DEFAULT_USER.id).map((message) => message.text);
+        assert.deepEqual(texts.slice(-2), ['Slow down a little! Try again in 60 seconds.', '⛔ Too many requests. You are blocked for 2 minutes.']);
+        assert.ok(harness.messages.filter((message) => message.chatId === BOB.id).every((message) => !/Slow down|blocked/.test(message.text)));
+
+        harness.clock.advance(120 * 1000);
+        await harness.sendText('/leaderboard');
+        assert.match(harness.lastMessage()!.text, /🏆 Leaderboard/);
+    });
+});
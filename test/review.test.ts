@@ -0,0 +1,85 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { QuestionInsert } from '../src/interfaces/question';
+import { scheduleCard } from '../src/services/review';
+import { createHarness, createTestClock, Harness } from './harness';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const QUESTIONS: QuestionInsert[] = [
+    { id: 'q1', question: 'Native token of XPR Network?', choices: ['XPR', 'EOS'], answer_index: 0, answer: 'XPR', tags: ['user'] }
+];
+
+describe('scheduleCard', () => {
+    const now = new Date('2026-01-01T00:00:00.000Z');
+
+    it('creates no card for a question answered right the first time', () => {
+        assert.equal(scheduleCard(null, '1', 'q1', true, now), null);
+    });
+
+    it('puts a miss in the first box, due right away', () => {
+        const card = scheduleCard(null, '1', 'q1', false, now)!;
+        assert.equal(card.box, 1);
+        assert.equal(card.due_date, now.toISOString());
+    });
+
+    it('moves a hit one box up and sends a miss back to the first box', () => {
+        const card = scheduleCard(null, '1', 'q1', false, now)!;
+        const promoted = scheduleCard(card, '1', 'q1', true, now)!;
+        assert.equal(promoted.box, 2);
+        assert.equal(promoted.due_date, new Date(now.getTime() + DAY_MS).toISOString());
+
+        const capped = scheduleCard({ ...promoted, box: 5 }, '1', 'q1', true, now)!;
+        assert.equal(capped.box, 5);
+
+        assert.equal(scheduleCard(capped, '1', 'q1', false, now)!.box, 1);
+    });
+});
+
+describe('review mode', () => {
+    let harness: Harness;
+    let clock: ReturnType<typeof createTestClock>;
+
+    beforeEach(() => {
+        clock = createTestClock();
+        harness = createHarness({ questions: QUESTIONS, clock });
+    });
+
+    afterEach(() => {
+        mock.restoreAll();
+    });
+
+    it('has nothing to review before any miss', async () => {
+        await harness.sendText('/start');
+        await harness.tap('mode:review');
+
+        assert.match(harness.lastMessage()!.text, /Nothing to review yet/);
+        assert.equal(harness.storage.tables.sessions.length, 0);
+    });
+
+    it('resurfaces a missed question and schedules it further after a hit', async () => {
+        await harness.sendText('/start');
+        await harness.tap('mode:user');
+        await harness.tapLabel('5');
+        await harness.tapLabel('🐢 No limit');
+        await harness.tapLabel('🌿 Intermediate');
+        await harness.tapLabel('EOS');
+        assert.equal(harness.storage.tables.review_cards[0].box, 1);
+
+        await harness.sendText('/start');
+        await harness.tapLabel('🗑️ Start over');
+        await harness.tap('mode:review');
+        await harness.tapLabel('5');
+        await harness.tapLabel('🐢 No limit');
+        assert.match(harness.lastMessage()!.text, /Session started in 🔁 Review mode/);
+        assert.match(harness.lastMessage()!.text, /Native token of XPR Network\?/);
+
+        await harness.tapLabel('XPR');
+        const [card] = harness.storage.tables.review_cards;
+        assert.equal(card.box, 2);
+        assert.equal(card.due_date, new Date(clock.now().getTime() + DAY_MS).toISOString());
+
+        await harness.tapLabel('Next Question ⏭️');
+        assert.match(harness.messages[harness.messages.length - 2].text, /Nothing left to review right now/);
+    });
+});
@@ -0,0 +1,143 @@
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'node:net';
+import { Server } from 'node:http';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { QuestionInsert } from '../src/interfaces/question';
+import { createHttpServer } from '../src/server';
+import { createMetrics, Metrics } from '../src/services/metrics';
+import { instrumentStorage } from '../src/storage/instrumented';
+import { createMemoryStorage } from '../src/storage/memory';
+import { createHarness, DEFAULT_USER, Harness } from './harness';
+
+const QUESTIONS: QuestionInsert[] = [{
+    id: 'q1',
+    question: 'Question 1?',
+    choices: ['Right', 'Wrong'],
+    answer_index: 0,
+    answer: 'Right',
+    tags: ['user']
+}];
+
+const SECRET = 'webhook-secret';
+
+// The harness stubs fetch for file downloads, the server is reached for real
+const realFetch = globalThis.fetch;
+
+describe('HTTP server', () => {
+    let harness: Harness;
+    let metrics: Metrics;
+    let server: Server;
+    let baseUrl: string;
+
+    beforeEach(async () => {
+        metrics = createMetrics();
+        harness = createHarness({ questions: QUESTIONS, metrics });
+        server = createHttpServer(harness.bot, { storage: harness.storage, metrics }, { path: '/telegram', secretToken: SECRET });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+        mock.restoreAll();
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    // Post a /start message the way Telegram does, with the given secret token
+    function postUpdate(secretToken?: string) {
+        return realFetch(`${baseUrl}/telegram`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(secretToken ? { 'X-Telegram-Bot-Api-Secret-Token': secretToken } : {})
+            },
+            body: JSON.stringify({
+                update_id: 1,
+                message: {
+                    message_id: 1,
+                    date: 0,
+                    chat: { id: DEFAULT_USER.id, type: 'private', first_name: 'alice' },
+                    from: { id: DEFAULT_USER.id, is_bot: false, first_name: 'alice', username: 'alice', language_code: 'en' },
+                    text: '/start',
+                    entities: [{ type: 'bot_command', offset: 0, length: 6 }]
+                }
+            })
+        });
+    }
+
+    it('handles webhook updates carrying the secret token', async () => {
+        const response = await postUpdate(SECRET);
+
+        assert.equal(response.status, 200);
+        assert.match(harness.lastMessage()!.text, /Welcome to XPR Guru Bot!/);
+    });
+
+    it('refuses webhook updates without the secret token', async () => {
+        assert.equal((await postUpdate()).status, 403);
+        assert.equal((await postUpdate('guess')).status, 403);
+        assert.equal(harness.messages.length, 0);
+    });
+
+    it('answers the liveness and readiness probes', async () => {
+        const health = await realFetch(`${baseUrl}/healthz`);
+        assert.equal(health.status, 200);
+        assert.equal(await health.text(), 'ok');
+
+        assert.equal((await realFetch(`${baseUrl}/readyz`)).status, 200);
+
+        mock.method(harness.storage.health, 'ping', async () => false);
+        const ready = await realFetch(`${baseUrl}/readyz`);
+        assert.equal(ready.status, 503);
+        assert.equal(await ready.text(), 'storage unavailable');
+    });
+
+    it('exposes the bot activity in the Prometheus format', async () => {
+        await harness.sendText('/start');
+        await harness.tap('mode:user');
+        await harness.tapLabel('5');
+        await harness.tapLabel('🐢 No limit');
+        await harness.tapLabel('🌿 Intermediate');
+        await harness.tapLabel('Right');
+        await harness.sendText('/finish');
+
+        const response = await realFetch(`${baseUrl}/metrics`);
+        assert.match(response.headers.get('content-type') || '', /^text\/plain; version=0\.0\.4/);
+
+        const text = await response.text();
+        assert.match(text, /^xpr_guru_updates_total\{type="message"\} 2$/m);
+        assert.match(text, /^xpr_guru_updates_total\{type="callback_query"\} 5$/m);
+        assert.match(text, /^xpr_guru_answers_total\{result="correct"\} 1$/m);
+        assert.match(text, /^xpr_guru_sessions_created_total\{mode="user"\} 1$/m);
+        assert.match(text, /^xpr_guru_sessions_finished_total\{status="finished"\} 1$/m);
+        assert.match(text, /^# TYPE xpr_guru_handler_errors_total counter$/m);
+        assert.match(text, /^xpr_guru_storage_duration_seconds_count\{method="createSession",repository="sessions"\} 1$/m);
+        assert.match(text, /^xpr_guru_storage_duration_seconds_bucket\{method="createSession",repository="sessions",le="\+Inf"\} 1$/m);
+    });
+
+    it('counts the errors caught while handling updates', async () => {
+        mock.method(harness.storage.questions, 'getRandomQuestion', async () => {
+            throw new Error('boom');
+        });
+        mock.method(console, 'error', () => undefined);
+
+        await harness.sendText('/next');
+
+        const text = await (await realFetch(`${baseUrl}/metrics`)).text();
+        assert.match(text, /^xpr_guru_handler_errors_total\{type="message"\} 1$/m);
+    });
+});
+
+describe('instrumentStorage', () => {
+    it('only counts the sessions a close changed', async () => {
+        const metrics = createMetrics();
+        const storage = instrumentStorage(createMemoryStorage(), metrics);
+        const sessionId = (await storage.sessions.createSession({ tg_handle: 'alice', tg_id: '1001' }))!;
+
+        assert.equal(await storage.sessions.finishSession(sessionId, '2026-01-01T00:00:00.000Z'), true);
+        assert.equal(await storage.sessions.finishSession(sessionId, '2026-01-01T00:01:00.000Z'), false);
+        assert.equal(await storage.sessions.abandonSession(sessionId, '2026-01-01T00:02:00.000Z'), false);
+
+        const text = metrics.render();
+        assert.match(text, /^xpr_guru_sessions_finished_total\{status="finished"\} 1$/m);
+        assert.doesNotMatch(text, /status="abandoned"/);
+    });
+});
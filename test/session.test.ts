@@ -0,0 +1,101 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { QuestionInsert } from '../src/interfaces/question';
+import { createFileChatStateRepository } from '../src/storage/file';
+import { buttons, createHarness, createTestClock, Harness, TestClock } from './harness';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const QUESTIONS: QuestionInsert[] = [
+    { id: 'q1', question: 'Native token of XPR Network?', choices: ['XPR', 'EOS'], answer_index: 0, answer: 'XPR', tags: ['user'] },
+    { id: 'q2', question: 'Reference wallet?', choices: ['MetaMask', 'WebAuth'], answer_index: 1, answer: 'WebAuth', tags: ['user'] }
+];
+
+describe('conversation state', () => {
+    let harness: Harness;
+    let clock: TestClock;
+
+    beforeEach(async () => {
+        clock = createTestClock();
+        harness = createHarness({ questions: QUESTIONS, clock });
+        await harness.sendText('/start');
+        await harness.tap('mode:user');
+        await harness.tapLabel('10');
+        await harness.tapLabel('🐢 No limit');
+        await harness.tapLabel('🌿 Intermediate');
+    });
+
+    afterEach(() => {
+        mock.restoreAll();
+    });
+
+    it('is stored with the active session and the served question', () => {
+        const [state] = harness.storage.tables.chat_states;
+        assert.equal(state.key, '1001:1001');
+        assert.equal(state.data.sessionId, harness.storage.tables.sessions[0].id);
+        assert.equal(state.data.servedId, harness.storage.tables.session_questions[0].id);
+    });
+
+    it('resumes the session and its pending question after a restart', async () => {
+        const served = harness.storage.tables.session_questions[0];
+        const question = QUESTIONS.find((candidate) => candidate.id === served.question_id)!;
+
+        mock.restoreAll();
+        const restarted = createHarness({ storage: harness.storage, clock });
+        await restarted.sendText('/next');
+
+        const message = restarted.lastMessage()!;
+        assert.match(message.text, /Question 1\/10!/);
+        assert.ok(message.text.includes(question.question));
+        assert.ok(buttons(message).some((button) => 'callback_data' in button && button.callback_data.startsWith(`answer:${served.id}_`)));
+
+        await restarted.tapLabel(question.answer!);
+        assert.match(restarted.lastMessage()!.text, /✅ Correct!/);
+        assert.equal(restarted.storage.tables.sessions.length, 1);
+    });
+
+    it('drops abandoned state and finishes its session', async () => {
+        const [abandoned] = harness.storage.tables.sessions;
+
+        clock.advance(25 * HOUR_MS);
+        await harness.sendText('/next');
+
+        assert.ok(abandoned.finished_date);
+        assert.equal(harness.storage.tables.sessions.length, 2);
+        assert.match(harness.lastMessage()!.text, /Question 1\/10!/);
+    });
+
+    it('sweeps the state of chats that never come back', async () => {
+        const [abandoned] = harness.storage.tables.sessions;
+
+        await harness.advance(23 * HOUR_MS);
+        assert.equal(harness.storage.tables.chat_states.length, 1);
+
+        await harness.advance(2 * HOUR_MS);
+        assert.equal(harness.storage.tables.chat_states.length, 0);
+        assert.equal(abandoned.status, 'abandoned');
+        assert.ok(abandoned.finished_date);
+    });
+});
+
+describe('createFileChatStateRepository', () => {
+    it('keeps states across instances', async () => {
+        const directory = mkdtempSync(join(tmpdir(), 'xpr-guru-state-'));
+        try {
+            const filePath = join(directory, 'state.json');
+            const state = { key: '1:1', data: { sessionId: 's1' }, expires_date: '2026-01-02T00:00:00.000Z' };
+
+            await createFileChatStateRepository(filePath).saveState(state);
+            const reopened = createFileChatStateRepository(filePath);
+            assert.deepEqual(await reopened.getState('1:1'), state);
+
+            await reopened.deleteState('1:1');
+            assert.equal(await createFileChatStateRepository(filePath).getState('1:1'), null);
+        } finally {
+            rmSync(directory, { recursive: true, force: true });
+        }
+    });
+});
@@ -0,0 +1,103 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { QuestionInsert } from '../src/interfaces/question';
+import { createHarness, Harness } from './harness';
+
+const QUESTIONS: QuestionInsert[] = [
+    { id: 'q1', question: 'Q1', choices: ['a', 'b'], answer_index: 0, answer: 'a', tags: ['user', 'staking'] },
+    { id: 'q2', question: 'Q2', choices: ['a', 'b'], answer_index: 0, answer: 'a', tags: ['user', 'staking'] },
+    { id: 'q3', question: 'Q3', choices: ['a', 'b'], answer_index: 0, answer: 'a', tags: ['dev', 'contracts'] }
+];
+
+describe('/stats', () => {
+    let harness: Harness;
+
+    beforeEach(() => {
+        harness = createHarness({ questions: QUESTIONS });
+    });
+
+    afterEach(() => {
+        mock.restoreAll();
+    });
+
+    // Add a finished session with the given answers for the default user
+    function playSession(id: string, mode: 'user' | 'dev', day: number, answers: [string, boolean][]) {
+        const date = `2025-12-${String(day).padStart(2, '0')}T12:00:00.000Z`;
+        harness.storage.tables.sessions.push({
+            id,
+            tg_id: '1001',
+            tg_handle: 'alice',
+            created_date: date,
+            finished_date: date,
+            questions: answers.length,
+            correct: answers.filter(([, correct]) => correct).length,
+            max_question: answers.length,
+            mode,
+            points: 0,
+            status: 'finished',
+            time_limit: null,
+            level: null,
+            adaptive: false,
+            topics: null,
+            daily_date: null
+        });
+        answers.forEach(([questionId, correct], index) => {
+            harness.storage.tables.session_questions.push({
+                id: `${id}-${index}`,
+                session_id: id,
+                question_id: questionId,
+                answer_index: correct ? 0 : 1,
+                answer_indexes: null,
+                choice_order: null,
+                is_correct: correct,
+                served_date: date,
+                answered_date: date
+            });
+        });
+    }
+
+    it('invites new players to play', async () => {
+        await harness.sendText('/stats');
+        assert.match(harness.lastMessage()!.text, /You have not answered any question yet/);
+    });
+
+    it('reports totals, modes, topics, best session, trend and weak topics', async () => {
+        playSession('s1', 'user', 1, [['q1', false], ['q2', false]]);
+        playSession('s2', 'dev', 2, [['q3', true]]);
+        playSession('s3', 'user', 3, [['q1', true], ['q2', false]]);
+
+        await harness.sendText('/stats');
+        const text = harness.lastMessage()!.text;
+
+        assert.match(text, /Sessions: 3/);
+        assert.match(text, /Lifetime accuracy: 40% \(2\/5\)/);
+        assert.match(text, /👤 User — 25% \(1\/4\) in 2 sessions/);
+        assert.match(text, /👩‍💻 Dev — 100% \(1\/1\) in 1 session/);
+        assert.match(text, /#staking — 25% \(1\/4\)/);
+        assert.match(text, /#contracts — 100% \(1\/1\)/);
+        assert.match(text, /🏅 Best session: 1\/1 in 👩‍💻 Dev mode on 2025-12-02/);
+        assert.match(text, /Last 3 sessions: 0% → 100% → 50%/);
+        assert.match(text, /📚 Study next: #staking \(3 missed\)/);
+    });
+
+    it('splits a report too long for one message', async () => {
+        const tags = Array.from({ length: 150 }, (_, index) => `topic-${index}-with-a-rather-long-name`);
+        harness.storage.tables.questions[0].tags = ['user', ...tags];
+        playSession('s1', 'user', 1, [['q1', true]]);
+
+        await harness.sendText('/stats');
+        const parts = harness.messages.map((message) => message.text);
+        assert.ok(parts.length > 1);
+        assert.ok(parts.every((part) => part.length <= 4096));
+        assert.match(parts[0], /^📈 Your XPR Guru stats/);
+        assert.match(parts.join('\n'), /#topic-149-with-a-rather-long-name — 100% \(1\/1\)/);
+    });
+
+    it('only counts the caller', async () => {
+        playSession('s1', 'user', 1, [['q1', true]]);
+        harness.storage.tables.sessions[0].tg_id = '2002';
+
+        await harness.sendText('/stats');
+        assert.match(harness.lastMessage()!.text, /You have not answered any question yet/);
+    });
+});